@@ -2,21 +2,40 @@ import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
 import { Pool } from 'pg';
 
 import { createApiHandler } from './api.js';
-import { connectDB, disconnectDB } from './models/Novel.js';
+import {
+  connectDB,
+  disconnectDB,
+  findMissingChapterRanges,
+  listChaptersByNovelId,
+  saveChapterIndex,
+  syncChapterNumbers,
+  upsertChapters,
+  upsertNovelByUrl
+} from './models/Novel.js';
+import { enqueueChapterJobs, initScrapeJobTables, requestNovelScrape } from './models/ScrapeJob.js';
+import { initScrapeJobEventTables, recordScrapeJobEvent } from './models/ScrapeJobEvent.js';
+import { createScrapeRun, finishScrapeRun, initScrapeRunTables } from './models/ScrapeRun.js';
+import { initScrapeTargetTables } from './models/ScrapeTarget.js';
+import { initSelectorHealthTables, recordSelectorHits } from './models/SelectorHealth.js';
 
 let server: ReturnType<typeof Bun.serve>;
 let baseUrl = '';
 let cleanupPool: Pool;
 let createdNovelUrl = '';
+let previousAdminToken: string | undefined;
+
+const ADMIN_TOKEN = 'integration-admin-token';
+const ADMIN_HEADERS = { authorization: `Bearer ${ADMIN_TOKEN}` };
 
 async function requestJson(
   method: string,
   path: string,
-  body?: Record<string, unknown>
+  body?: Record<string, unknown>,
+  headers: Record<string, string> = {}
 ): Promise<{ status: number; json: Record<string, unknown> }> {
   const response = await fetch(`${baseUrl}${path}`, {
     method,
-    headers: body ? { 'content-type': 'application/json' } : undefined,
+    headers: body ? { 'content-type': 'application/json', ...headers } : headers,
     body: body ? JSON.stringify(body) : undefined
   });
 
@@ -31,8 +50,16 @@ describe('API integration tests (real DB)', () => {
     }
 
     await connectDB();
+    await initScrapeTargetTables();
+    await initScrapeJobTables();
+    await initScrapeJobEventTables();
+    await initSelectorHealthTables();
+    await initScrapeRunTables();
     cleanupPool = new Pool({ connectionString: process.env.DATABASE_URL });
 
+    previousAdminToken = process.env.ADMIN_API_TOKEN;
+    process.env.ADMIN_API_TOKEN = ADMIN_TOKEN;
+
     server = Bun.serve({
       port: 0,
       fetch: createApiHandler()
@@ -46,6 +73,12 @@ describe('API integration tests (real DB)', () => {
       await cleanupPool.query('DELETE FROM novels WHERE novel_url = $1', [createdNovelUrl]);
     }
 
+    if (previousAdminToken === undefined) {
+      delete process.env.ADMIN_API_TOKEN;
+    } else {
+      process.env.ADMIN_API_TOKEN = previousAdminToken;
+    }
+
     server.stop(true);
     await cleanupPool.end();
     await disconnectDB();
@@ -63,6 +96,9 @@ describe('API integration tests (real DB)', () => {
       novelUrl: createdNovelUrl,
       author: 'Integration Runner',
       genres: ['Test'],
+      views: '1.2M',
+      totalChapters: '3 Chapters',
+      status: 'Ongoing',
       rating: 7.5
     });
     expect(createNovel.status).toBe(200);
@@ -71,6 +107,9 @@ describe('API integration tests (real DB)', () => {
     const novelId = Number(novel._id);
     expect(Number.isInteger(novelId)).toBe(true);
     expect(novel.title).toBe('Integration Test Novel');
+    expect(novel.viewsCount).toBe(1200000);
+    expect(novel.totalChaptersCount).toBe(3);
+    expect(novel.normalizedStatus).toBe('ongoing');
 
     const listNovels = await requestJson(
       'GET',
@@ -84,6 +123,69 @@ describe('API integration tests (real DB)', () => {
     expect(Number(novelsMeta.pageSize)).toBe(10);
     expect(Number(novelsMeta.total)).toBeGreaterThan(0);
 
+    const filteredNovels = await requestJson(
+      'GET',
+      '/novels?genres=Test&status=ongoing&author=integration%20runner&minRating=7' +
+        '&minChapters=1&maxChapters=10&sort=views'
+    );
+    expect(filteredNovels.status).toBe(200);
+    expect((filteredNovels.json.data as Array<Record<string, unknown>>).map((item) => Number(item._id))).toContain(
+      novelId
+    );
+
+    const invalidSort = await requestJson('GET', '/novels?sort=popularity');
+    expect(invalidSort.status).toBe(400);
+
+    // Snapshots normally come from the scraper: one from before the trending window, one from now
+    await cleanupPool.query(
+      `INSERT INTO novel_stat_snapshots (novel_id, views_count, captured_at)
+       VALUES ($1, 1000, NOW() - INTERVAL '10 days'), ($1, 1200000, NOW())`,
+      [novelId]
+    );
+
+    const statHistory = await requestJson('GET', `/novels/${novelId}/stats/history`);
+    expect(statHistory.status).toBe(200);
+    const snapshots = statHistory.json.data as Array<Record<string, unknown>>;
+    expect(snapshots.map((snapshot) => snapshot.viewsCount)).toEqual([1000, 1200000]);
+
+    const trending = await requestJson('GET', '/novels/trending?metric=views&days=7');
+    expect(trending.status).toBe(200);
+    const trendingNovel = (trending.json.data as Array<Record<string, unknown>>).find(
+      (item) => Number((item.novel as Record<string, unknown>)._id) === novelId
+    );
+    expect(trendingNovel?.growth).toBe(1199000);
+
+    const invalidMetric = await requestJson('GET', '/novels/trending?metric=rating');
+    expect(invalidMetric.status).toBe(400);
+
+    const genres = await requestJson('GET', '/genres?limit=100');
+    expect(genres.status).toBe(200);
+    expect((genres.json.data as Array<Record<string, unknown>>).map((genre) => genre.slug)).toContain('test');
+
+    const genreNovels = await requestJson('GET', '/genres/TEST/novels');
+    expect(genreNovels.status).toBe(200);
+    expect((genreNovels.json.data as Array<Record<string, unknown>>).map((item) => Number(item._id))).toContain(
+      novelId
+    );
+
+    const missingGenre = await requestJson('GET', '/genres/no-such-genre/novels');
+    expect(missingGenre.status).toBe(404);
+
+    const malformedGenre = await requestJson('GET', '/genres/%E0/novels');
+    expect(malformedGenre.status).toBe(404);
+
+    const authorIds = novel.authorIds as number[];
+    expect(authorIds.length).toBe(1);
+    const author = await requestJson('GET', `/authors/${authorIds[0]}`);
+    expect(author.status).toBe(200);
+    expect((author.json.data as Record<string, unknown>).slug).toBe('integration-runner');
+
+    const authorNovels = await requestJson('GET', `/authors/${authorIds[0]}/novels`);
+    expect(authorNovels.status).toBe(200);
+    expect((authorNovels.json.data as Array<Record<string, unknown>>).map((item) => Number(item._id))).toContain(
+      novelId
+    );
+
     const getNovel = await requestJson('GET', `/novels/${novelId}`);
     expect(getNovel.status).toBe(200);
     expect(Number((getNovel.json.data as Record<string, unknown>)._id)).toBe(novelId);
@@ -121,5 +223,475 @@ describe('API integration tests (real DB)', () => {
     const chapterByNumber = getChapterByNumber.json.data as Record<string, unknown>;
     expect(chapterByNumber.chapterNumber).toBe(1);
     expect(chapterByNumber.content).toBe('Integration chapter content');
+
+    const getChapterMarkdown = await requestJson('GET', `/chapters/${chapterId}?format=markdown`);
+    expect(getChapterMarkdown.status).toBe(200);
+    expect((getChapterMarkdown.json.data as Record<string, unknown>).format).toBe('markdown');
+
+    const getChapterBadFormat = await requestJson('GET', `/chapters/${chapterId}?format=pdf`);
+    expect(getChapterBadFormat.status).toBe(400);
+
+    const repostChapter = await requestJson('POST', `/novels/${novelId}/chapters`, {
+      chapterNumber: 1,
+      url: `${createdNovelUrl}/chapter-1`,
+      title: 'Integration Chapter 1',
+      content: 'Integration chapter content'
+    });
+    expect(repostChapter.status).toBe(200);
+    expect((repostChapter.json.data as Record<string, unknown>).updatedAt).toBe(chapter.updatedAt);
+
+    const editChapter = await requestJson('POST', `/novels/${novelId}/chapters`, {
+      chapterNumber: 1,
+      url: `${createdNovelUrl}/chapter-1`,
+      title: 'Integration Chapter 1',
+      content: 'Integration chapter content, corrected'
+    });
+    expect(editChapter.status).toBe(200);
+    expect((editChapter.json.data as Record<string, unknown>).contentHash).not.toBe(chapter.contentHash);
+
+    const listRevisions = await requestJson('GET', `/chapters/${chapterId}/revisions`);
+    expect(listRevisions.status).toBe(200);
+    const revisions = listRevisions.json.data as Record<string, unknown>[];
+    expect(revisions.length).toBe(1);
+    expect(revisions[0].contentHash).toBe(chapter.contentHash);
+
+    const getDiff = await requestJson('GET', `/chapters/${chapterId}/revisions/diff`);
+    expect(getDiff.status).toBe(200);
+    const diff = getDiff.json.data as Record<string, unknown>;
+    expect(diff.added).toBe(1);
+    expect(diff.removed).toBe(1);
+    expect((diff.to as Record<string, unknown>).revisionId).toBeNull();
+
+    const searchChapters = await requestJson(
+      'GET',
+      `/search/chapters?q=${encodeURIComponent('corrected')}&novelId=${novelId}`
+    );
+    expect(searchChapters.status).toBe(200);
+    const chapterMatches = searchChapters.json.data as Record<string, unknown>[];
+    expect(chapterMatches.length).toBe(1);
+    expect(chapterMatches[0].chapterId).toBe(chapterId);
+    expect(chapterMatches[0].snippet).toContain('<mark>corrected</mark>');
+
+    const searchChaptersWithoutQuery = await requestJson('GET', '/search/chapters');
+    expect(searchChaptersWithoutQuery.status).toBe(400);
+
+    const createChapterThree = await requestJson('POST', `/novels/${novelId}/chapters`, {
+      chapterNumber: 3,
+      url: `${createdNovelUrl}/chapter-3`,
+      title: 'Integration Chapter 3',
+      content: 'Integration chapter three content'
+    });
+    expect(createChapterThree.status).toBe(200);
+
+    const conflictingChapter = await requestJson('POST', `/novels/${novelId}/chapters`, {
+      chapterNumber: 3,
+      url: `${createdNovelUrl}/chapter-3-other`,
+      title: 'Another Chapter 3',
+      content: 'Another chapter three'
+    });
+    expect(conflictingChapter.status).toBe(409);
+
+    const getCompleteness = await requestJson('GET', `/novels/${novelId}/completeness`);
+    expect(getCompleteness.status).toBe(200);
+    const completeness = getCompleteness.json.data as Record<string, unknown>;
+    expect(completeness.storedChapters).toBe(2);
+    expect(completeness.highestChapter).toBe(3);
+    expect(completeness.missingChapters).toBe(1);
+    expect(completeness.missingRanges).toEqual([{ from: 2, to: 2 }]);
+
+    const listCompleteness = await requestJson('GET', '/novels/completeness?page=1&pageSize=10');
+    expect(listCompleteness.status).toBe(200);
+    expect(Array.isArray(listCompleteness.json.data)).toBe(true);
+
+    // Unknown methods share one label, so clients cannot blow up its cardinality
+    const unknownMethod = await fetch(`${baseUrl}/health`, { method: 'PROPFIND' });
+    expect(unknownMethod.status).toBe(404);
+
+    // Path parameters are labelled by the route pattern, even when the request is rejected before the route runs
+    for (const path of ['/me/bookmarks/abc-random-1', '/me/bookmarks/xyz-random-2']) {
+      expect((await requestJson('DELETE', path)).status).toBe(401);
+    }
+    for (const path of ['/no-such-route/1', '/no-such-route/2']) {
+      expect((await requestJson('GET', path)).status).toBe(404);
+    }
+
+    const metricsResponse = await fetch(`${baseUrl}/metrics`);
+    expect(metricsResponse.status).toBe(200);
+    expect(metricsResponse.headers.get('content-type')).toContain('text/plain');
+    const metricsText = await metricsResponse.text();
+    expect(metricsText).toContain(`http_requests_total{method="GET",route="/novels/:id/completeness",status="200"}`);
+    expect(metricsText).toContain('db_query_duration_seconds_count{operation="SELECT"}');
+    expect(metricsText).toContain('http_requests_total{method="OTHER",route="unmatched",status="404"}');
+    expect(metricsText).not.toContain('method="PROPFIND"');
+    expect(metricsText).toContain('http_requests_total{method="DELETE",route="/me/bookmarks/:id",status="401"} 2');
+    expect(metricsText).toContain('http_requests_total{method="GET",route="unmatched",status="404"} 2');
+    expect(metricsText).not.toContain('random-');
+    expect(metricsText).not.toContain('no-such-route');
   }, 20000);
+
+  it('keeps chapters keyed by URL when the source list shifts', async () => {
+    const novelUrl = `https://integration-test.local/shifted-${Date.now()}-${Math.floor(Math.random() * 100000)}`;
+    const novel = await upsertNovelByUrl(novelUrl, {
+      title: 'Shifted Novel',
+      author: null,
+      rank: null,
+      totalChapters: null,
+      views: null,
+      bookmarks: null,
+      status: null,
+      genres: [],
+      summary: null,
+      chaptersUrl: null,
+      imageUrl: null,
+      rating: null,
+      lastScraped: new Date()
+    });
+    const novelId = Number(novel?._id);
+
+    try {
+      const chapter = (slug: string, chapterNumber: number) => ({
+        chapterNumber,
+        url: `${novelUrl}/${slug}`,
+        title: `Chapter ${slug}`,
+        content: `<p>Content of ${slug}</p>`
+      });
+
+      await upsertChapters(novelId, [chapter('one', 1), chapter('two', 2), chapter('dropped', 3)]);
+
+      // A side story was published before chapter one and a chapter was taken down
+      await saveChapterIndex(
+        novelId,
+        ['side', 'one', 'two'].map((slug, index) => ({
+          chapterNumber: index + 1,
+          url: `${novelUrl}/${slug}`,
+          displayNumber: null,
+          title: null
+        }))
+      );
+      expect(await syncChapterNumbers(novelId)).toBe(3);
+      const synced = await listChaptersByNovelId(novelId, {});
+      const syncedNumbers = synced.data.map((storedChapter) => [
+        storedChapter.url.split('/').pop(),
+        storedChapter.chapterNumber
+      ]);
+      expect(syncedNumbers).toEqual([
+        ['one', 2],
+        ['two', 3],
+        ['dropped', 4]
+      ]);
+      expect(await findMissingChapterRanges(novelId, 3)).toEqual([{ from: 1, to: 1 }]);
+
+      await cleanupPool.query('DELETE FROM chapters WHERE novel_id = $1', [novelId]);
+      await upsertChapters(novelId, [chapter('one', 1), chapter('two', 2)]);
+      // A side story was published before chapter one, pushing both along
+      const saved = await upsertChapters(novelId, [chapter('side', 1), chapter('one', 2), chapter('two', 3)]);
+      expect(saved.map((savedChapter) => savedChapter.chapterNumber)).toEqual([1, 2, 3]);
+
+      const stored = await listChaptersByNovelId(novelId, {});
+      expect(stored.data.map((storedChapter) => storedChapter.url.split('/').pop())).toEqual(['side', 'one', 'two']);
+
+      // Moving a chapter is not a new version of whatever held its old number
+      const revisionCount = await cleanupPool.query(
+        `SELECT COUNT(*)::INTEGER AS count
+         FROM chapter_revisions r JOIN chapters c ON c.id = r.chapter_id
+         WHERE c.novel_id = $1`,
+        [novelId]
+      );
+      expect(revisionCount.rows[0].count).toBe(0);
+    } finally {
+      await cleanupPool.query('DELETE FROM novels WHERE id = $1', [novelId]);
+    }
+  });
+
+  it('manages scrape targets as an admin', async () => {
+    const targetUrl = `https://novelfire.net/book/integration-test-${Date.now()}`;
+
+    try {
+      const unauthorized = await requestJson('GET', '/admin/scrape-targets');
+      expect(unauthorized.status).toBe(401);
+
+      const invalidTarget = await requestJson(
+        'POST',
+        '/admin/scrape-targets',
+        { url: 'https://example.com/x' },
+        ADMIN_HEADERS
+      );
+      expect(invalidTarget.status).toBe(400);
+
+      const createTarget = await requestJson(
+        'POST',
+        '/admin/scrape-targets',
+        { url: targetUrl, title: 'Integration Target', priority: 5, enabled: false },
+        ADMIN_HEADERS
+      );
+      expect(createTarget.status).toBe(200);
+      const target = createTarget.json.data as Record<string, unknown>;
+      expect(target.url).toBe(targetUrl);
+      expect(target.priority).toBe(5);
+      expect(target.enabled).toBe(false);
+
+      const disabledTargets = await requestJson(
+        'GET',
+        '/admin/scrape-targets?enabled=false&limit=100',
+        undefined,
+        ADMIN_HEADERS
+      );
+      expect(disabledTargets.status).toBe(200);
+      const disabledUrls = (disabledTargets.json.data as Array<Record<string, unknown>>).map((item) => item.url);
+      expect(disabledUrls).toContain(targetUrl);
+
+      const invalidFilter = await requestJson('GET', '/admin/scrape-targets?enabled=maybe', undefined, ADMIN_HEADERS);
+      expect(invalidFilter.status).toBe(400);
+
+      const updateTarget = await requestJson(
+        'PATCH',
+        `/admin/scrape-targets/${target.id}`,
+        { enabled: true, scheduleIntervalMinutes: 60 },
+        ADMIN_HEADERS
+      );
+      expect(updateTarget.status).toBe(200);
+      expect((updateTarget.json.data as Record<string, unknown>).enabled).toBe(true);
+      expect((updateTarget.json.data as Record<string, unknown>).scheduleIntervalMinutes).toBe(60);
+
+      const missingTarget = await requestJson(
+        'PATCH',
+        '/admin/scrape-targets/999999999',
+        { priority: 1 },
+        ADMIN_HEADERS
+      );
+      expect(missingTarget.status).toBe(404);
+    } finally {
+      await cleanupPool.query('DELETE FROM scrape_targets WHERE url = $1', [targetUrl]);
+    }
+  });
+
+  it('requests, reports and cancels a novel scrape', async () => {
+    const novelUrl = `https://novelfire.net/book/integration-scrape-${Date.now()}`;
+    const novel = await upsertNovelByUrl(novelUrl, {
+      title: 'Scrape Request Novel',
+      author: null,
+      rank: null,
+      totalChapters: null,
+      views: null,
+      bookmarks: null,
+      status: null,
+      genres: [],
+      summary: null,
+      chaptersUrl: null,
+      imageUrl: null,
+      rating: null,
+      lastScraped: new Date()
+    });
+    const novelId = Number(novel?._id);
+    const chapterRefs = (numbers: number[]) =>
+      numbers.map((chapterNumber) => ({ chapterNumber, url: `${novelUrl}/chapter-${chapterNumber}` }));
+
+    try {
+      // Chapters scraped by an earlier run do not count towards a new request
+      await enqueueChapterJobs(novelId, novelUrl, chapterRefs([1, 2]));
+      await cleanupPool.query(
+        `UPDATE scrape_jobs SET state = 'done', finished_at = NOW(), updated_at = NOW() - INTERVAL '1 hour'
+         WHERE kind = 'chapter' AND novel_url = $1`,
+        [novelUrl]
+      );
+
+      const invalidRange = await requestJson(
+        'POST',
+        '/admin/scrapes',
+        { url: novelUrl, fromChapter: 5, toChapter: 2 },
+        ADMIN_HEADERS
+      );
+      expect(invalidRange.status).toBe(400);
+
+      const requested = await requestJson(
+        'POST',
+        '/admin/scrapes',
+        { url: novelUrl, fromChapter: 1, toChapter: 3 },
+        ADMIN_HEADERS
+      );
+      expect(requested.status).toBe(202);
+      const scrape = requested.json.data as Record<string, unknown>;
+      expect(scrape.state).toBe('pending');
+      expect(scrape.requestedBy).toBe('admin-token');
+
+      await enqueueChapterJobs(novelId, novelUrl, chapterRefs([2, 3, 4]));
+
+      const status = await requestJson('GET', `/admin/scrapes/${scrape.id}`, undefined, ADMIN_HEADERS);
+      expect(status.status).toBe(200);
+      expect((status.json.data as Record<string, unknown>).chapters).toEqual({
+        pending: 2,
+        running: 0,
+        done: 0,
+        failed: 0,
+        cancelled: 0,
+        total: 2
+      });
+
+      await cleanupPool.query(`UPDATE scrape_jobs SET state = 'running' WHERE id = $1`, [scrape.id]);
+      const alreadyRunning = await requestJson('POST', '/admin/scrapes', { url: novelUrl }, ADMIN_HEADERS);
+      expect(alreadyRunning.status).toBe(409);
+
+      const cancelled = await requestJson('DELETE', `/admin/scrapes/${scrape.id}`, undefined, ADMIN_HEADERS);
+      expect(cancelled.status).toBe(200);
+      expect((cancelled.json.data as Record<string, unknown>).state).toBe('cancelled');
+
+      const cancelledStatus = await requestJson('GET', `/admin/scrapes/${scrape.id}`, undefined, ADMIN_HEADERS);
+      const cancelledScrape = cancelledStatus.json.data as Record<string, Record<string, number>>;
+      expect(cancelledScrape.chapters.cancelled).toBe(2);
+      expect(cancelledScrape.chapters.total).toBe(2);
+
+      const cancelledAgain = await requestJson('DELETE', `/admin/scrapes/${scrape.id}`, undefined, ADMIN_HEADERS);
+      expect(cancelledAgain.status).toBe(409);
+
+      const missingScrape = await requestJson('GET', '/admin/scrapes/999999999', undefined, ADMIN_HEADERS);
+      expect(missingScrape.status).toBe(404);
+
+      const missingEvents = await requestJson('GET', '/admin/scrapes/999999999/events', undefined, ADMIN_HEADERS);
+      expect(missingEvents.status).toBe(404);
+    } finally {
+      await cleanupPool.query('DELETE FROM scrape_jobs WHERE novel_url = $1', [novelUrl]);
+      await cleanupPool.query('DELETE FROM novels WHERE id = $1', [novelId]);
+    }
+  });
+
+  it('streams scrape events until the scrape finishes', async () => {
+    const novelUrl = `https://novelfire.net/book/integration-events-${Date.now()}`;
+
+    try {
+      const scrape = await requestNovelScrape({
+        novelUrl,
+        chapterFrom: null,
+        chapterTo: null,
+        priority: 0,
+        requestedBy: 'integration'
+      });
+      if (!scrape) {
+        throw new Error('Expected the scrape to be queued');
+      }
+      await recordScrapeJobEvent(scrape.id, 'novel_started', { novelUrl });
+
+      const response = await fetch(`${baseUrl}/admin/scrapes/${scrape.id}/events`, { headers: ADMIN_HEADERS });
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toContain('text/event-stream');
+
+      const reader = (response.body as ReadableStream<Uint8Array>).getReader();
+      const decoder = new TextDecoder();
+      let streamed = '';
+      // Reads until the text appears, or to the end of the stream without one
+      const readUntil = async (text?: string) => {
+        while (text === undefined || !streamed.includes(text)) {
+          const { value, done } = await reader.read();
+          if (done) {
+            return;
+          }
+          streamed += decoder.decode(value, { stream: true });
+        }
+      };
+
+      await readUntil('event: novel_started');
+      await recordScrapeJobEvent(scrape.id, 'batch_saved', { chapters: 2 });
+      await cleanupPool.query(`UPDATE scrape_jobs SET state = 'done', finished_at = NOW() WHERE id = $1`, [
+        scrape.id
+      ]);
+      await readUntil();
+
+      expect(streamed).toStartWith('retry: ');
+      expect(streamed).toContain(`event: batch_saved\ndata: {"type":"batch_saved","chapters":2,`);
+      expect(streamed).toEndWith('event: end\ndata: {"state":"done"}\n\n');
+    } finally {
+      await cleanupPool.query('DELETE FROM scrape_jobs WHERE novel_url = $1', [novelUrl]);
+    }
+  }, 20000);
+
+  it('lists and exports scrape runs for admins', async () => {
+    const runId = crypto.randomUUID();
+    const startedAt = new Date();
+
+    try {
+      await createScrapeRun(runId, 'integration-worker', { backfillGaps: true });
+      await finishScrapeRun(
+        runId,
+        {
+          urlsAttempted: 1,
+          novelsProcessed: 1,
+          novelsSkippedOrFailed: 0,
+          chaptersAttempted: 2,
+          chaptersScrapedSuccess: 2,
+          chaptersWithEmptyContent: 0,
+          chaptersScrapedError: 0,
+          dbNovelUpdateSuccess: 1,
+          dbChapterUpdateSuccess: 2,
+          dbChaptersUnchanged: 0,
+          dbErrors: 0
+        },
+        { state: 'completed', error: null }
+      );
+
+      const runs = await requestJson('GET', '/admin/scrape-runs?state=completed&limit=100', undefined, ADMIN_HEADERS);
+      expect(runs.status).toBe(200);
+      expect((runs.json.data as Array<Record<string, unknown>>).map((run) => run.id)).toContain(runId);
+
+      const invalidState = await requestJson('GET', '/admin/scrape-runs?state=paused', undefined, ADMIN_HEADERS);
+      expect(invalidState.status).toBe(400);
+
+      const run = await requestJson('GET', `/admin/scrape-runs/${runId.toUpperCase()}`, undefined, ADMIN_HEADERS);
+      expect(run.status).toBe(200);
+      expect((run.json.data as Record<string, unknown>).chaptersScrapedSuccess).toBe(2);
+      expect((run.json.data as Record<string, unknown>).novels).toEqual([]);
+
+      const missingRun = await requestJson(
+        'GET',
+        `/admin/scrape-runs/${crypto.randomUUID()}`,
+        undefined,
+        ADMIN_HEADERS
+      );
+      expect(missingRun.status).toBe(404);
+
+      const exported = await requestJson(
+        'GET',
+        `/admin/scrape-runs/export?since=${encodeURIComponent(new Date(startedAt.getTime() - 60_000).toISOString())}`,
+        undefined,
+        ADMIN_HEADERS
+      );
+      expect(exported.status).toBe(200);
+      expect((exported.json.data as Array<Record<string, unknown>>).map((item) => item.id)).toContain(runId);
+    } finally {
+      await cleanupPool.query('DELETE FROM scrape_runs WHERE id = $1', [runId]);
+    }
+  });
+
+  it('reports extraction health to admins', async () => {
+    const source = `integration-test-${Date.now()}`;
+
+    try {
+      await recordSelectorHits(`integration-run-${Date.now()}`, [
+        { source, profileVersion: 1, field: 'title', selectorIndex: 0, selector: 'h1', hits: 3 },
+        { source, profileVersion: 1, field: 'title', selectorIndex: -1, selector: null, hits: 1 }
+      ]);
+
+      const health = await requestJson(
+        'GET',
+        `/admin/extraction-health?source=${encodeURIComponent(source)}`,
+        undefined,
+        ADMIN_HEADERS
+      );
+      expect(health.status).toBe(200);
+      const report = health.json.data as Record<string, unknown>;
+      expect(report.runs).toBe(1);
+      const fields = report.fields as Array<Record<string, unknown>>;
+      expect(fields.map((field) => field.field)).toEqual(['title']);
+      expect(fields[0].extractions).toBe(4);
+      expect(fields[0].missRate).toBe(0.25);
+
+      const invalidWindow = await requestJson(
+        'GET',
+        '/admin/extraction-health?days=2&recentDays=2',
+        undefined,
+        ADMIN_HEADERS
+      );
+      expect(invalidWindow.status).toBe(400);
+    } finally {
+      await cleanupPool.query('DELETE FROM selector_hits WHERE source = $1', [source]);
+    }
+  });
 });
@@ -1,12 +1,29 @@
 import dotenv from 'dotenv';
 
 import {
+  ChapterVersion,
+  IChapter,
+  NOVEL_SORTS,
+  NovelListFilters,
+  NovelSort,
   NovelUpdatePayload,
+  TRENDING_METRICS,
+  TrendingMetric,
   getChapterById,
   getChapterByNovelIdAndNumber,
+  getAuthorById,
+  getChapterVersion,
+  getGenreBySlug,
   getNovelById,
+  getNovelCompleteness,
+  listChapterRevisions,
   listChaptersByNovelId,
+  listGenres,
+  listNovelCompleteness,
+  listNovelStatHistory,
   listNovels,
+  listTrendingNovels,
+  searchChapters,
   upsertChapter,
   upsertNovelByUrl,
   connectDB,
@@ -28,21 +45,76 @@ import {
   getUserPreferences,
   updateUserPreferences,
 } from './models/User.js';
-import { authenticateRequest, HttpError } from './middleware/auth.js';
+import {
+  getScrapeTargetByUrl,
+  initScrapeTargetTables,
+  listScrapeTargets,
+  ScrapeTargetFields,
+  ScrapeTargetInput,
+  updateScrapeTarget,
+  upsertScrapeTargets
+} from './models/ScrapeTarget.js';
+import {
+  cancelNovelScrape,
+  getNovelJob,
+  getNovelJobByUrl,
+  getNovelScrapeStatus,
+  initScrapeJobTables,
+  NovelScrapeRequest,
+  requestNovelScrape,
+  REQUESTED_SCRAPE_PRIORITY
+} from './models/ScrapeJob.js';
+import { initScrapeJobEventTables, IScrapeJobEvent, listScrapeJobEvents } from './models/ScrapeJobEvent.js';
+import {
+  exportScrapeRuns,
+  getScrapeRun,
+  initScrapeRunTables,
+  listScrapeRuns,
+  ScrapeRunState
+} from './models/ScrapeRun.js';
+import {
+  DEFAULT_HEALTH_DAYS,
+  DEFAULT_HEALTH_RECENT_DAYS,
+  getExtractionHealth,
+  initSelectorHealthTables
+} from './models/SelectorHealth.js';
+import { authenticateAdminRequest, authenticateRequest, HttpError } from './middleware/auth.js';
+import { getSourceAdapter } from './sources/index.js';
+import {
+  CHAPTER_CONTENT_FORMATS,
+  ChapterContentFormat,
+  renderChapterContent
+} from './utils/chapter-content.js';
+import { isMetricsRequestAuthorized, metrics, PROMETHEUS_CONTENT_TYPE } from './utils/metrics.js';
+import { NOVEL_STATUSES, NovelStatus } from './utils/novel-stats.js';
+import { diffText } from './utils/text-diff.js';
 
 dotenv.config();
 
 const DEFAULT_LIMIT = 25;
 const MAX_LIMIT = 100;
+const DEFAULT_TRENDING_DAYS = 7;
+const MAX_TRENDING_DAYS = 365;
+const SCRAPE_RUN_STATES: ScrapeRunState[] = ['running', 'completed', 'failed'];
 
 type JsonRecord = Record<string, unknown>;
 
+const httpRequests = metrics.counter('http_requests_total', 'API requests by route and status code.', [
+  'method',
+  'route',
+  'status'
+]);
+const httpRequestDuration = metrics.histogram('http_request_duration_seconds', 'API request latency by route.', [
+  'method',
+  'route'
+]);
+// Route pattern each request matched, used as its metrics label so path parameters cannot blow up label cardinality
+const matchedRoutes = new WeakMap<Request, string>();
+
 export interface ApiDependencies {
-  listNovels: (options: {
-    limit?: number;
-    offset?: number;
-    search?: string;
-  }) => Promise<{ data: unknown[]; total: number }>;
+  listNovels: (
+    options: { limit?: number; offset?: number } & NovelListFilters
+  ) => Promise<{ data: unknown[]; total: number }>;
   getNovelById: (novelId: number) => Promise<unknown | null>;
   upsertNovelByUrl: (novelUrl: string, payload: NovelUpdatePayload) => Promise<unknown | null>;
   listChaptersByNovelId: (
@@ -53,11 +125,68 @@ export interface ApiDependencies {
     novelId: number,
     chapter: { chapterNumber: number; url: string; title: string; content: string }
   ) => Promise<unknown | null>;
-  getChapterById: (chapterId: number) => Promise<unknown | null>;
+  getChapterById: (chapterId: number) => Promise<IChapter | null>;
   getChapterByNovelIdAndNumber: (
     novelId: number,
     chapterNumber: number
-  ) => Promise<unknown | null>;
+  ) => Promise<IChapter | null>;
+  listNovelCompleteness: (options: {
+    limit?: number;
+    offset?: number;
+  }) => Promise<{ data: unknown[]; total: number }>;
+  getNovelCompleteness: (novelId: number) => Promise<unknown | null>;
+  listChapterRevisions: (
+    chapterId: number,
+    options: { limit?: number; offset?: number }
+  ) => Promise<{ data: unknown[]; total: number }>;
+  getChapterVersion: (
+    chapterId: number,
+    version: number | 'current' | 'latest'
+  ) => Promise<ChapterVersion | null>;
+  searchChapters: (
+    query: string,
+    options: { limit?: number; offset?: number; novelId?: number }
+  ) => Promise<{ data: unknown[]; total: number }>;
+  listNovelStatHistory: (
+    novelId: number,
+    options: { limit?: number; offset?: number; since?: Date; until?: Date }
+  ) => Promise<{ data: unknown[]; total: number }>;
+  listTrendingNovels: (options: {
+    limit?: number;
+    offset?: number;
+    metric: TrendingMetric;
+    days: number;
+  }) => Promise<{ data: unknown[]; total: number }>;
+  listGenres: (options: { limit?: number; offset?: number }) => Promise<{ data: unknown[]; total: number }>;
+  getGenreBySlug: (slug: string) => Promise<{ _id: number } | null>;
+  getAuthorById: (authorId: number) => Promise<unknown | null>;
+  listScrapeTargets: (options: {
+    limit?: number;
+    offset?: number;
+    enabled?: boolean;
+  }) => Promise<{ data: unknown[]; total: number }>;
+  upsertScrapeTargets: (targets: ScrapeTargetInput[], options: { overwrite: boolean }) => Promise<number>;
+  getScrapeTargetByUrl: (url: string) => Promise<unknown | null>;
+  updateScrapeTarget: (targetId: number, fields: ScrapeTargetFields) => Promise<unknown | null>;
+  requestNovelScrape: (request: NovelScrapeRequest) => Promise<unknown | null>;
+  getNovelJob: (jobId: number) => Promise<{ state: string } | null>;
+  getNovelJobByUrl: (novelUrl: string) => Promise<{ id: number } | null>;
+  getNovelScrapeStatus: (jobId: number) => Promise<{ state: string } | null>;
+  cancelNovelScrape: (jobId: number) => Promise<unknown | null>;
+  listScrapeJobEvents: (jobId: number, afterId: number | null, limit: number) => Promise<IScrapeJobEvent[]>;
+  listScrapeRuns: (options: {
+    limit?: number;
+    offset?: number;
+    state?: ScrapeRunState;
+  }) => Promise<{ data: unknown[]; total: number }>;
+  exportScrapeRuns: (options: { since?: Date; until?: Date }) => Promise<unknown[]>;
+  getScrapeRun: (runId: string) => Promise<unknown | null>;
+  getExtractionHealth: (options: {
+    days: number;
+    recentDays: number;
+    source?: string;
+    threshold?: number;
+  }) => Promise<unknown>;
   connectDB: () => Promise<void>;
   disconnectDB: () => Promise<void>;
 }
@@ -70,6 +199,30 @@ const defaultDependencies: ApiDependencies = {
   upsertChapter,
   getChapterById,
   getChapterByNovelIdAndNumber,
+  listNovelCompleteness,
+  getNovelCompleteness,
+  listChapterRevisions,
+  getChapterVersion,
+  searchChapters,
+  listNovelStatHistory,
+  listTrendingNovels,
+  listGenres,
+  getGenreBySlug,
+  getAuthorById,
+  listScrapeTargets,
+  upsertScrapeTargets,
+  getScrapeTargetByUrl,
+  updateScrapeTarget,
+  requestNovelScrape,
+  getNovelJob,
+  getNovelJobByUrl,
+  getNovelScrapeStatus,
+  cancelNovelScrape,
+  listScrapeJobEvents,
+  listScrapeRuns,
+  exportScrapeRuns,
+  getScrapeRun,
+  getExtractionHealth,
   connectDB,
   disconnectDB
 };
@@ -83,6 +236,29 @@ function jsonResponse(status: number, body: JsonRecord): Response {
   });
 }
 
+// Standard methods keep their own metrics label; anything else a client sends is counted as OTHER
+const METRIC_METHODS = new Set(['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS']);
+
+function methodLabel(method: string): string {
+  return METRIC_METHODS.has(method) ? method : 'OTHER';
+}
+
+/**
+ * Route label for metrics: the pattern of the route that handled the request, or "unmatched" for paths no route matched
+ */
+function routeLabel(request: Request): string {
+  return matchedRoutes.get(request) ?? 'unmatched';
+}
+
+// null for a segment that is not valid percent-encoding, such as "%E0"
+function decodePathSegment(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+}
+
 function parsePositiveInt(value: string): number | null {
   const parsed = Number(value);
   if (!Number.isInteger(parsed) || parsed <= 0) {
@@ -177,6 +353,111 @@ function parseListOptions(
   };
 }
 
+function parseNovelListFilters(searchParams: URLSearchParams): { filters?: NovelListFilters; error?: string } {
+  const filters: NovelListFilters = {};
+
+  const search = searchParams.get('search')?.trim();
+  if (search) {
+    filters.search = search;
+  }
+
+  const genres = (searchParams.get('genres') ?? '')
+    .split(',')
+    .map((genre) => genre.trim())
+    .filter((genre) => genre.length > 0);
+  if (genres.length > 0) {
+    filters.genres = genres;
+  }
+
+  const genreMatch = searchParams.get('genreMatch');
+  if (genreMatch !== null) {
+    if (genreMatch !== 'any' && genreMatch !== 'all') {
+      return { error: 'Query param "genreMatch" must be "any" or "all".' };
+    }
+    filters.genreMatch = genreMatch;
+  }
+
+  const status = searchParams.get('status');
+  if (status !== null) {
+    if (!NOVEL_STATUSES.includes(status as NovelStatus)) {
+      return { error: `Query param "status" must be one of: ${NOVEL_STATUSES.join(', ')}.` };
+    }
+    filters.status = status as NovelStatus;
+  }
+
+  const author = searchParams.get('author')?.trim();
+  if (author) {
+    filters.author = author;
+  }
+
+  const rawMinRating = searchParams.get('minRating');
+  if (rawMinRating !== null) {
+    const minRating = rawMinRating.trim() === '' ? NaN : Number(rawMinRating);
+    if (Number.isNaN(minRating) || minRating < 0 || minRating > 10) {
+      return { error: 'Query param "minRating" must be a number between 0 and 10.' };
+    }
+    filters.minRating = minRating;
+  }
+
+  for (const key of ['minChapters', 'maxChapters'] as const) {
+    const rawValue = searchParams.get(key);
+    if (rawValue === null) {
+      continue;
+    }
+    const value = parseNonNegativeInt(rawValue);
+    if (value === null) {
+      return { error: `Query param "${key}" must be a non-negative integer.` };
+    }
+    filters[key] = value;
+  }
+  if (
+    filters.minChapters !== undefined &&
+    filters.maxChapters !== undefined &&
+    filters.minChapters > filters.maxChapters
+  ) {
+    return { error: 'Query param "minChapters" must not be greater than "maxChapters".' };
+  }
+
+  const sort = searchParams.get('sort');
+  if (sort !== null) {
+    if (!NOVEL_SORTS.includes(sort as NovelSort)) {
+      return { error: `Query param "sort" must be one of: ${NOVEL_SORTS.join(', ')}.` };
+    }
+    if (sort === 'relevance' && !filters.search) {
+      return { error: 'Sorting by "relevance" requires a "search".' };
+    }
+    filters.sort = sort as NovelSort;
+  }
+
+  const order = searchParams.get('order');
+  if (order !== null) {
+    if (order !== 'asc' && order !== 'desc') {
+      return { error: 'Query param "order" must be "asc" or "desc".' };
+    }
+    filters.order = order;
+  }
+
+  return { filters };
+}
+
+function buildListMeta(
+  options: { limit?: number; offset?: number; page: number; pageSize: number },
+  count: number,
+  total: number
+): JsonRecord {
+  return {
+    count,
+    total,
+    page: options.page,
+    pageSize: options.pageSize,
+    totalPages: total === 0 ? 0 : Math.ceil(total / options.pageSize),
+    hasNextPage: (options.offset ?? 0) + count < total,
+    hasPreviousPage: options.page > 1,
+    limit: options.limit ?? DEFAULT_LIMIT,
+    offset: options.offset ?? 0
+  };
+}
+
 async function readJsonBody(request: Request): Promise<Record<string, unknown> | null> {
   const contentType = request.headers.get('content-type');
   if (!contentType || !contentType.toLowerCase().includes('application/json')) {
@@ -256,6 +537,260 @@ function parseNovelPayload(body: Record<string, unknown>): { payload?: NovelUpda
   return { payload, novelUrl: novelUrl.trim() };
 }
 
+function parseScrapeTargetPayload(body: Record<string, unknown>): {
+  target?: ScrapeTargetInput;
+  error?: string;
+} {
+  const targetUrl = body.url;
+  if (typeof targetUrl !== 'string' || targetUrl.trim() === '') {
+    return { error: 'Field "url" is required and must be a non-empty string.' };
+  }
+  if (!getSourceAdapter(targetUrl.trim())) {
+    return { error: `No source adapter supports "${targetUrl.trim()}".` };
+  }
+
+  const { fields, error } = parseScrapeTargetFields(body);
+  if (!fields) {
+    return { error };
+  }
+
+  return { target: { url: targetUrl.trim(), ...fields } };
+}
+
+function parseScrapeTargetFields(body: Record<string, unknown>): {
+  fields?: ScrapeTargetFields;
+  error?: string;
+} {
+  const fields: ScrapeTargetFields = {};
+
+  if (body.title !== undefined) {
+    if (body.title !== null && typeof body.title !== 'string') {
+      return { error: 'Field "title" must be a string or null.' };
+    }
+    fields.title = body.title;
+  }
+  if (body.priority !== undefined) {
+    if (typeof body.priority !== 'number' || !Number.isInteger(body.priority)) {
+      return { error: 'Field "priority" must be an integer.' };
+    }
+    fields.priority = body.priority;
+  }
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== 'boolean') {
+      return { error: 'Field "enabled" must be a boolean.' };
+    }
+    fields.enabled = body.enabled;
+  }
+  if (body.scheduleIntervalMinutes !== undefined) {
+    const interval = body.scheduleIntervalMinutes;
+    if (interval !== null && (typeof interval !== 'number' || !Number.isInteger(interval) || interval < 1)) {
+      return { error: 'Field "scheduleIntervalMinutes" must be a positive integer or null.' };
+    }
+    fields.scheduleIntervalMinutes = interval;
+  }
+
+  return { fields };
+}
+
+function parseScrapeRequestPayload(
+  body: Record<string, unknown>,
+  requestedBy: string
+): { request?: NovelScrapeRequest; error?: string } {
+  const novelUrl = body.url;
+  if (typeof novelUrl !== 'string' || novelUrl.trim() === '') {
+    return { error: 'Field "url" is required and must be a non-empty string.' };
+  }
+  if (!getSourceAdapter(novelUrl.trim())) {
+    return { error: `No source adapter supports "${novelUrl.trim()}".` };
+  }
+
+  const chapterBounds: { fromChapter: number | null; toChapter: number | null } = {
+    fromChapter: null,
+    toChapter: null
+  };
+  for (const field of ['fromChapter', 'toChapter'] as const) {
+    const value = body[field];
+    if (value === undefined || value === null) {
+      continue;
+    }
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+      return { error: `Field "${field}" must be a positive integer.` };
+    }
+    chapterBounds[field] = value;
+  }
+  const { fromChapter, toChapter } = chapterBounds;
+  if (fromChapter !== null && toChapter !== null && fromChapter > toChapter) {
+    return { error: 'Field "fromChapter" must not be greater than "toChapter".' };
+  }
+
+  if (body.priority !== undefined && (typeof body.priority !== 'number' || !Number.isInteger(body.priority))) {
+    return { error: 'Field "priority" must be an integer.' };
+  }
+
+  return {
+    request: {
+      novelUrl: novelUrl.trim(),
+      chapterFrom: fromChapter,
+      chapterTo: toChapter,
+      priority: (body.priority as number | undefined) ?? REQUESTED_SCRAPE_PRIORITY,
+      requestedBy
+    }
+  };
+}
+
+const MAX_SEARCH_QUERY_LENGTH = 200;
+
+const SCRAPE_EVENT_POLL_MS = 1000;
+// Well under Bun's default 10 second idle timeout
+const SCRAPE_EVENT_HEARTBEAT_MS = 5000;
+const SCRAPE_EVENT_PAGE_SIZE = 200;
+const FINISHED_SCRAPE_STATES = ['done', 'failed', 'cancelled'];
+
+/**
+ * Streams a scrape's progress events (see models/ScrapeJobEvent.ts) as Server-Sent Events, polling
+ * the database, until the scrape finishes or the client disconnects
+ * @param lastEventId - Resume after this event; null starts at the scrape's latest attempt
+ */
+function scrapeEventStreamResponse(
+  deps: ApiDependencies,
+  jobId: number,
+  lastEventId: number | null,
+  signal: AbortSignal
+): Response {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let afterId = lastEventId;
+      let lastWriteAt = Date.now();
+      const write = (chunk: string) => {
+        controller.enqueue(encoder.encode(chunk));
+        lastWriteAt = Date.now();
+      };
+
+      try {
+        write(`retry: ${SCRAPE_EVENT_POLL_MS * 3}\n\n`);
+        while (!cancelled && !signal.aborted) {
+          // Read the state before the events, so events written just before the scrape finished are still sent
+          const job = await deps.getNovelJob(jobId);
+          const events = await deps.listScrapeJobEvents(jobId, afterId, SCRAPE_EVENT_PAGE_SIZE);
+          for (const event of events) {
+            const data = { type: event.type, ...event.data, createdAt: event.createdAt };
+            write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`);
+            afterId = event.id;
+          }
+          if (events.length === SCRAPE_EVENT_PAGE_SIZE) {
+            continue;
+          }
+
+          if (!job || FINISHED_SCRAPE_STATES.includes(job.state)) {
+            write(`event: end\ndata: ${JSON.stringify({ state: job?.state ?? null })}\n\n`);
+            break;
+          }
+          if (Date.now() - lastWriteAt >= SCRAPE_EVENT_HEARTBEAT_MS) {
+            write(': keep-alive\n\n');
+          }
+          await new Promise((resolve) => setTimeout(resolve, SCRAPE_EVENT_POLL_MS));
+        }
+      } catch (error) {
+        console.error(`Error streaming events for scrape ${jobId}:`, error);
+      }
+
+      if (!cancelled) {
+        controller.close();
+      }
+    },
+    cancel() {
+      cancelled = true;
+    }
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      'content-type': 'text/event-stream; charset=utf-8',
+      'cache-control': 'no-cache',
+      connection: 'keep-alive'
+    }
+  });
+}
+
+const ACCEPT_FORMATS: Record<string, ChapterContentFormat> = {
+  'text/html': 'html',
+  'text/plain': 'text',
+  'text/markdown': 'markdown'
+};
+
+/**
+ * Picks the chapter content format from the `format` query param, falling back to the
+ * first recognised media type in the Accept header, then HTML
+ */
+function parseChapterFormat(
+  request: Request,
+  searchParams: URLSearchParams
+): { format?: ChapterContentFormat; error?: string } {
+  const rawFormat = searchParams.get('format');
+  if (rawFormat !== null) {
+    if (!CHAPTER_CONTENT_FORMATS.includes(rawFormat as ChapterContentFormat)) {
+      return { error: `Query param "format" must be one of: ${CHAPTER_CONTENT_FORMATS.join(', ')}.` };
+    }
+    return { format: rawFormat as ChapterContentFormat };
+  }
+
+  const acceptedTypes = (request.headers.get('accept') ?? '')
+    .split(',')
+    .map((mediaType) => mediaType.split(';')[0].trim().toLowerCase());
+  const acceptedType = acceptedTypes.find((mediaType) => ACCEPT_FORMATS[mediaType]);
+  return { format: acceptedType ? ACCEPT_FORMATS[acceptedType] : 'html' };
+}
+
+function formatChapter(chapter: IChapter, format: ChapterContentFormat): JsonRecord {
+  const { contentText, ...fields } = chapter;
+  return {
+    ...fields,
+    content: renderChapterContent(chapter.content, contentText, format),
+    format
+  };
+}
+
+function parseChapterVersionParam(
+  value: string | null,
+  fallback: 'current' | 'latest'
+): number | 'current' | 'latest' | null {
+  if (value === null) {
+    return fallback;
+  }
+  if (value === 'current' || value === 'latest') {
+    return value;
+  }
+  return parsePositiveInt(value);
+}
+
+function parseDateParam(
+  searchParams: URLSearchParams,
+  name: string
+): { date?: Date; error?: string } {
+  const value = searchParams.get(name);
+  if (value === null) {
+    return {};
+  }
+  const parsedDate = new Date(value);
+  if (Number.isNaN(parsedDate.getTime())) {
+    return { error: `Query param "${name}" must be a valid ISO date string.` };
+  }
+  return { date: parsedDate };
+}
+
+function describeChapterVersion(version: ChapterVersion): JsonRecord {
+  return {
+    revisionId: version.revisionId,
+    title: version.title,
+    contentHash: version.contentHash,
+    scrapedAt: version.scrapedAt
+  };
+}
+
 function parseChapterPayload(body: Record<string, unknown>): {
   chapter?: { chapterNumber: number; url: string; title: string; content: string };
   error?: string;
@@ -289,49 +824,238 @@ function parseChapterPayload(body: Record<string, unknown>): {
 }
 
 export function createApiHandler(deps: ApiDependencies = defaultDependencies) {
-  return async function handler(request: Request): Promise<Response> {
+  async function handleRequest(request: Request): Promise<Response> {
     const url = new URL(request.url);
     const pathname = url.pathname;
     const method = request.method.toUpperCase();
+    // Recorded before the route does any work, so errors it throws (such as a 401) carry its label too
+    const matchRoute = (pattern: string) => matchedRoutes.set(request, pattern);
 
     try {
       if (method === 'GET' && pathname === '/health') {
+        matchRoute('/health');
         return jsonResponse(200, { ok: true });
       }
 
+      if (method === 'GET' && pathname === '/metrics') {
+        matchRoute('/metrics');
+        if (!isMetricsRequestAuthorized(request.headers.get('authorization'))) {
+          return jsonResponse(401, { error: 'Invalid metrics token.' });
+        }
+        return new Response(await metrics.render(), {
+          status: 200,
+          headers: { 'content-type': PROMETHEUS_CONTENT_TYPE }
+        });
+      }
+
       if (method === 'GET' && pathname === '/novels') {
+        matchRoute('/novels');
         const { options, error } = parseListOptions(url.searchParams);
         if (!options) {
           return jsonResponse(400, { error });
         }
 
-        const searchQuery = url.searchParams.get('search')?.trim();
-        const novelsResult = await deps.listNovels({
-          ...options,
-          search: searchQuery ? searchQuery : undefined
+        const { filters, error: filterError } = parseNovelListFilters(url.searchParams);
+        if (!filters) {
+          return jsonResponse(400, { error: filterError });
+        }
+
+        const novelsResult = await deps.listNovels({ ...options, ...filters });
+
+        return jsonResponse(200, {
+          data: novelsResult.data,
+          meta: buildListMeta(options, novelsResult.data.length, novelsResult.total)
+        });
+      }
+
+      if (method === 'GET' && pathname === '/search/chapters') {
+        matchRoute('/search/chapters');
+        const { options, error } = parseListOptions(url.searchParams);
+        if (!options) {
+          return jsonResponse(400, { error });
+        }
+
+        const searchQuery = url.searchParams.get('q')?.trim();
+        if (!searchQuery) {
+          return jsonResponse(400, { error: 'Query param "q" is required.' });
+        }
+        if (searchQuery.length > MAX_SEARCH_QUERY_LENGTH) {
+          return jsonResponse(400, {
+            error: `Query param "q" must be at most ${MAX_SEARCH_QUERY_LENGTH} characters.`
+          });
+        }
+
+        const rawNovelId = url.searchParams.get('novelId');
+        const novelId = rawNovelId === null ? undefined : parsePositiveInt(rawNovelId);
+        if (novelId === null) {
+          return jsonResponse(400, { error: 'Query param "novelId" must be a positive integer.' });
+        }
+
+        const searchResult = await deps.searchChapters(searchQuery, { ...options, novelId });
+        return jsonResponse(200, {
+          data: searchResult.data,
+          meta: buildListMeta(options, searchResult.data.length, searchResult.total)
         });
+      }
 
-        const total = novelsResult.total;
-        const pageSize = options.pageSize;
+      if (method === 'GET' && pathname === '/novels/completeness') {
+        matchRoute('/novels/completeness');
+        const { options, error } = parseListOptions(url.searchParams);
+        if (!options) {
+          return jsonResponse(400, { error });
+        }
 
+        const completenessResult = await deps.listNovelCompleteness(options);
+        return jsonResponse(200, {
+          data: completenessResult.data,
+          meta: buildListMeta(options, completenessResult.data.length, completenessResult.total)
+        });
+      }
+
+      if (method === 'GET' && pathname === '/genres') {
+        matchRoute('/genres');
+        const { options, error } = parseListOptions(url.searchParams);
+        if (!options) {
+          return jsonResponse(400, { error });
+        }
+
+        const genresResult = await deps.listGenres(options);
+        return jsonResponse(200, {
+          data: genresResult.data,
+          meta: buildListMeta(options, genresResult.data.length, genresResult.total)
+        });
+      }
+
+      const genreNovelsMatch = pathname.match(/^\/genres\/([^/]+)\/novels$/);
+      const authorNovelsMatch = pathname.match(/^\/authors\/(\d+)\/novels$/);
+      if (method === 'GET' && (genreNovelsMatch || authorNovelsMatch)) {
+        matchRoute(genreNovelsMatch ? '/genres/:slug/novels' : '/authors/:id/novels');
+        const { options, error } = parseListOptions(url.searchParams);
+        if (!options) {
+          return jsonResponse(400, { error });
+        }
+
+        const { filters, error: filterError } = parseNovelListFilters(url.searchParams);
+        if (!filters) {
+          return jsonResponse(400, { error: filterError });
+        }
+
+        if (genreNovelsMatch) {
+          // A malformed slug cannot belong to any genre
+          const slug = decodePathSegment(genreNovelsMatch[1]);
+          const genre = slug === null ? null : await deps.getGenreBySlug(slug);
+          if (!genre) {
+            return jsonResponse(404, { error: `Genre "${slug ?? genreNovelsMatch[1]}" not found.` });
+          }
+          filters.genreId = genre._id;
+        } else if (authorNovelsMatch) {
+          const authorId = Number(authorNovelsMatch[1]);
+          if (!(await deps.getAuthorById(authorId))) {
+            return jsonResponse(404, { error: `Author with id ${authorId} not found.` });
+          }
+          filters.authorId = authorId;
+        }
+
+        const novelsResult = await deps.listNovels({ ...options, ...filters });
         return jsonResponse(200, {
           data: novelsResult.data,
+          meta: buildListMeta(options, novelsResult.data.length, novelsResult.total)
+        });
+      }
+
+      const authorIdMatch = pathname.match(/^\/authors\/(\d+)$/);
+      if (method === 'GET' && authorIdMatch) {
+        matchRoute('/authors/:id');
+        const authorId = Number(authorIdMatch[1]);
+        const author = await deps.getAuthorById(authorId);
+        if (!author) {
+          return jsonResponse(404, { error: `Author with id ${authorId} not found.` });
+        }
+        return jsonResponse(200, { data: author });
+      }
+
+      if (method === 'GET' && pathname === '/novels/trending') {
+        matchRoute('/novels/trending');
+        const { options, error } = parseListOptions(url.searchParams);
+        if (!options) {
+          return jsonResponse(400, { error });
+        }
+
+        const metric = url.searchParams.get('metric') ?? 'views';
+        if (!TRENDING_METRICS.includes(metric as TrendingMetric)) {
+          return jsonResponse(400, {
+            error: `Query param "metric" must be one of: ${TRENDING_METRICS.join(', ')}.`
+          });
+        }
+
+        const rawDays = url.searchParams.get('days');
+        const days = rawDays === null ? DEFAULT_TRENDING_DAYS : parsePositiveInt(rawDays);
+        if (days === null || days > MAX_TRENDING_DAYS) {
+          return jsonResponse(400, {
+            error: `Query param "days" must be a positive integer up to ${MAX_TRENDING_DAYS}.`
+          });
+        }
+
+        const trendingResult = await deps.listTrendingNovels({
+          ...options,
+          metric: metric as TrendingMetric,
+          days
+        });
+        return jsonResponse(200, {
+          data: trendingResult.data,
           meta: {
-            count: novelsResult.data.length,
-            total,
-            page: options.page,
-            pageSize,
-            totalPages: total === 0 ? 0 : Math.ceil(total / pageSize),
-            hasNextPage: (options.offset ?? 0) + novelsResult.data.length < total,
-            hasPreviousPage: options.page > 1,
-            limit: options.limit ?? DEFAULT_LIMIT,
-            offset: options.offset ?? 0
+            ...buildListMeta(options, trendingResult.data.length, trendingResult.total),
+            metric,
+            days
           }
         });
       }
 
+      const novelStatHistoryMatch = pathname.match(/^\/novels\/(\d+)\/stats\/history$/);
+      if (method === 'GET' && novelStatHistoryMatch) {
+        matchRoute('/novels/:id/stats/history');
+        const novelId = Number(novelStatHistoryMatch[1]);
+        const { options, error } = parseListOptions(url.searchParams);
+        if (!options) {
+          return jsonResponse(400, { error });
+        }
+
+        const since = parseDateParam(url.searchParams, 'since');
+        const until = parseDateParam(url.searchParams, 'until');
+        if (since.error || until.error) {
+          return jsonResponse(400, { error: since.error ?? until.error });
+        }
+
+        const novel = await deps.getNovelById(novelId);
+        if (!novel) {
+          return jsonResponse(404, { error: `Novel with id ${novelId} not found.` });
+        }
+
+        const historyResult = await deps.listNovelStatHistory(novelId, {
+          ...options,
+          since: since.date,
+          until: until.date
+        });
+        return jsonResponse(200, {
+          data: historyResult.data,
+          meta: buildListMeta(options, historyResult.data.length, historyResult.total)
+        });
+      }
+
+      const novelCompletenessMatch = pathname.match(/^\/novels\/(\d+)\/completeness$/);
+      if (method === 'GET' && novelCompletenessMatch) {
+        matchRoute('/novels/:id/completeness');
+        const novelId = Number(novelCompletenessMatch[1]);
+        const completeness = await deps.getNovelCompleteness(novelId);
+        if (!completeness) {
+          return jsonResponse(404, { error: `Novel with id ${novelId} not found.` });
+        }
+        return jsonResponse(200, { data: completeness });
+      }
+
       const novelIdMatch = pathname.match(/^\/novels\/(\d+)$/);
       if (method === 'GET' && novelIdMatch) {
+        matchRoute('/novels/:id');
         const novelId = Number(novelIdMatch[1]);
         const novel = await deps.getNovelById(novelId);
         if (!novel) {
@@ -341,6 +1065,7 @@ export function createApiHandler(deps: ApiDependencies = defaultDependencies) {
       }
 
       if (method === 'POST' && pathname === '/novels') {
+        matchRoute('/novels');
         const body = await readJsonBody(request);
         if (!body) {
           return jsonResponse(400, { error: 'Request body must be a valid JSON object.' });
@@ -361,11 +1086,16 @@ export function createApiHandler(deps: ApiDependencies = defaultDependencies) {
 
       const novelChapterNumberMatch = pathname.match(/^\/novels\/(\d+)\/chapters\/(\d+)$/);
       if (method === 'GET' && novelChapterNumberMatch) {
+        matchRoute('/novels/:id/chapters/:chapterNumber');
         const novelId = Number(novelChapterNumberMatch[1]);
         const chapterNumber = parsePositiveInt(novelChapterNumberMatch[2]);
         if (chapterNumber === null) {
           return jsonResponse(400, { error: 'Chapter number must be a positive integer.' });
         }
+        const { format, error } = parseChapterFormat(request, url.searchParams);
+        if (!format) {
+          return jsonResponse(400, { error });
+        }
         const novel = await deps.getNovelById(novelId);
         if (!novel) {
           return jsonResponse(404, { error: `Novel with id ${novelId} not found.` });
@@ -376,11 +1106,12 @@ export function createApiHandler(deps: ApiDependencies = defaultDependencies) {
             error: `Chapter ${chapterNumber} not found for novel ${novelId}.`
           });
         }
-        return jsonResponse(200, { data: chapter });
+        return jsonResponse(200, { data: formatChapter(chapter, format) });
       }
 
       const novelChapterMatch = pathname.match(/^\/novels\/(\d+)\/chapters$/);
       if (method === 'GET' && novelChapterMatch) {
+        matchRoute('/novels/:id/chapters');
         const novelId = Number(novelChapterMatch[1]);
         const novel = await deps.getNovelById(novelId);
         if (!novel) {
@@ -393,27 +1124,18 @@ export function createApiHandler(deps: ApiDependencies = defaultDependencies) {
         }
 
         const chaptersResult = await deps.listChaptersByNovelId(novelId, options);
-        const total = chaptersResult.total;
-        const pageSize = options.pageSize;
 
         return jsonResponse(200, {
           data: chaptersResult.data,
           meta: {
             novelId,
-            count: chaptersResult.data.length,
-            total,
-            page: options.page,
-            pageSize,
-            totalPages: total === 0 ? 0 : Math.ceil(total / pageSize),
-            hasNextPage: (options.offset ?? 0) + chaptersResult.data.length < total,
-            hasPreviousPage: options.page > 1,
-            limit: options.limit ?? DEFAULT_LIMIT,
-            offset: options.offset ?? 0
+            ...buildListMeta(options, chaptersResult.data.length, chaptersResult.total)
           }
         });
       }
 
       if (method === 'POST' && novelChapterMatch) {
+        matchRoute('/novels/:id/chapters');
         const novelId = Number(novelChapterMatch[1]);
         const novel = await deps.getNovelById(novelId);
         if (!novel) {
@@ -432,6 +1154,12 @@ export function createApiHandler(deps: ApiDependencies = defaultDependencies) {
 
         const persistedChapter = await deps.upsertChapter(novelId, chapter);
         if (!persistedChapter) {
+          const occupant = await deps.getChapterByNovelIdAndNumber(novelId, chapter.chapterNumber);
+          if (occupant && occupant.url !== chapter.url) {
+            return jsonResponse(409, {
+              error: `Chapter ${chapter.chapterNumber} of novel ${novelId} is already stored with a different URL.`
+            });
+          }
           return jsonResponse(500, { error: 'Failed to persist chapter.' });
         }
 
@@ -440,17 +1168,297 @@ export function createApiHandler(deps: ApiDependencies = defaultDependencies) {
 
       const chapterIdMatch = pathname.match(/^\/chapters\/(\d+)$/);
       if (method === 'GET' && chapterIdMatch) {
+        matchRoute('/chapters/:id');
         const chapterId = Number(chapterIdMatch[1]);
+        const { format, error } = parseChapterFormat(request, url.searchParams);
+        if (!format) {
+          return jsonResponse(400, { error });
+        }
+        const chapter = await deps.getChapterById(chapterId);
+        if (!chapter) {
+          return jsonResponse(404, { error: `Chapter with id ${chapterId} not found.` });
+        }
+        return jsonResponse(200, { data: formatChapter(chapter, format) });
+      }
+
+      const chapterRevisionsMatch = pathname.match(/^\/chapters\/(\d+)\/revisions$/);
+      if (method === 'GET' && chapterRevisionsMatch) {
+        matchRoute('/chapters/:id/revisions');
+        const chapterId = Number(chapterRevisionsMatch[1]);
+        const { options, error } = parseListOptions(url.searchParams);
+        if (!options) {
+          return jsonResponse(400, { error });
+        }
+
         const chapter = await deps.getChapterById(chapterId);
         if (!chapter) {
           return jsonResponse(404, { error: `Chapter with id ${chapterId} not found.` });
         }
-        return jsonResponse(200, { data: chapter });
+
+        const revisionsResult = await deps.listChapterRevisions(chapterId, options);
+        return jsonResponse(200, {
+          data: revisionsResult.data,
+          meta: buildListMeta(options, revisionsResult.data.length, revisionsResult.total)
+        });
+      }
+
+      const chapterDiffMatch = pathname.match(/^\/chapters\/(\d+)\/revisions\/diff$/);
+      if (method === 'GET' && chapterDiffMatch) {
+        matchRoute('/chapters/:id/revisions/diff');
+        const chapterId = Number(chapterDiffMatch[1]);
+        const fromParam = parseChapterVersionParam(url.searchParams.get('from'), 'latest');
+        const toParam = parseChapterVersionParam(url.searchParams.get('to'), 'current');
+        if (fromParam === null || toParam === null) {
+          return jsonResponse(400, {
+            error: 'Query params "from" and "to" must be a revision id, "latest" or "current".'
+          });
+        }
+
+        const chapter = await deps.getChapterById(chapterId);
+        if (!chapter) {
+          return jsonResponse(404, { error: `Chapter with id ${chapterId} not found.` });
+        }
+
+        const [fromVersion, toVersion] = await Promise.all([
+          deps.getChapterVersion(chapterId, fromParam),
+          deps.getChapterVersion(chapterId, toParam)
+        ]);
+        if (!fromVersion || !toVersion) {
+          return jsonResponse(404, {
+            error: `Revision not found for chapter ${chapterId}.`
+          });
+        }
+
+        return jsonResponse(200, {
+          data: {
+            chapterId,
+            from: describeChapterVersion(fromVersion),
+            to: describeChapterVersion(toVersion),
+            titleChanged: fromVersion.title !== toVersion.title,
+            ...diffText(fromVersion.content, toVersion.content)
+          }
+        });
+      }
+
+      // ── Admin (admin auth required) ───────────────────────
+
+      if (pathname === '/admin/scrape-targets' && method === 'GET') {
+        matchRoute('/admin/scrape-targets');
+        await authenticateAdminRequest(request);
+        const { options, error } = parseListOptions(url.searchParams);
+        if (!options) {
+          return jsonResponse(400, { error });
+        }
+
+        const rawEnabled = url.searchParams.get('enabled');
+        if (rawEnabled !== null && rawEnabled !== 'true' && rawEnabled !== 'false') {
+          return jsonResponse(400, { error: 'Query param "enabled" must be "true" or "false".' });
+        }
+
+        const targetsResult = await deps.listScrapeTargets({
+          ...options,
+          enabled: rawEnabled === null ? undefined : rawEnabled === 'true'
+        });
+        return jsonResponse(200, {
+          data: targetsResult.data,
+          meta: buildListMeta(options, targetsResult.data.length, targetsResult.total)
+        });
+      }
+
+      if (pathname === '/admin/scrape-targets' && method === 'POST') {
+        matchRoute('/admin/scrape-targets');
+        await authenticateAdminRequest(request);
+        const body = await readJsonBody(request);
+        if (!body) {
+          return jsonResponse(400, { error: 'Request body must be a valid JSON object.' });
+        }
+
+        const { target, error } = parseScrapeTargetPayload(body);
+        if (!target) {
+          return jsonResponse(400, { error });
+        }
+
+        await deps.upsertScrapeTargets([target], { overwrite: true });
+        const persistedTarget = await deps.getScrapeTargetByUrl(target.url);
+        if (!persistedTarget) {
+          return jsonResponse(500, { error: 'Failed to persist scrape target.' });
+        }
+        return jsonResponse(200, { data: persistedTarget });
+      }
+
+      const scrapeTargetIdMatch = pathname.match(/^\/admin\/scrape-targets\/(\d+)$/);
+      if (method === 'PATCH' && scrapeTargetIdMatch) {
+        matchRoute('/admin/scrape-targets/:id');
+        await authenticateAdminRequest(request);
+        const targetId = Number(scrapeTargetIdMatch[1]);
+        const body = await readJsonBody(request);
+        if (!body) {
+          return jsonResponse(400, { error: 'Request body must be a valid JSON object.' });
+        }
+
+        const { fields, error } = parseScrapeTargetFields(body);
+        if (!fields) {
+          return jsonResponse(400, { error });
+        }
+
+        const updatedTarget = await deps.updateScrapeTarget(targetId, fields);
+        if (!updatedTarget) {
+          return jsonResponse(404, { error: `Scrape target with id ${targetId} not found.` });
+        }
+        return jsonResponse(200, { data: updatedTarget });
+      }
+
+      if (pathname === '/admin/scrapes' && method === 'POST') {
+        matchRoute('/admin/scrapes');
+        const requestedBy = await authenticateAdminRequest(request);
+        const body = await readJsonBody(request);
+        if (!body) {
+          return jsonResponse(400, { error: 'Request body must be a valid JSON object.' });
+        }
+
+        const { request: scrapeRequest, error } = parseScrapeRequestPayload(body, requestedBy);
+        if (!scrapeRequest) {
+          return jsonResponse(400, { error });
+        }
+
+        const job = await deps.requestNovelScrape(scrapeRequest);
+        if (!job) {
+          const runningJob = await deps.getNovelJobByUrl(scrapeRequest.novelUrl);
+          return jsonResponse(409, {
+            error: `Novel ${scrapeRequest.novelUrl} is already being scraped (scrape ${runningJob?.id ?? 'unknown'}).`
+          });
+        }
+        return jsonResponse(202, { data: job });
+      }
+
+      const scrapeIdMatch = pathname.match(/^\/admin\/scrapes\/(\d+)$/);
+      if (method === 'GET' && scrapeIdMatch) {
+        matchRoute('/admin/scrapes/:id');
+        await authenticateAdminRequest(request);
+        const scrapeId = Number(scrapeIdMatch[1]);
+        const scrape = await deps.getNovelScrapeStatus(scrapeId);
+        if (!scrape) {
+          return jsonResponse(404, { error: `Scrape ${scrapeId} not found.` });
+        }
+        return jsonResponse(200, { data: scrape });
+      }
+
+      const scrapeEventsMatch = pathname.match(/^\/admin\/scrapes\/(\d+)\/events$/);
+      if (method === 'GET' && scrapeEventsMatch) {
+        matchRoute('/admin/scrapes/:id/events');
+        await authenticateAdminRequest(request);
+        const scrapeId = Number(scrapeEventsMatch[1]);
+        const rawLastEventId = request.headers.get('Last-Event-ID');
+        const lastEventId = rawLastEventId === null ? null : parseNonNegativeInt(rawLastEventId);
+        if (rawLastEventId !== null && lastEventId === null) {
+          return jsonResponse(400, { error: 'Header "Last-Event-ID" must be a non-negative integer.' });
+        }
+        if (!(await deps.getNovelJob(scrapeId))) {
+          return jsonResponse(404, { error: `Scrape ${scrapeId} not found.` });
+        }
+        return scrapeEventStreamResponse(deps, scrapeId, lastEventId, request.signal);
+      }
+
+      if (method === 'DELETE' && scrapeIdMatch) {
+        matchRoute('/admin/scrapes/:id');
+        await authenticateAdminRequest(request);
+        const scrapeId = Number(scrapeIdMatch[1]);
+        const cancelledScrape = await deps.cancelNovelScrape(scrapeId);
+        if (!cancelledScrape) {
+          const scrape = await deps.getNovelScrapeStatus(scrapeId);
+          if (!scrape) {
+            return jsonResponse(404, { error: `Scrape ${scrapeId} not found.` });
+          }
+          return jsonResponse(409, { error: `Scrape ${scrapeId} has already finished (${scrape.state}).` });
+        }
+        return jsonResponse(200, { data: cancelledScrape });
+      }
+
+      if (pathname === '/admin/scrape-runs' && method === 'GET') {
+        matchRoute('/admin/scrape-runs');
+        await authenticateAdminRequest(request);
+        const { options, error } = parseListOptions(url.searchParams);
+        if (!options) {
+          return jsonResponse(400, { error });
+        }
+
+        const rawState = url.searchParams.get('state');
+        if (rawState !== null && !SCRAPE_RUN_STATES.includes(rawState as ScrapeRunState)) {
+          return jsonResponse(400, {
+            error: `Query param "state" must be one of: ${SCRAPE_RUN_STATES.join(', ')}.`
+          });
+        }
+
+        const runsResult = await deps.listScrapeRuns({
+          ...options,
+          state: (rawState as ScrapeRunState | null) ?? undefined
+        });
+        return jsonResponse(200, {
+          data: runsResult.data,
+          meta: buildListMeta(options, runsResult.data.length, runsResult.total)
+        });
+      }
+
+      if (pathname === '/admin/scrape-runs/export' && method === 'GET') {
+        matchRoute('/admin/scrape-runs/export');
+        await authenticateAdminRequest(request);
+        const since = parseDateParam(url.searchParams, 'since');
+        const until = parseDateParam(url.searchParams, 'until');
+        if (since.error || until.error) {
+          return jsonResponse(400, { error: since.error ?? until.error });
+        }
+
+        const runs = await deps.exportScrapeRuns({ since: since.date, until: until.date });
+        return jsonResponse(200, { data: runs, meta: { count: runs.length } });
+      }
+
+      const scrapeRunIdMatch = pathname.match(/^\/admin\/scrape-runs\/([0-9a-f-]{36})$/i);
+      if (method === 'GET' && scrapeRunIdMatch) {
+        matchRoute('/admin/scrape-runs/:id');
+        await authenticateAdminRequest(request);
+        const runId = scrapeRunIdMatch[1].toLowerCase();
+        const run = await deps.getScrapeRun(runId);
+        if (!run) {
+          return jsonResponse(404, { error: `Scrape run ${runId} not found.` });
+        }
+        return jsonResponse(200, { data: run });
+      }
+
+      if (pathname === '/admin/extraction-health' && method === 'GET') {
+        matchRoute('/admin/extraction-health');
+        await authenticateAdminRequest(request);
+        const rawDays = url.searchParams.get('days');
+        const rawRecentDays = url.searchParams.get('recentDays');
+        const rawThreshold = url.searchParams.get('threshold');
+
+        const days = rawDays === null ? DEFAULT_HEALTH_DAYS : parsePositiveInt(rawDays);
+        if (days === null) {
+          return jsonResponse(400, { error: 'Query param "days" must be a positive integer.' });
+        }
+        const recentDays = rawRecentDays === null ? DEFAULT_HEALTH_RECENT_DAYS : parsePositiveInt(rawRecentDays);
+        if (recentDays === null || recentDays >= days) {
+          return jsonResponse(400, {
+            error: 'Query param "recentDays" must be a positive integer smaller than "days".'
+          });
+        }
+        const threshold = rawThreshold === null ? undefined : Number(rawThreshold);
+        if (threshold !== undefined && !(threshold > 0 && threshold <= 1)) {
+          return jsonResponse(400, { error: 'Query param "threshold" must be a number between 0 and 1.' });
+        }
+
+        const report = await deps.getExtractionHealth({
+          days,
+          recentDays,
+          source: url.searchParams.get('source') ?? undefined,
+          threshold
+        });
+        return jsonResponse(200, { data: report });
       }
 
       // ── Auth ──────────────────────────────────────────────
 
       if (method === 'POST' && pathname === '/auth/apple') {
+        matchRoute('/auth/apple');
         const body = await readJsonBody(request);
         if (!body) {
           return jsonResponse(400, { error: 'Request body must be a valid JSON object.' });
@@ -479,17 +1487,20 @@ export function createApiHandler(deps: ApiDependencies = defaultDependencies) {
       // ── User Data (auth required) ─────────────────────────
 
       if (pathname === '/me/stats' && method === 'GET') {
+        matchRoute('/me/stats');
         const { user } = await authenticateRequest(request);
         const stats = await getUserStats(user.id);
         return jsonResponse(200, { data: stats });
       }
 
       if (pathname === '/me' && method === 'GET') {
+        matchRoute('/me');
         const { user } = await authenticateRequest(request);
         return jsonResponse(200, { data: user });
       }
 
       if (pathname === '/me' && method === 'PATCH') {
+        matchRoute('/me');
         const { user } = await authenticateRequest(request);
         const body = await readJsonBody(request);
         if (!body) {
@@ -504,6 +1515,7 @@ export function createApiHandler(deps: ApiDependencies = defaultDependencies) {
       }
 
       if (pathname === '/me/progress' && method === 'GET') {
+        matchRoute('/me/progress');
         const { user } = await authenticateRequest(request);
         const novelId = url.searchParams.get('novelId');
         const progress = await getReadingProgress(
@@ -517,6 +1529,7 @@ export function createApiHandler(deps: ApiDependencies = defaultDependencies) {
       }
 
       if (pathname === '/me/progress' && method === 'PUT') {
+        matchRoute('/me/progress');
         const { user } = await authenticateRequest(request);
         const body = await readJsonBody(request);
         if (!body) {
@@ -537,12 +1550,14 @@ export function createApiHandler(deps: ApiDependencies = defaultDependencies) {
       }
 
       if (pathname === '/me/bookmarks' && method === 'GET') {
+        matchRoute('/me/bookmarks');
         const { user } = await authenticateRequest(request);
         const bookmarks = await getBookmarks(user.id);
         return jsonResponse(200, { data: bookmarks });
       }
 
       if (pathname === '/me/bookmarks' && method === 'POST') {
+        matchRoute('/me/bookmarks');
         const { user } = await authenticateRequest(request);
         const body = await readJsonBody(request);
         if (!body) {
@@ -562,6 +1577,7 @@ export function createApiHandler(deps: ApiDependencies = defaultDependencies) {
 
       const bookmarkDeleteMatch = pathname.match(/^\/me\/bookmarks\/(.+)$/);
       if (method === 'DELETE' && bookmarkDeleteMatch) {
+        matchRoute('/me/bookmarks/:id');
         const { user } = await authenticateRequest(request);
         const bookmarkId = Number(bookmarkDeleteMatch[1]);
         const deleted = await deleteBookmark(bookmarkId, user.id);
@@ -569,12 +1585,14 @@ export function createApiHandler(deps: ApiDependencies = defaultDependencies) {
       }
 
       if (pathname === '/me/library' && method === 'GET') {
+        matchRoute('/me/library');
         const { user } = await authenticateRequest(request);
         const library = await getLibrary(user.id);
         return jsonResponse(200, { data: library });
       }
 
       if (pathname === '/me/library' && method === 'POST') {
+        matchRoute('/me/library');
         const { user } = await authenticateRequest(request);
         const body = await readJsonBody(request);
         if (!body) {
@@ -590,6 +1608,7 @@ export function createApiHandler(deps: ApiDependencies = defaultDependencies) {
 
       const libraryDeleteMatch = pathname.match(/^\/me\/library\/(.+)$/);
       if (method === 'DELETE' && libraryDeleteMatch) {
+        matchRoute('/me/library/:novelId');
         const { user } = await authenticateRequest(request);
         const novelId = Number(libraryDeleteMatch[1]);
         const deleted = await removeFromLibrary(user.id, novelId);
@@ -597,6 +1616,7 @@ export function createApiHandler(deps: ApiDependencies = defaultDependencies) {
       }
 
       if (pathname === '/me/history' && method === 'GET') {
+        matchRoute('/me/history');
         const { user } = await authenticateRequest(request);
         const limit = parseNonNegativeInt(url.searchParams.get('limit') ?? '20') ?? 20;
         const offset = parseNonNegativeInt(url.searchParams.get('offset') ?? '0') ?? 0;
@@ -605,12 +1625,14 @@ export function createApiHandler(deps: ApiDependencies = defaultDependencies) {
       }
 
       if (pathname === '/me/preferences' && method === 'GET') {
+        matchRoute('/me/preferences');
         const { user } = await authenticateRequest(request);
         const prefs = await getUserPreferences(user.id);
         return jsonResponse(200, { data: prefs });
       }
 
       if (pathname === '/me/preferences' && method === 'PATCH') {
+        matchRoute('/me/preferences');
         const { user } = await authenticateRequest(request);
         const body = await readJsonBody(request);
         if (!body) {
@@ -633,12 +1655,29 @@ export function createApiHandler(deps: ApiDependencies = defaultDependencies) {
       console.error('API request error:', error);
       return jsonResponse(500, { error: 'Internal server error.' });
     }
+  }
+
+  return async function handler(request: Request): Promise<Response> {
+    const method = methodLabel(request.method.toUpperCase());
+    const endTimer = httpRequestDuration.startTimer({ method });
+    const response = await handleRequest(request);
+
+    const route = routeLabel(request);
+    endTimer({ route });
+    httpRequests.inc({ method, route, status: response.status });
+
+    return response;
   };
 }
 
 export async function startApiServer(deps: ApiDependencies = defaultDependencies): Promise<void> {
   await deps.connectDB();
   await initUserTables();
+  await initScrapeTargetTables();
+  await initScrapeJobTables();
+  await initScrapeJobEventTables();
+  await initScrapeRunTables();
+  await initSelectorHealthTables();
 
   const port = Number(process.env.PORT ?? 3000);
   const server = Bun.serve({
@@ -1,54 +1,28 @@
 import fs from 'fs/promises';
 
+import { createHttpClient } from './utils/http-client.js';
+import { HttpFetchMode, getHttpCacheDir, resolveHttpFetchMode } from './utils/http-recorder.js';
+import { formatRateLimitState, logRateLimitEvent } from './utils/rate-limiter.js';
+
 const BASE_URL = 'https://novelfire.net';
 const BROWSE_URL = `${BASE_URL}/genre-all/sort-new/status-all/all-novel`;
 const OUTPUT_PATH = new URL('./novelfire-catalog.json', import.meta.url);
-const REQUEST_STAGGER_MS = 200;
-
-function delay(ms) {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-async function fetchText(url) {
-  const response = await fetch(url, {
-    headers: {
-      'User-Agent':
-        'Mozilla/5.0 (Macintosh; Intel Mac OS X 15_4) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/135.0.0.0 Safari/537.36',
-      Accept: 'text/html,application/xhtml+xml;q=0.9,image/avif,image/webp,*/*;q=0.8',
-      'Accept-Encoding': 'gzip, deflate, br',
-      'Accept-Language': 'en-US,en;q=0.9',
-      'Cache-Control': 'no-cache',
-      Connection: 'keep-alive',
-      Pragma: 'no-cache',
-      Referer: 'https://novelfire.net/',
-      'sec-ch-ua': '"Google Chrome";v="135", "Not-A.Brand";v="8", "Chromium";v="135"',
-      'sec-ch-ua-mobile': '?0',
-      'sec-ch-ua-platform': '"macOS"',
-      'DNT': '1',
-      'Upgrade-Insecure-Requests': '1',
-      'Sec-Fetch-Dest': 'document',
-      'Sec-Fetch-Mode': 'navigate',
-      'Sec-Fetch-Site': 'none',
-      'Sec-Fetch-User': '?1'
-    }
-  });
-
-  if (!response.ok) {
-    throw new Error(`Request failed for ${url}: ${response.status} ${response.statusText}`);
-  }
 
-  return response.text();
+interface CatalogNovel {
+  title: string;
+  url: string;
+  chapters: string;
 }
 
-function extractLastPage(html) {
+function extractLastPage(html: string): number {
   const matches = [...html.matchAll(/all-novel\?page=(\d+)/g)].map((match) => Number(match[1]));
   return Math.max(...matches, 1);
 }
 
-function extractNovels(html) {
+function extractNovels(html: string): CatalogNovel[] {
   const novelPattern =
     /<li class="novel-item"><a title="([^"]+)" href="([^"]+)">[\s\S]*?<div class="novel-stats"><i class="icon-book-open"><\/i>\s*([^<]+)<\/span><\/div><\/li>/g;
-  const novels = [];
+  const novels: CatalogNovel[] = [];
 
   for (const match of html.matchAll(novelPattern)) {
     const [, title, relativeUrl, chapters] = match;
@@ -62,8 +36,23 @@ function extractNovels(html) {
   return novels;
 }
 
+function parseHttpMode(args: string[]): HttpFetchMode {
+  const modeIndex = args.indexOf('--http-mode');
+  if (modeIndex !== -1 && (!args[modeIndex + 1] || args[modeIndex + 1].startsWith('--'))) {
+    throw new Error('--http-mode requires a mode');
+  }
+  return resolveHttpFetchMode(modeIndex === -1 ? undefined : args[modeIndex + 1]);
+}
+
 async function main() {
-  const firstPageHtml = await fetchText(BROWSE_URL);
+  const httpMode = parseHttpMode(process.argv.slice(2));
+  const httpClient = createHttpClient({ mode: httpMode });
+  httpClient.rateLimiter.onEvent(logRateLimitEvent);
+  if (httpMode !== 'passthrough') {
+    console.log(`HTTP fetch mode: ${httpMode} (cache: ${getHttpCacheDir()})`);
+  }
+
+  const firstPageHtml = await httpClient.fetchPageHtml(BROWSE_URL);
   const lastPage = extractLastPage(firstPageHtml);
   const novels = extractNovels(firstPageHtml);
 
@@ -71,8 +60,7 @@ async function main() {
   console.log(`Page 1: ${novels.length} novels`);
 
   for (let page = 2; page <= lastPage; page += 1) {
-    await delay(REQUEST_STAGGER_MS);
-    const html = await fetchText(`${BROWSE_URL}?page=${page}`);
+    const html = await httpClient.fetchPageHtml(`${BROWSE_URL}?page=${page}`);
     const pageNovels = extractNovels(html);
     novels.push(...pageNovels);
 
@@ -81,6 +69,7 @@ async function main() {
     }
   }
 
+  await httpClient.close();
   await fs.writeFile(
     OUTPUT_PATH,
     JSON.stringify(
@@ -96,6 +85,9 @@ async function main() {
   );
 
   console.log(`Saved ${novels.length} novels to ${OUTPUT_PATH.pathname}`);
+  for (const state of httpClient.rateLimiter.listStates()) {
+    console.log(formatRateLimitState(state));
+  }
 }
 
 main().catch((error) => {
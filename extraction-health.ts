@@ -0,0 +1,194 @@
+#!/usr/bin/env node
+
+import dotenv from 'dotenv';
+
+import { connectDB, disconnectDB } from './models/Novel.js';
+import {
+  DEFAULT_DRIFT_THRESHOLD,
+  DEFAULT_HEALTH_DAYS,
+  DEFAULT_HEALTH_RECENT_DAYS,
+  ExtractionHealthReport,
+  getExtractionHealth,
+  initSelectorHealthTables
+} from './models/SelectorHealth.js';
+
+// Load environment variables
+dotenv.config();
+
+interface CliOptions {
+  days: number;
+  recentDays: number;
+  source?: string;
+  threshold?: number;
+  json: boolean;
+  failOnDrift: boolean;
+}
+
+function readOptionValue(args: string[], index: number, option: string): string {
+  if (!args[index + 1] || args[index + 1].startsWith('--')) {
+    console.error(`Error: ${option} requires a value`);
+    process.exit(1);
+  }
+  return args[index + 1];
+}
+
+function readPositiveInt(args: string[], index: number, option: string): number {
+  const value = parseInt(readOptionValue(args, index, option), 10);
+  if (isNaN(value) || value <= 0) {
+    console.error(`Error: ${option} requires a positive integer`);
+    process.exit(1);
+  }
+  return value;
+}
+
+function parseCliArgs(): CliOptions {
+  const args = process.argv.slice(2);
+
+  const options: CliOptions = {
+    days: DEFAULT_HEALTH_DAYS,
+    recentDays: DEFAULT_HEALTH_RECENT_DAYS,
+    json: false,
+    failOnDrift: false
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case '--days':
+        options.days = readPositiveInt(args, i, arg);
+        i++;
+        break;
+      case '--recent-days':
+        options.recentDays = readPositiveInt(args, i, arg);
+        i++;
+        break;
+      case '--source':
+        options.source = readOptionValue(args, i, arg);
+        i++;
+        break;
+      case '--threshold': {
+        const threshold = parseFloat(readOptionValue(args, i, arg));
+        if (isNaN(threshold) || threshold <= 0 || threshold > 1) {
+          console.error('Error: --threshold requires a number between 0 and 1');
+          process.exit(1);
+        }
+        options.threshold = threshold;
+        i++;
+        break;
+      }
+      case '--json':
+        options.json = true;
+        break;
+      case '--fail-on-drift':
+        options.failOnDrift = true;
+        break;
+      case '--help':
+        showHelp();
+        process.exit(0);
+      default:
+        console.error(`Error: Unknown option ${arg}`);
+        showHelp();
+        process.exit(1);
+    }
+  }
+
+  if (options.recentDays >= options.days) {
+    console.error('Error: --recent-days must be smaller than --days');
+    process.exit(1);
+  }
+
+  return options;
+}
+
+function showHelp() {
+  console.log(`
+Usage: node extraction-health.js [options]
+
+Report which selectors won each extracted field (from the selector_hits table)
+and warn when fallback selectors are taking over.
+
+Options:
+  --days N           Length of the report window in days (default: ${DEFAULT_HEALTH_DAYS})
+  --recent-days N    Trailing days compared against the rest of the window (default: ${DEFAULT_HEALTH_RECENT_DAYS})
+  --source NAME      Only report one source, e.g. novelfire
+  --threshold X      Share increase (0-1) that counts as drift (default: ${DEFAULT_DRIFT_THRESHOLD})
+  --json             Print the report as JSON
+  --fail-on-drift    Exit with status 2 when there are drift warnings
+  --help             Show this help message
+
+Examples:
+  node extraction-health.js
+  node extraction-health.js --days 30 --recent-days 3 --fail-on-drift
+`);
+}
+
+function formatPercent(share: number): string {
+  return `${(share * 100).toFixed(1)}%`.padStart(6);
+}
+
+function printReport(report: ExtractionHealthReport): void {
+  console.log(
+    `📊 Extraction health over the last ${report.days} day(s) (${report.runs} run(s), recent window: ${report.recentDays} day(s))`
+  );
+
+  if (report.fields.length === 0) {
+    console.log('ℹ️  No selector hits recorded in this window yet.');
+    return;
+  }
+
+  for (const field of report.fields) {
+    console.log('');
+    console.log(
+      `${field.source} ${field.field}: ${field.extractions} extraction(s), ` +
+        `primary ${formatPercent(field.primaryRate).trim()}, ` +
+        `fallback ${formatPercent(field.fallbackRate).trim()}, ` +
+        `missed ${formatPercent(field.missRate).trim()}`
+    );
+    for (const selector of field.selectors) {
+      const label =
+        selector.selector === null ? '(no selector matched)' : `#${selector.selectorIndex} ${selector.selector}`;
+      console.log(`  ${formatPercent(selector.share)}  ${String(selector.hits).padStart(7)}  ${label}`);
+    }
+  }
+
+  console.log('');
+  if (report.warnings.length === 0) {
+    console.log('✅ No extraction drift detected');
+    return;
+  }
+  console.log(`⚠️  ${report.warnings.length} drift warning(s):`);
+  for (const warning of report.warnings) {
+    console.log(`  - ${warning.message}`);
+  }
+}
+
+async function main() {
+  const options = parseCliArgs();
+
+  try {
+    await connectDB();
+    await initSelectorHealthTables();
+
+    const report = await getExtractionHealth(options);
+    if (options.json) {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      printReport(report);
+    }
+
+    if (options.failOnDrift && report.warnings.length > 0) {
+      process.exitCode = 2;
+    }
+  } catch (error) {
+    console.error('❌ Fatal error while building the extraction health report:', error);
+    process.exitCode = 1;
+  } finally {
+    await disconnectDB();
+  }
+}
+
+// Run the script
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(console.error);
+}
@@ -1,3 +1,4 @@
+import { timingSafeEqual } from 'crypto';
 import { importJWK, jwtVerify } from 'jose';
 import { findOrCreateUser, IUser } from '../models/User.js';
 
@@ -94,6 +95,53 @@ export async function authenticateRequest(request: Request): Promise<{ user: IUs
   return { user };
 }
 
+function tokensMatch(provided: string, expected: string): boolean {
+  const providedBuffer = Buffer.from(provided);
+  const expectedBuffer = Buffer.from(expected);
+  return providedBuffer.length === expectedBuffer.length && timingSafeEqual(providedBuffer, expectedBuffer);
+}
+
+// Admin identity recorded for requests authorized with the shared ADMIN_API_TOKEN
+export const ADMIN_TOKEN_IDENTITY = 'admin-token';
+
+/**
+ * Authorizes admin-only routes. Accepts either the shared ADMIN_API_TOKEN or a Clerk
+ * session token whose user id is listed in ADMIN_CLERK_USER_IDS (comma-separated).
+ * @returns Who made the request: the admin's Clerk user id, or ADMIN_TOKEN_IDENTITY
+ */
+export async function authenticateAdminRequest(request: Request): Promise<string> {
+  const authHeader = request.headers.get('Authorization');
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    throw new HttpError(401, 'Missing or invalid Authorization header');
+  }
+
+  const token = authHeader.slice(7);
+  const adminToken = process.env.ADMIN_API_TOKEN;
+  if (adminToken && tokensMatch(token, adminToken)) {
+    return ADMIN_TOKEN_IDENTITY;
+  }
+
+  const adminClerkUserIds = (process.env.ADMIN_CLERK_USER_IDS ?? '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+  if (adminClerkUserIds.length === 0) {
+    throw new HttpError(401, 'Invalid admin token');
+  }
+
+  let clerkUserId: string;
+  try {
+    clerkUserId = await verifyClerkToken(token);
+  } catch (err) {
+    throw new HttpError(401, 'Invalid authentication token');
+  }
+
+  if (!adminClerkUserIds.includes(clerkUserId)) {
+    throw new HttpError(403, 'Admin access required');
+  }
+  return clerkUserId;
+}
+
 export class HttpError extends Error {
   status: number;
   constructor(status: number, message: string) {
@@ -1,5 +1,10 @@
 import { Pool, QueryResult, QueryResultRow } from 'pg';
 
+import { chapterHtmlToText, escapeHtml } from '../utils/chapter-content.js';
+import { metrics } from '../utils/metrics.js';
+import { NovelStatus, parseNovelStats } from '../utils/novel-stats.js';
+import { slugify } from '../utils/slug.js';
+
 export interface INovel {
   _id: number;
   title: string;
@@ -15,6 +20,15 @@ export interface INovel {
   chaptersUrl: string | null;
   imageUrl: string | null;
   rating: number | null;
+  // `views`, `bookmarks`, `totalChapters` and `rank` as numbers, null when they do not parse
+  viewsCount: number | null;
+  bookmarksCount: number | null;
+  totalChaptersCount: number | null;
+  rankPosition: number | null;
+  // `status` mapped onto a fixed set of values
+  normalizedStatus: NovelStatus;
+  // See GET /authors/:id
+  authorIds: number[];
   lastScraped: Date | null;
   createdAt: Date;
   updatedAt: Date;
@@ -27,20 +41,116 @@ export interface IChapter {
   url: string;
   title: string;
   content: string;
+  // Plain-text rendition of `content`; null for chapters stored before it was tracked
+  contentText: string | null;
+  contentHash: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// A previous version of a chapter, archived when a re-scrape changed its title or content
+export interface IChapterRevisionListItem {
+  _id: number;
+  chapterId: number;
+  title: string;
+  contentHash: string;
+  // When this version was first stored
+  scrapedAt: Date;
+  // When a newer version replaced it
+  replacedAt: Date;
+}
+
+// One version of a chapter; `revisionId` is null for the current version
+export interface ChapterVersion {
+  revisionId: number | null;
+  title: string;
+  content: string;
+  contentHash: string;
+  scrapedAt: Date;
+}
+
 export interface IChapterListItem {
   _id: number;
   novelId: number;
   chapterNumber: number;
+  // Number shown by the source site, when its chapter index has been read
+  displayNumber: string | null;
   url: string;
   title: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// A chapter matching a full-text search, see searchChapters
+export interface IChapterSearchResult {
+  chapterId: number;
+  novelId: number;
+  novelTitle: string;
+  chapterNumber: number;
+  title: string;
+  // Passages around the matches as HTML-escaped text, with the matched words wrapped in <mark>
+  snippet: string;
+  rank: number;
+}
+
+// A novel's popularity stats as of one scrape, see recordNovelStatSnapshot
+export interface INovelStatSnapshot {
+  _id: number;
+  novelId: number;
+  rankPosition: number | null;
+  viewsCount: number | null;
+  bookmarksCount: number | null;
+  totalChaptersCount: number | null;
+  rating: number | null;
+  capturedAt: Date;
+}
+
+export interface IGenre {
+  _id: number;
+  slug: string;
+  // Spelling of the first novel seen with this genre
+  name: string;
+  novelCount: number;
+}
+
+export interface IAuthor {
+  _id: number;
+  slug: string;
+  name: string;
+  novelCount: number;
+}
+
+export type TrendingMetric = 'views' | 'bookmarks';
+
+export const TRENDING_METRICS: readonly TrendingMetric[] = ['views', 'bookmarks'];
+
+// A novel whose metric grew over the window, from its value at `startAt` to the value at `endAt`
+export interface ITrendingNovel {
+  novel: INovel;
+  startValue: number;
+  endValue: number;
+  growth: number;
+  // growth relative to startValue, null when the novel started from zero
+  growthRate: number | null;
+  startAt: Date;
+  endAt: Date;
+}
+
+export interface ChapterRange {
+  from: number;
+  to: number;
+}
+
+export interface INovelCompleteness {
+  novelId: number;
+  title: string;
+  expectedChapters: number | null;
+  storedChapters: number;
+  highestChapter: number | null;
+  missingChapters: number;
+  completeness: number | null;
+}
+
 export interface NovelUpdatePayload {
   title: string;
   author: string | null;
@@ -62,11 +172,85 @@ export interface ListOptions {
   offset?: number;
 }
 
+export type NovelSort = 'relevance' | 'newest' | 'rating' | 'views' | 'rank' | 'updated' | 'chapters' | 'title';
+export type SortOrder = 'asc' | 'desc';
+
+export const NOVEL_SORTS: readonly NovelSort[] = [
+  'relevance',
+  'newest',
+  'rating',
+  'views',
+  'rank',
+  'updated',
+  'chapters',
+  'title'
+];
+
+export interface NovelListFilters {
+  search?: string;
+  // Matched by slug, so casing and spelling variants count as the same genre
+  genres?: string[];
+  // 'any' matches novels with at least one of `genres`, 'all' only novels with every one
+  genreMatch?: 'any' | 'all';
+  genreId?: number;
+  authorId?: number;
+  status?: NovelStatus;
+  minRating?: number;
+  author?: string;
+  minChapters?: number;
+  maxChapters?: number;
+  // Defaults to 'relevance' when searching, otherwise 'newest'
+  sort?: NovelSort;
+  // Defaults to the sort's natural order, see NOVEL_SORT_COLUMNS
+  order?: SortOrder;
+}
+
 export interface PaginatedResult<T> {
   data: T[];
   total: number;
 }
 
+const CHAPTER_INDEX_BATCH_SIZE = 500;
+const NOVEL_STATS_BACKFILL_BATCH_SIZE = 500;
+const NOVEL_LINKS_BACKFILL_BATCH_SIZE = 500;
+
+// Every novel column plus the ids of the novel's authors, see saveNovelLinks
+const NOVEL_COLUMNS = `
+  novels.*,
+  ARRAY(SELECT author_id FROM novel_authors WHERE novel_id = novels.id ORDER BY author_id) AS author_ids
+`;
+
+const TRENDING_METRIC_COLUMNS: Record<TrendingMetric, string> = {
+  views: 'views_count',
+  bookmarks: 'bookmarks_count'
+};
+
+// Column and natural order of each non-relevance sort; rank 1 is the top novel, so it ascends
+const NOVEL_SORT_COLUMNS: Record<Exclude<NovelSort, 'relevance'>, { column: string; order: SortOrder }> = {
+  newest: { column: 'id', order: 'desc' },
+  rating: { column: 'rating', order: 'desc' },
+  views: { column: 'views_count', order: 'desc' },
+  rank: { column: 'rank_position', order: 'asc' },
+  updated: { column: 'updated_at', order: 'desc' },
+  chapters: { column: 'total_chapters_count', order: 'desc' },
+  title: { column: 'lower(title)', order: 'asc' }
+};
+
+// Text search configuration for every tsvector and tsquery
+const SEARCH_CONFIG = 'english';
+// Chapters are searched through an expression index rather than a stored column, so reading a
+// chapter does not also ship its tsvector. Must match idx_chapters_search for the index to be used.
+const CHAPTER_SEARCH_VECTOR = `(
+  setweight(to_tsvector('${SEARCH_CONFIG}', title), 'A') ||
+  to_tsvector('${SEARCH_CONFIG}', COALESCE(content_text, content))
+)`;
+// ts_headline markers, swapped for <mark> once the snippet is HTML-escaped
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_STOP = '\u0003';
+const HEADLINE_OPTIONS =
+  `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxFragments=2, MaxWords=25, MinWords=8, ` +
+  `FragmentDelimiter=" … "`;
+
 let pool: Pool | undefined;
 let schemaInitialized = false;
 
@@ -125,12 +309,38 @@ async function resetPool(): Promise<void> {
   }
 }
 
+const queryDuration = metrics.histogram(
+  'db_query_duration_seconds',
+  'Duration of PostgreSQL queries run through runQuery.',
+  ['operation']
+);
+const queryErrors = metrics.counter('db_query_errors_total', 'PostgreSQL queries that failed.', ['operation']);
+
+// Leading SQL keyword, so query timings can be grouped without unbounded label values
+function queryOperation(text: string): string {
+  const keyword = text.trimStart().split(/\s/, 1)[0].toUpperCase();
+  return ['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'WITH', 'CREATE', 'ALTER'].includes(keyword) ? keyword : 'OTHER';
+}
+
+async function timedQuery<T extends QueryResultRow>(text: string, params?: any[]): Promise<QueryResult<T>> {
+  const operation = queryOperation(text);
+  const endTimer = queryDuration.startTimer({ operation });
+  try {
+    return await getPool().query<T>(text, params);
+  } catch (error) {
+    queryErrors.inc({ operation });
+    throw error;
+  } finally {
+    endTimer();
+  }
+}
+
 export async function runQuery<T extends QueryResultRow = any>(
   text: string,
   params?: any[]
 ): Promise<QueryResult<T>> {
   try {
-    return await getPool().query<T>(text, params);
+    return await timedQuery<T>(text, params);
   } catch (error) {
     if (!isRetryableConnectionError(error)) {
       throw error;
@@ -143,10 +353,14 @@ export async function runQuery<T extends QueryResultRow = any>(
     );
 
     await resetPool();
-    return getPool().query<T>(text, params);
+    return timedQuery<T>(text, params);
   }
 }
 
+function nullableNumber(value: unknown): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
+
 function mapNovelRow(row: any): INovel {
   return {
     _id: row.id,
@@ -163,12 +377,67 @@ function mapNovelRow(row: any): INovel {
     chaptersUrl: row.chapters_url,
     imageUrl: row.image_url,
     rating: row.rating === null ? null : Number(row.rating),
+    viewsCount: nullableNumber(row.views_count),
+    bookmarksCount: nullableNumber(row.bookmarks_count),
+    totalChaptersCount: nullableNumber(row.total_chapters_count),
+    rankPosition: nullableNumber(row.rank_position),
+    normalizedStatus: row.normalized_status ?? 'unknown',
+    authorIds: Array.isArray(row.author_ids) ? row.author_ids.map(Number) : [],
     lastScraped: row.last_scraped,
     createdAt: row.created_at,
     updatedAt: row.updated_at
   };
 }
 
+function mapGenreRow(row: any): IGenre {
+  return {
+    _id: Number(row.id),
+    slug: row.slug,
+    name: row.name,
+    novelCount: Number(row.novel_count ?? 0)
+  };
+}
+
+function mapAuthorRow(row: any): IAuthor {
+  return {
+    _id: Number(row.id),
+    slug: row.slug,
+    name: row.name,
+    novelCount: Number(row.novel_count ?? 0)
+  };
+}
+
+function mapNovelStatSnapshotRow(row: any): INovelStatSnapshot {
+  return {
+    _id: Number(row.id),
+    novelId: Number(row.novel_id),
+    rankPosition: nullableNumber(row.rank_position),
+    viewsCount: nullableNumber(row.views_count),
+    bookmarksCount: nullableNumber(row.bookmarks_count),
+    totalChaptersCount: nullableNumber(row.total_chapters_count),
+    rating: nullableNumber(row.rating),
+    capturedAt: row.captured_at
+  };
+}
+
+function mapCompletenessRow(row: any): INovelCompleteness {
+  const expectedChapters = row.expected_chapters === null ? null : Number(row.expected_chapters);
+  const storedChapters = Number(row.stored_chapters);
+  const highestChapter = row.highest_chapter === null ? null : Number(row.highest_chapter);
+  // Chapters past the advertised count still exist, so the larger bound wins
+  const knownChapters = Math.max(expectedChapters ?? 0, highestChapter ?? 0);
+
+  return {
+    novelId: Number(row.id),
+    title: row.title,
+    expectedChapters,
+    storedChapters,
+    highestChapter,
+    missingChapters: Math.max(knownChapters - storedChapters, 0),
+    completeness: knownChapters === 0 ? null : storedChapters / knownChapters
+  };
+}
+
 function mapChapterRow(row: any): IChapter {
   return {
     _id: row.id,
@@ -177,16 +446,30 @@ function mapChapterRow(row: any): IChapter {
     url: row.url,
     title: row.title,
     content: row.content,
+    contentText: row.content_text ?? null,
+    contentHash: row.content_hash,
     createdAt: row.created_at,
     updatedAt: row.updated_at
   };
 }
 
+function mapChapterRevisionListRow(row: any): IChapterRevisionListItem {
+  return {
+    _id: Number(row.id),
+    chapterId: Number(row.chapter_id),
+    title: row.title,
+    contentHash: row.content_hash,
+    scrapedAt: row.scraped_at,
+    replacedAt: row.replaced_at
+  };
+}
+
 function mapChapterListRow(row: any): IChapterListItem {
   return {
     _id: row.id,
     novelId: row.novel_id,
     chapterNumber: row.chapter_number,
+    displayNumber: row.display_number ?? null,
     url: row.url,
     title: row.title,
     createdAt: row.created_at,
@@ -232,7 +515,8 @@ async function initializeSchema(): Promise<void> {
       content TEXT NOT NULL,
       created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
       updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
-      UNIQUE (novel_id, chapter_number)
+      CONSTRAINT chapters_novel_id_chapter_number_key UNIQUE (novel_id, chapter_number)
+        DEFERRABLE INITIALLY IMMEDIATE
     );
   `);
 
@@ -240,6 +524,226 @@ async function initializeSchema(): Promise<void> {
     CREATE INDEX IF NOT EXISTS idx_chapters_novel_id ON chapters (novel_id);
   `);
 
+  // Chapter numbers are positions in the source's list and shift when a chapter is inserted; a deferrable
+  // constraint is only checked at the end of a statement, so one UPDATE can move a run of chapters along
+  const chapterNumberConstraint = await runQuery(`
+    SELECT condeferrable
+    FROM pg_constraint
+    WHERE conrelid = 'chapters'::regclass AND conname = 'chapters_novel_id_chapter_number_key'
+  `);
+  if (!chapterNumberConstraint.rows[0]?.condeferrable) {
+    await runQuery(`
+      ALTER TABLE chapters
+      DROP CONSTRAINT IF EXISTS chapters_novel_id_chapter_number_key,
+      ADD CONSTRAINT chapters_novel_id_chapter_number_key UNIQUE (novel_id, chapter_number)
+        DEFERRABLE INITIALLY IMMEDIATE;
+    `);
+  }
+
+  // Lets re-scrapes detect unchanged content without comparing full chapter bodies
+  await runQuery(`
+    ALTER TABLE chapters
+    ADD COLUMN IF NOT EXISTS content_hash TEXT GENERATED ALWAYS AS (md5(content)) STORED;
+  `);
+
+  await runQuery(`
+    ALTER TABLE chapters ADD COLUMN IF NOT EXISTS content_text TEXT;
+  `);
+
+  await runQuery(`
+    CREATE TABLE IF NOT EXISTS chapter_revisions (
+      id BIGSERIAL PRIMARY KEY,
+      chapter_id BIGINT NOT NULL REFERENCES chapters(id) ON DELETE CASCADE,
+      title TEXT NOT NULL,
+      content TEXT NOT NULL,
+      content_hash TEXT NOT NULL,
+      scraped_at TIMESTAMPTZ NOT NULL,
+      replaced_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+  `);
+
+  await runQuery(`
+    CREATE INDEX IF NOT EXISTS idx_chapter_revisions_chapter_id ON chapter_revisions (chapter_id, id);
+  `);
+
+  // Ranked novel search over title and author (weight A), genres (B) and summary (C).
+  // array_to_string is only STABLE, so the generated column needs an IMMUTABLE wrapper.
+  await runQuery(`
+    CREATE OR REPLACE FUNCTION novel_search_document(title TEXT, author TEXT, genres TEXT[], summary TEXT)
+    RETURNS tsvector
+    LANGUAGE sql
+    IMMUTABLE
+    AS $$
+      SELECT
+        setweight(to_tsvector('${SEARCH_CONFIG}', COALESCE(title, '')), 'A') ||
+        setweight(to_tsvector('${SEARCH_CONFIG}', COALESCE(author, '')), 'A') ||
+        setweight(to_tsvector('${SEARCH_CONFIG}', array_to_string(genres, ' ')), 'B') ||
+        setweight(to_tsvector('${SEARCH_CONFIG}', COALESCE(summary, '')), 'C')
+    $$;
+  `);
+
+  await runQuery(`
+    ALTER TABLE novels
+    ADD COLUMN IF NOT EXISTS search_vector tsvector
+    GENERATED ALWAYS AS (novel_search_document(title, author, genres, summary)) STORED;
+  `);
+
+  await runQuery(`
+    CREATE INDEX IF NOT EXISTS idx_novels_search ON novels USING GIN (search_vector);
+  `);
+
+  await runQuery(`
+    CREATE INDEX IF NOT EXISTS idx_chapters_search ON chapters USING GIN (${CHAPTER_SEARCH_VECTOR});
+  `);
+
+  // Numeric and normalized versions of the scraped stats, parsed by utils/novel-stats.ts and written
+  // alongside them by upsertNovelByUrl
+  await runQuery(`
+    ALTER TABLE novels
+    ADD COLUMN IF NOT EXISTS views_count BIGINT,
+    ADD COLUMN IF NOT EXISTS bookmarks_count BIGINT,
+    ADD COLUMN IF NOT EXISTS total_chapters_count BIGINT,
+    ADD COLUMN IF NOT EXISTS rank_position BIGINT,
+    ADD COLUMN IF NOT EXISTS normalized_status TEXT;
+  `);
+
+  // Databases from before the stats were parsed in code have the counts generated by a SQL function
+  // that read "1 Bookmarks" as a billion; those become plain columns, which the backfill below re-parses
+  const generatedStatColumns = await runQuery(`
+    SELECT column_name
+    FROM information_schema.columns
+    WHERE table_schema = current_schema()
+      AND table_name = 'novels'
+      AND column_name IN ('views_count', 'bookmarks_count', 'total_chapters_count', 'rank_position')
+      AND is_generated = 'ALWAYS'
+  `);
+  if (generatedStatColumns.rows.length > 0) {
+    await runQuery(`
+      ALTER TABLE novels
+      ${generatedStatColumns.rows.map((row) => `ALTER COLUMN ${row.column_name} DROP EXPRESSION`).join(',\n      ')};
+    `);
+    await runQuery(`
+      DROP FUNCTION IF EXISTS parse_stat_count(TEXT);
+    `);
+  }
+
+  // Adding the constraint validates every row, so only when it is missing
+  const normalizedStatusConstraint = await runQuery(`
+    SELECT 1 FROM pg_constraint WHERE conrelid = 'novels'::regclass AND conname = 'novels_normalized_status'
+  `);
+  if (normalizedStatusConstraint.rows.length === 0) {
+    await runQuery(`
+      ALTER TABLE novels
+      ADD CONSTRAINT novels_normalized_status CHECK (
+        normalized_status IS NULL OR normalized_status IN ('ongoing', 'completed', 'hiatus', 'unknown')
+      );
+    `);
+  }
+
+  // Rows stored before the columns existed; a no-op once every row has been parsed
+  await backfillNovelStats();
+
+  // Genre filters go through novel_genres now
+  await runQuery(`
+    DROP INDEX IF EXISTS idx_novels_genres;
+  `);
+
+  for (const column of [
+    'rating',
+    'views_count',
+    'rank_position',
+    'total_chapters_count',
+    'normalized_status',
+    'updated_at'
+  ]) {
+    await runQuery(`
+      CREATE INDEX IF NOT EXISTS idx_novels_${column} ON novels (${column});
+    `);
+  }
+
+  // The chapter list as the source site publishes it; position matches chapters.chapter_number
+  await runQuery(`
+    CREATE TABLE IF NOT EXISTS chapter_index (
+      novel_id BIGINT NOT NULL REFERENCES novels(id) ON DELETE CASCADE,
+      position INTEGER NOT NULL,
+      url TEXT NOT NULL,
+      display_number TEXT,
+      title TEXT,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (novel_id, position)
+    );
+  `);
+
+  // Appended on every scrape, since the novel row itself only keeps the latest stats
+  await runQuery(`
+    CREATE TABLE IF NOT EXISTS novel_stat_snapshots (
+      id BIGSERIAL PRIMARY KEY,
+      novel_id BIGINT NOT NULL REFERENCES novels(id) ON DELETE CASCADE,
+      rank_position BIGINT,
+      views_count BIGINT,
+      bookmarks_count BIGINT,
+      total_chapters_count BIGINT,
+      rating DOUBLE PRECISION,
+      captured_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+  `);
+
+  await runQuery(`
+    CREATE INDEX IF NOT EXISTS idx_novel_stat_snapshots_novel
+    ON novel_stat_snapshots (novel_id, captured_at);
+  `);
+
+  await runQuery(`
+    CREATE INDEX IF NOT EXISTS idx_novel_stat_snapshots_captured_at ON novel_stat_snapshots (captured_at);
+  `);
+
+  // Genres and authors keyed by slug, linked to novels by saveNovelLinks. novels.genres and novels.author
+  // keep the source site's spelling for display.
+  await runQuery(`
+    CREATE TABLE IF NOT EXISTS genres (
+      id BIGSERIAL PRIMARY KEY,
+      slug TEXT NOT NULL UNIQUE,
+      name TEXT NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+  `);
+
+  await runQuery(`
+    CREATE TABLE IF NOT EXISTS novel_genres (
+      novel_id BIGINT NOT NULL REFERENCES novels(id) ON DELETE CASCADE,
+      genre_id BIGINT NOT NULL REFERENCES genres(id) ON DELETE CASCADE,
+      PRIMARY KEY (novel_id, genre_id)
+    );
+  `);
+
+  await runQuery(`
+    CREATE INDEX IF NOT EXISTS idx_novel_genres_genre_id ON novel_genres (genre_id);
+  `);
+
+  await runQuery(`
+    CREATE TABLE IF NOT EXISTS authors (
+      id BIGSERIAL PRIMARY KEY,
+      slug TEXT NOT NULL UNIQUE,
+      name TEXT NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+  `);
+
+  await runQuery(`
+    CREATE TABLE IF NOT EXISTS novel_authors (
+      novel_id BIGINT NOT NULL REFERENCES novels(id) ON DELETE CASCADE,
+      author_id BIGINT NOT NULL REFERENCES authors(id) ON DELETE CASCADE,
+      PRIMARY KEY (novel_id, author_id)
+    );
+  `);
+
+  await runQuery(`
+    CREATE INDEX IF NOT EXISTS idx_novel_authors_author_id ON novel_authors (author_id);
+  `);
+
+  // Novels stored before the links existed
+  await backfillNovelLinks();
+
   schemaInitialized = true;
 }
 
@@ -266,15 +770,18 @@ export async function upsertNovelByUrl(
   novelUrl: string,
   payload: NovelUpdatePayload
 ): Promise<INovel | null> {
+  const stats = parseNovelStats(payload);
   const result = await runQuery(
     `
       INSERT INTO novels (
         title, novel_url, author, rank, total_chapters, views, bookmarks, status,
-        genres, summary, chapters_url, image_url, rating, last_scraped
+        genres, summary, chapters_url, image_url, rating, last_scraped,
+        views_count, bookmarks_count, total_chapters_count, rank_position, normalized_status
       )
       VALUES (
         $1, $2, $3, $4, $5, $6, $7, $8,
-        $9, $10, $11, $12, $13, $14
+        $9, $10, $11, $12, $13, $14,
+        $15, $16, $17, $18, $19
       )
       ON CONFLICT (novel_url) DO UPDATE SET
         title = EXCLUDED.title,
@@ -290,8 +797,13 @@ export async function upsertNovelByUrl(
         image_url = EXCLUDED.image_url,
         rating = EXCLUDED.rating,
         last_scraped = EXCLUDED.last_scraped,
+        views_count = EXCLUDED.views_count,
+        bookmarks_count = EXCLUDED.bookmarks_count,
+        total_chapters_count = EXCLUDED.total_chapters_count,
+        rank_position = EXCLUDED.rank_position,
+        normalized_status = EXCLUDED.normalized_status,
         updated_at = NOW()
-      RETURNING *
+      RETURNING id
     `,
     [
       payload.title,
@@ -307,7 +819,12 @@ export async function upsertNovelByUrl(
       payload.chaptersUrl,
       payload.imageUrl,
       payload.rating,
-      payload.lastScraped
+      payload.lastScraped,
+      stats.viewsCount,
+      stats.bookmarksCount,
+      stats.totalChaptersCount,
+      stats.rankPosition,
+      stats.normalizedStatus
     ]
   );
 
@@ -315,18 +832,233 @@ export async function upsertNovelByUrl(
     return null;
   }
 
-  return mapNovelRow(result.rows[0]);
+  const novelId = Number(result.rows[0].id);
+  await saveNovelLinks(novelId, { genres: payload.genres, author: payload.author });
+  return getNovelById(novelId);
+}
+
+/**
+ * Points the novel's genre and author links at the given names, creating genres and authors by slug.
+ * Names without a usable slug are skipped.
+ */
+export async function saveNovelLinks(
+  novelId: number,
+  names: { genres: string[]; author: string | null }
+): Promise<void> {
+  await replaceNovelLinks(novelId, names.genres, 'genres', 'novel_genres', 'genre_id');
+  await replaceNovelLinks(novelId, names.author ? [names.author] : [], 'authors', 'novel_authors', 'author_id');
+}
+
+async function replaceNovelLinks(
+  novelId: number,
+  names: string[],
+  entityTable: 'genres' | 'authors',
+  linkTable: 'novel_genres' | 'novel_authors',
+  linkColumn: 'genre_id' | 'author_id'
+): Promise<void> {
+  // First spelling wins when several names share a slug
+  const namesBySlug = new Map<string, string>();
+  for (const name of names) {
+    const slug = slugify(name);
+    if (slug && !namesBySlug.has(slug)) {
+      namesBySlug.set(slug, name.trim());
+    }
+  }
+  const slugs = Array.from(namesBySlug.keys());
+
+  if (slugs.length > 0) {
+    await runQuery(
+      `
+        INSERT INTO ${entityTable} (slug, name)
+        SELECT * FROM unnest($1::TEXT[], $2::TEXT[])
+        ON CONFLICT (slug) DO NOTHING
+      `,
+      [slugs, Array.from(namesBySlug.values())]
+    );
+  }
+
+  await runQuery(
+    `
+      DELETE FROM ${linkTable}
+      WHERE novel_id = $1
+        AND ${linkColumn} NOT IN (SELECT id FROM ${entityTable} WHERE slug = ANY($2::TEXT[]))
+    `,
+    [novelId, slugs]
+  );
+
+  if (slugs.length > 0) {
+    await runQuery(
+      `
+        INSERT INTO ${linkTable} (novel_id, ${linkColumn})
+        SELECT $1, id FROM ${entityTable} WHERE slug = ANY($2::TEXT[])
+        ON CONFLICT DO NOTHING
+      `,
+      [novelId, slugs]
+    );
+  }
+}
+
+/**
+ * Links the genres and author of novels stored before novel_genres and novel_authors existed
+ * @returns Number of novels linked
+ */
+export async function backfillNovelLinks(): Promise<number> {
+  let linked = 0;
+  let lastId = 0;
+
+  while (true) {
+    const result = await runQuery(
+      `
+        SELECT id, genres, author
+        FROM novels n
+        WHERE id > $1
+          AND (
+            (cardinality(genres) > 0 AND NOT EXISTS (SELECT 1 FROM novel_genres WHERE novel_id = n.id))
+            OR (author IS NOT NULL AND NOT EXISTS (SELECT 1 FROM novel_authors WHERE novel_id = n.id))
+          )
+        ORDER BY id
+        LIMIT $2
+      `,
+      [lastId, NOVEL_LINKS_BACKFILL_BATCH_SIZE]
+    );
+    if (result.rows.length === 0) {
+      return linked;
+    }
+
+    for (const row of result.rows) {
+      await saveNovelLinks(Number(row.id), { genres: row.genres ?? [], author: row.author });
+    }
+    linked += result.rows.length;
+    lastId = Number(result.rows[result.rows.length - 1].id);
+  }
+}
+
+/**
+ * Parses the stats of novels stored before they had numeric columns, see parseNovelStats.
+ * Leaves updated_at alone, as nothing about the novel changed.
+ * @returns Number of novels updated
+ */
+export async function backfillNovelStats(): Promise<number> {
+  let updated = 0;
+
+  while (true) {
+    const result = await runQuery(
+      `
+        SELECT id, views, bookmarks, total_chapters, rank, status
+        FROM novels
+        WHERE normalized_status IS NULL
+        ORDER BY id
+        LIMIT $1
+      `,
+      [NOVEL_STATS_BACKFILL_BATCH_SIZE]
+    );
+    if (result.rows.length === 0) {
+      return updated;
+    }
+
+    const statsRows = result.rows.map((row) => ({
+      id: Number(row.id),
+      ...parseNovelStats({
+        views: row.views,
+        bookmarks: row.bookmarks,
+        totalChapters: row.total_chapters,
+        rank: row.rank,
+        status: row.status
+      })
+    }));
+
+    await runQuery(
+      `
+        UPDATE novels
+        SET views_count = stats.views_count, bookmarks_count = stats.bookmarks_count,
+          total_chapters_count = stats.total_chapters_count, rank_position = stats.rank_position,
+          normalized_status = stats.normalized_status
+        FROM unnest($1::BIGINT[], $2::BIGINT[], $3::BIGINT[], $4::BIGINT[], $5::BIGINT[], $6::TEXT[])
+          AS stats(id, views_count, bookmarks_count, total_chapters_count, rank_position, normalized_status)
+        WHERE novels.id = stats.id
+      `,
+      [
+        statsRows.map((row) => row.id),
+        statsRows.map((row) => row.viewsCount),
+        statsRows.map((row) => row.bookmarksCount),
+        statsRows.map((row) => row.totalChaptersCount),
+        statsRows.map((row) => row.rankPosition),
+        statsRows.map((row) => row.normalizedStatus)
+      ]
+    );
+    updated += statsRows.length;
+  }
 }
 
 export async function listNovels(
-  options: ListOptions & { search?: string }
+  options: ListOptions & NovelListFilters
 ): Promise<PaginatedResult<INovel>> {
-  const values: Array<string | number> = [];
+  const values: Array<string | number | string[]> = [];
   const conditions: string[] = [];
+  let searchQuery: string | null = null;
 
+  // See novel_search_document for what is searched
   if (options.search) {
-    values.push(`%${options.search}%`);
-    conditions.push(`(title ILIKE $${values.length} OR author ILIKE $${values.length})`);
+    values.push(options.search);
+    searchQuery = `websearch_to_tsquery('${SEARCH_CONFIG}', $${values.length})`;
+    conditions.push(`search_vector @@ ${searchQuery}`);
+  }
+  const genreSlugs = Array.from(new Set((options.genres ?? []).map(slugify).filter((slug) => slug)));
+  if (genreSlugs.length > 0) {
+    values.push(genreSlugs);
+    const matchingGenres = `
+      SELECT COUNT(*)
+      FROM novel_genres ng
+      JOIN genres g ON g.id = ng.genre_id
+      WHERE ng.novel_id = novels.id AND g.slug = ANY($${values.length}::TEXT[])
+    `;
+    conditions.push(
+      options.genreMatch === 'all' ? `(${matchingGenres}) = ${genreSlugs.length}` : `(${matchingGenres}) > 0`
+    );
+  }
+  if (options.genreId !== undefined) {
+    values.push(options.genreId);
+    conditions.push(
+      `EXISTS (SELECT 1 FROM novel_genres WHERE novel_id = novels.id AND genre_id = $${values.length})`
+    );
+  }
+  if (options.authorId !== undefined) {
+    values.push(options.authorId);
+    conditions.push(
+      `EXISTS (SELECT 1 FROM novel_authors WHERE novel_id = novels.id AND author_id = $${values.length})`
+    );
+  }
+  if (options.status) {
+    values.push(options.status);
+    conditions.push(`normalized_status = $${values.length}`);
+  }
+  if (options.minRating !== undefined) {
+    values.push(options.minRating);
+    conditions.push(`rating >= $${values.length}`);
+  }
+  if (options.author) {
+    values.push(options.author);
+    conditions.push(`lower(author) = lower($${values.length})`);
+  }
+  if (options.minChapters !== undefined) {
+    values.push(options.minChapters);
+    conditions.push(`total_chapters_count >= $${values.length}`);
+  }
+  if (options.maxChapters !== undefined) {
+    values.push(options.maxChapters);
+    conditions.push(`total_chapters_count <= $${values.length}`);
+  }
+
+  // Relevance needs a search to rank by, without one the list falls back to newest first
+  const sort = options.sort ?? 'relevance';
+  let orderClause: string;
+  if (sort === 'relevance' && searchQuery) {
+    const direction = options.order === 'asc' ? 'ASC' : 'DESC';
+    orderClause = `ORDER BY ts_rank_cd(search_vector, ${searchQuery}) ${direction}, id DESC`;
+  } else {
+    const { column, order } = NOVEL_SORT_COLUMNS[sort === 'relevance' ? 'newest' : sort];
+    // Novels without the stat go last whichever way the list runs
+    orderClause = `ORDER BY ${column} ${(options.order ?? order).toUpperCase()} NULLS LAST, id DESC`;
   }
 
   const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
@@ -355,10 +1087,10 @@ export async function listNovels(
 
   const rowsResult = await runQuery(
     `
-      SELECT *
+      SELECT ${NOVEL_COLUMNS}
       FROM novels
       ${whereClause}
-      ORDER BY id DESC
+      ${orderClause}
       ${limitClause}
       ${offsetClause}
     `,
@@ -371,10 +1103,98 @@ export async function listNovels(
   };
 }
 
+/**
+ * Full-text search over chapter titles and text, best matches first
+ * @param query - Web search syntax: words, "quoted phrases", OR, and -excluded words
+ * @param options.novelId - Only search this novel's chapters
+ */
+export async function searchChapters(
+  query: string,
+  options: ListOptions & { novelId?: number }
+): Promise<PaginatedResult<IChapterSearchResult>> {
+  const values: Array<string | number> = [query];
+  let novelCondition = '';
+  if (options.novelId !== undefined) {
+    values.push(options.novelId);
+    novelCondition = `AND novel_id = $${values.length}`;
+  }
+
+  const countResult = await runQuery(
+    `
+      SELECT COUNT(*)::BIGINT AS total
+      FROM chapters, websearch_to_tsquery('${SEARCH_CONFIG}', $1) AS query
+      WHERE ${CHAPTER_SEARCH_VECTOR} @@ query ${novelCondition}
+    `,
+    values
+  );
+
+  const listValues = [...values, HEADLINE_OPTIONS];
+  const headlineOptionsParam = `$${listValues.length}`;
+  let limitClause = '';
+  if (options.limit !== undefined) {
+    listValues.push(options.limit);
+    limitClause = `LIMIT $${listValues.length}`;
+  }
+
+  let offsetClause = '';
+  if (options.offset !== undefined) {
+    listValues.push(options.offset);
+    offsetClause = `OFFSET $${listValues.length}`;
+  }
+
+  // Snippets are only built for the page of results, ts_headline re-parses the whole chapter
+  const result = await runQuery(
+    `
+      WITH matches AS (
+        SELECT
+          id, novel_id, chapter_number, title, content, content_text,
+          ts_rank_cd(${CHAPTER_SEARCH_VECTOR}, query) AS rank
+        FROM chapters, websearch_to_tsquery('${SEARCH_CONFIG}', $1) AS query
+        WHERE ${CHAPTER_SEARCH_VECTOR} @@ query ${novelCondition}
+        ORDER BY rank DESC, novel_id ASC, chapter_number ASC
+        ${limitClause}
+        ${offsetClause}
+      )
+      SELECT
+        matches.id,
+        matches.novel_id,
+        novels.title AS novel_title,
+        matches.chapter_number,
+        matches.title,
+        matches.rank,
+        ts_headline(
+          '${SEARCH_CONFIG}',
+          COALESCE(matches.content_text, matches.content),
+          websearch_to_tsquery('${SEARCH_CONFIG}', $1),
+          ${headlineOptionsParam}
+        ) AS snippet
+      FROM matches
+      JOIN novels ON novels.id = matches.novel_id
+      ORDER BY matches.rank DESC, matches.novel_id ASC, matches.chapter_number ASC
+    `,
+    listValues
+  );
+
+  return {
+    data: result.rows.map((row) => ({
+      chapterId: Number(row.id),
+      novelId: Number(row.novel_id),
+      novelTitle: row.novel_title,
+      chapterNumber: Number(row.chapter_number),
+      title: row.title,
+      snippet: escapeHtml(row.snippet)
+        .replaceAll(HIGHLIGHT_START, '<mark>')
+        .replaceAll(HIGHLIGHT_STOP, '</mark>'),
+      rank: Number(row.rank)
+    })),
+    total: Number(countResult.rows[0]?.total ?? 0)
+  };
+}
+
 export async function getNovelById(novelId: number): Promise<INovel | null> {
   const result = await runQuery(
     `
-      SELECT *
+      SELECT ${NOVEL_COLUMNS}
       FROM novels
       WHERE id = $1
       LIMIT 1
@@ -389,84 +1209,570 @@ export async function getNovelById(novelId: number): Promise<INovel | null> {
   return mapNovelRow(result.rows[0]);
 }
 
-export async function getHighestChapterForNovel(
-  novelId: number
-): Promise<{ chapterNumber: number } | null> {
-  const result = await runQuery(
-    `
-      SELECT chapter_number
-      FROM chapters
-      WHERE novel_id = $1
-      ORDER BY chapter_number DESC
-      LIMIT 1
+/**
+ * Replaces the stored chapter index of a novel with the list currently published online
+ * @param entries - Chapters in reading order; `chapterNumber` is the position in that order
+ */
+export async function saveChapterIndex(
+  novelId: number,
+  entries: Array<{ chapterNumber: number; url: string; displayNumber: string | null; title: string | null }>
+): Promise<void> {
+  for (let index = 0; index < entries.length; index += CHAPTER_INDEX_BATCH_SIZE) {
+    const batch = entries.slice(index, index + CHAPTER_INDEX_BATCH_SIZE);
+    const values: Array<number | string | null> = [novelId];
+    const valuePlaceholders = batch.map((entry, batchIndex) => {
+      const offset = 1 + batchIndex * 4;
+      values.push(entry.chapterNumber, entry.url, entry.displayNumber, entry.title);
+      return `($1, $${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4})`;
+    });
+
+    await runQuery(
+      `
+        INSERT INTO chapter_index (novel_id, position, url, display_number, title)
+        VALUES ${valuePlaceholders.join(', ')}
+        ON CONFLICT (novel_id, position) DO UPDATE SET
+          url = EXCLUDED.url,
+          display_number = EXCLUDED.display_number,
+          title = EXCLUDED.title,
+          updated_at = NOW()
+        WHERE (chapter_index.url, chapter_index.display_number, chapter_index.title)
+          IS DISTINCT FROM (EXCLUDED.url, EXCLUDED.display_number, EXCLUDED.title)
+      `,
+      values
+    );
+  }
+
+  // Chapters removed from the site no longer belong in the index
+  await runQuery(
+    `
+      DELETE FROM chapter_index
+      WHERE novel_id = $1 AND position > $2
+    `,
+    [novelId, entries.length]
+  );
+}
+
+/**
+ * Moves stored chapters to the position their URL has in the novel's chapter index, so a chapter
+ * inserted upstream leaves a gap at its own position instead of being hidden behind an older chapter.
+ * Stored chapters the index no longer lists keep their order but move after its last position.
+ * Does nothing when no stored chapter is in the index, e.g. when the index was guessed from the
+ * chapter count and does not use the site's real URLs.
+ * @returns Number of chapters that moved
+ */
+export async function syncChapterNumbers(novelId: number): Promise<number> {
+  const result = await runQuery(
+    `
+      WITH listed AS (
+        SELECT url, MIN(position) AS position
+        FROM chapter_index
+        WHERE novel_id = $1
+        GROUP BY url
+      ),
+      stored AS (
+        SELECT chapters.id, chapters.chapter_number, listed.position
+        FROM chapters
+        LEFT JOIN listed ON listed.url = chapters.url
+        WHERE chapters.novel_id = $1
+      ),
+      targets AS (
+        SELECT
+          id,
+          COALESCE(
+            position,
+            (SELECT MAX(position) FROM listed) +
+              ROW_NUMBER() OVER (PARTITION BY position IS NULL ORDER BY chapter_number)
+          ) AS chapter_number
+        FROM stored
+        WHERE EXISTS (SELECT 1 FROM stored WHERE position IS NOT NULL)
+      )
+      UPDATE chapters
+      SET chapter_number = targets.chapter_number
+      FROM targets
+      WHERE chapters.id = targets.id AND chapters.chapter_number <> targets.chapter_number
     `,
     [novelId]
   );
 
+  return result.rowCount ?? 0;
+}
+
+/**
+ * URLs of every chapter already stored for a novel, so chapters the site renumbered
+ * are not queued a second time under a new position
+ */
+export async function getStoredChapterUrls(novelId: number): Promise<Set<string>> {
+  const result = await runQuery(
+    `
+      SELECT url
+      FROM chapters
+      WHERE novel_id = $1
+    `,
+    [novelId]
+  );
+
+  return new Set(result.rows.map((row) => row.url as string));
+}
+
+/**
+ * Finds runs of chapter numbers with no stored chapter, from 1 up to the highest stored
+ * chapter or `upTo`, whichever is larger.
+ * @param novelId - Novel to inspect
+ * @param upTo - Last chapter number expected to exist (e.g. the latest chapter online)
+ * @returns Inclusive ranges of missing chapter numbers in ascending order
+ */
+export async function findMissingChapterRanges(
+  novelId: number,
+  upTo?: number
+): Promise<ChapterRange[]> {
+  const result = await runQuery(
+    `
+      WITH bounds AS (
+        SELECT chapter_number FROM chapters WHERE novel_id = $1
+        UNION ALL
+        SELECT 0
+        UNION ALL
+        SELECT GREATEST(
+          $2::INTEGER,
+          COALESCE((SELECT MAX(chapter_number) FROM chapters WHERE novel_id = $1), 0)
+        ) + 1
+      ),
+      ordered AS (
+        SELECT chapter_number, LEAD(chapter_number) OVER (ORDER BY chapter_number) AS next_number
+        FROM bounds
+      )
+      SELECT chapter_number + 1 AS range_start, next_number - 1 AS range_end
+      FROM ordered
+      WHERE next_number > chapter_number + 1
+      ORDER BY range_start ASC
+    `,
+    [novelId, upTo ?? null]
+  );
+
+  return result.rows.map((row) => ({ from: Number(row.range_start), to: Number(row.range_end) }));
+}
+
+const COMPLETENESS_SELECT = `
+  SELECT
+    n.id,
+    n.title,
+    n.total_chapters_count AS expected_chapters,
+    COALESCE(c.stored_chapters, 0) AS stored_chapters,
+    c.highest_chapter
+  FROM novels n
+  LEFT JOIN (
+    SELECT novel_id, COUNT(*)::BIGINT AS stored_chapters, MAX(chapter_number) AS highest_chapter
+    FROM chapters
+    GROUP BY novel_id
+  ) c ON c.novel_id = n.id
+`;
+
+export async function listNovelCompleteness(
+  options: ListOptions
+): Promise<PaginatedResult<INovelCompleteness>> {
+  const countResult = await runQuery(`SELECT COUNT(*)::BIGINT AS total FROM novels`);
+
+  const values: number[] = [];
+  let limitClause = '';
+  if (options.limit !== undefined) {
+    values.push(options.limit);
+    limitClause = `LIMIT $${values.length}`;
+  }
+
+  let offsetClause = '';
+  if (options.offset !== undefined) {
+    values.push(options.offset);
+    offsetClause = `OFFSET $${values.length}`;
+  }
+
+  const result = await runQuery(
+    `
+      ${COMPLETENESS_SELECT}
+      ORDER BY n.id ASC
+      ${limitClause}
+      ${offsetClause}
+    `,
+    values
+  );
+
+  return {
+    data: result.rows.map(mapCompletenessRow),
+    total: Number(countResult.rows[0]?.total ?? 0)
+  };
+}
+
+// Genres linked to at least one novel, most used first
+export async function listGenres(options: ListOptions): Promise<PaginatedResult<IGenre>> {
+  const countResult = await runQuery(`
+    SELECT COUNT(DISTINCT genre_id)::BIGINT AS total FROM novel_genres
+  `);
+
+  const values: number[] = [];
+  let limitClause = '';
+  if (options.limit !== undefined) {
+    values.push(options.limit);
+    limitClause = `LIMIT $${values.length}`;
+  }
+
+  let offsetClause = '';
+  if (options.offset !== undefined) {
+    values.push(options.offset);
+    offsetClause = `OFFSET $${values.length}`;
+  }
+
+  const result = await runQuery(
+    `
+      SELECT g.*, COUNT(*)::BIGINT AS novel_count
+      FROM genres g
+      JOIN novel_genres ng ON ng.genre_id = g.id
+      GROUP BY g.id
+      ORDER BY novel_count DESC, g.name ASC
+      ${limitClause}
+      ${offsetClause}
+    `,
+    values
+  );
+
+  return {
+    data: result.rows.map(mapGenreRow),
+    total: Number(countResult.rows[0]?.total ?? 0)
+  };
+}
+
+export async function getGenreBySlug(slug: string): Promise<IGenre | null> {
+  const result = await runQuery(
+    `
+      SELECT g.*, (SELECT COUNT(*) FROM novel_genres WHERE genre_id = g.id)::BIGINT AS novel_count
+      FROM genres g
+      WHERE g.slug = $1
+      LIMIT 1
+    `,
+    [slugify(slug)]
+  );
+
   if (result.rows.length === 0) {
     return null;
   }
 
-  return { chapterNumber: result.rows[0].chapter_number };
+  return mapGenreRow(result.rows[0]);
 }
 
-export async function upsertChapter(
-  novelId: number,
-  chapter: { chapterNumber: number; url: string; title: string; content: string }
-): Promise<IChapter | null> {
+export async function getAuthorById(authorId: number): Promise<IAuthor | null> {
   const result = await runQuery(
     `
-      INSERT INTO chapters (novel_id, chapter_number, url, title, content)
-      VALUES ($1, $2, $3, $4, $5)
-      ON CONFLICT (novel_id, chapter_number) DO UPDATE SET
-        url = EXCLUDED.url,
-        title = EXCLUDED.title,
-        content = EXCLUDED.content,
-        updated_at = NOW()
-      RETURNING *
+      SELECT a.*, (SELECT COUNT(*) FROM novel_authors WHERE author_id = a.id)::BIGINT AS novel_count
+      FROM authors a
+      WHERE a.id = $1
+      LIMIT 1
     `,
-    [novelId, chapter.chapterNumber, chapter.url, chapter.title, chapter.content]
+    [authorId]
   );
 
   if (result.rows.length === 0) {
     return null;
   }
 
-  return mapChapterRow(result.rows[0]);
+  return mapAuthorRow(result.rows[0]);
+}
+
+// Copies the novel's current stats into novel_stat_snapshots
+export async function recordNovelStatSnapshot(novelId: number): Promise<void> {
+  await runQuery(
+    `
+      INSERT INTO novel_stat_snapshots (
+        novel_id, rank_position, views_count, bookmarks_count, total_chapters_count, rating
+      )
+      SELECT id, rank_position, views_count, bookmarks_count, total_chapters_count, rating
+      FROM novels
+      WHERE id = $1
+    `,
+    [novelId]
+  );
 }
 
-export async function upsertChapters(
+/**
+ * A novel's stat snapshots, oldest first
+ * @param options.since - Only snapshots captured at or after this time
+ * @param options.until - Only snapshots captured before this time
+ */
+export async function listNovelStatHistory(
   novelId: number,
-  chapters: Array<{ chapterNumber: number; url: string; title: string; content: string }>
-): Promise<IChapter[]> {
-  if (chapters.length === 0) {
-    return [];
+  options: ListOptions & { since?: Date; until?: Date }
+): Promise<PaginatedResult<INovelStatSnapshot>> {
+  const values: Array<number | Date> = [novelId];
+  const conditions = ['novel_id = $1'];
+
+  if (options.since) {
+    values.push(options.since);
+    conditions.push(`captured_at >= $${values.length}`);
+  }
+  if (options.until) {
+    values.push(options.until);
+    conditions.push(`captured_at < $${values.length}`);
+  }
+
+  const whereClause = `WHERE ${conditions.join(' AND ')}`;
+
+  const countResult = await runQuery(
+    `
+      SELECT COUNT(*)::BIGINT AS total
+      FROM novel_stat_snapshots
+      ${whereClause}
+    `,
+    values
+  );
+
+  const listValues = [...values];
+  let limitClause = '';
+  if (options.limit !== undefined) {
+    listValues.push(options.limit);
+    limitClause = `LIMIT $${listValues.length}`;
+  }
+
+  let offsetClause = '';
+  if (options.offset !== undefined) {
+    listValues.push(options.offset);
+    offsetClause = `OFFSET $${listValues.length}`;
   }
 
-  const values: Array<number | string> = [];
+  const result = await runQuery(
+    `
+      SELECT *
+      FROM novel_stat_snapshots
+      ${whereClause}
+      ORDER BY captured_at ASC, id ASC
+      ${limitClause}
+      ${offsetClause}
+    `,
+    listValues
+  );
+
+  return {
+    data: result.rows.map(mapNovelStatSnapshotRow),
+    total: Number(countResult.rows[0]?.total ?? 0)
+  };
+}
+
+/**
+ * Novels ranked by how much a metric grew over the last `days` days, fastest growing first.
+ * Growth runs from the last snapshot before the window (or the first one inside it, for novels
+ * first scraped during the window) to the latest snapshot; novels that did not grow are left out.
+ */
+export async function listTrendingNovels(
+  options: ListOptions & { metric: TrendingMetric; days: number }
+): Promise<PaginatedResult<ITrendingNovel>> {
+  const column = TRENDING_METRIC_COLUMNS[options.metric];
+  const values: number[] = [options.days];
+
+  const growthQuery = `
+    WITH window_start AS (
+      SELECT NOW() - make_interval(days => $1) AS at
+    ),
+    latest AS (
+      SELECT DISTINCT ON (novel_id) novel_id, ${column} AS value, captured_at
+      FROM novel_stat_snapshots, window_start
+      WHERE captured_at >= window_start.at AND ${column} IS NOT NULL
+      ORDER BY novel_id, captured_at DESC, id DESC
+    ),
+    baseline AS (
+      SELECT DISTINCT ON (s.novel_id) s.novel_id, s.${column} AS value, s.captured_at
+      FROM novel_stat_snapshots s
+      JOIN latest ON latest.novel_id = s.novel_id
+      CROSS JOIN window_start
+      WHERE s.${column} IS NOT NULL
+      ORDER BY
+        s.novel_id,
+        s.captured_at <= window_start.at DESC,
+        CASE WHEN s.captured_at <= window_start.at THEN s.captured_at END DESC,
+        s.captured_at ASC,
+        s.id ASC
+    ),
+    growth AS (
+      SELECT
+        latest.novel_id,
+        baseline.value AS start_value,
+        latest.value AS end_value,
+        latest.value - baseline.value AS growth,
+        baseline.captured_at AS start_at,
+        latest.captured_at AS end_at
+      FROM latest
+      JOIN baseline ON baseline.novel_id = latest.novel_id
+      WHERE latest.value > baseline.value
+    )
+  `;
+
+  const countResult = await runQuery(
+    `
+      ${growthQuery}
+      SELECT COUNT(*)::BIGINT AS total FROM growth
+    `,
+    values
+  );
+
+  const listValues = [...values];
+  let limitClause = '';
+  if (options.limit !== undefined) {
+    listValues.push(options.limit);
+    limitClause = `LIMIT $${listValues.length}`;
+  }
+
+  let offsetClause = '';
+  if (options.offset !== undefined) {
+    listValues.push(options.offset);
+    offsetClause = `OFFSET $${listValues.length}`;
+  }
+
+  const result = await runQuery(
+    `
+      ${growthQuery}
+      SELECT ${NOVEL_COLUMNS}, growth.start_value, growth.end_value, growth.growth, growth.start_at, growth.end_at
+      FROM growth
+      JOIN novels ON novels.id = growth.novel_id
+      ORDER BY growth.growth DESC, novels.id DESC
+      ${limitClause}
+      ${offsetClause}
+    `,
+    listValues
+  );
+
+  return {
+    data: result.rows.map((row) => {
+      const startValue = Number(row.start_value);
+      const growth = Number(row.growth);
+      return {
+        novel: mapNovelRow(row),
+        startValue,
+        endValue: Number(row.end_value),
+        growth,
+        growthRate: startValue === 0 ? null : growth / startValue,
+        startAt: row.start_at,
+        endAt: row.end_at
+      };
+    }),
+    total: Number(countResult.rows[0]?.total ?? 0)
+  };
+}
+
+export async function getNovelCompleteness(
+  novelId: number
+): Promise<(INovelCompleteness & { missingRanges: ChapterRange[] }) | null> {
+  const result = await runQuery(
+    `
+      ${COMPLETENESS_SELECT}
+      WHERE n.id = $1
+    `,
+    [novelId]
+  );
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const completeness = mapCompletenessRow(result.rows[0]);
+  const missingRanges = await findMissingChapterRanges(
+    novelId,
+    completeness.expectedChapters ?? undefined
+  );
+  return { ...completeness, missingRanges };
+}
+
+type ChapterInput = { chapterNumber: number; url: string; title: string; content: string };
+
+/**
+ * Inserts or updates chapters in one statement. A chapter is identified by its URL: a stored row
+ * with the same URL is updated in place and moved to the incoming number if the source renumbered
+ * it. Rows whose title, content and number are unchanged are left untouched; when the title or
+ * content changed, the previous version is archived to chapter_revisions first.
+ * Incoming chapters whose number is held by a different chapter that is not part of the batch are
+ * skipped, as storing them would need that chapter to move first (see syncChapterNumbers).
+ * @returns Only the rows that were inserted or updated
+ */
+async function writeChapters(novelId: number, chapters: ChapterInput[]): Promise<IChapter[]> {
+  const values: Array<number | string> = [novelId];
   const valuePlaceholders = chapters.map((chapter, index) => {
-    const offset = index * 5;
-    values.push(novelId, chapter.chapterNumber, chapter.url, chapter.title, chapter.content);
-    return `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5})`;
+    const offset = 1 + index * 5;
+    values.push(
+      chapter.chapterNumber,
+      chapter.url,
+      chapter.title,
+      chapter.content,
+      chapterHtmlToText(chapter.content)
+    );
+    return `($1::BIGINT, $${offset + 1}::INTEGER, $${offset + 2}::TEXT, $${offset + 3}::TEXT, $${offset + 4}::TEXT, $${offset + 5}::TEXT)`;
   });
 
   const result = await runQuery(
     `
-      INSERT INTO chapters (novel_id, chapter_number, url, title, content)
-      VALUES ${valuePlaceholders.join(', ')}
-      ON CONFLICT (novel_id, chapter_number) DO UPDATE SET
-        url = EXCLUDED.url,
+      WITH incoming (novel_id, chapter_number, url, title, content, content_text) AS (
+        VALUES ${valuePlaceholders.join(', ')}
+      ),
+      writable AS (
+        SELECT incoming.*
+        FROM incoming
+        WHERE NOT EXISTS (
+          SELECT 1
+          FROM chapters occupant
+          WHERE occupant.novel_id = incoming.novel_id
+            AND occupant.chapter_number = incoming.chapter_number
+            AND occupant.url <> incoming.url
+            AND occupant.url NOT IN (SELECT url FROM incoming)
+        )
+      ),
+      archived AS (
+        INSERT INTO chapter_revisions (chapter_id, title, content, content_hash, scraped_at)
+        SELECT chapters.id, chapters.title, chapters.content, chapters.content_hash, chapters.updated_at
+        FROM chapters
+        JOIN writable ON writable.novel_id = chapters.novel_id AND writable.url = chapters.url
+        WHERE chapters.content_hash <> md5(writable.content) OR chapters.title <> writable.title
+      )
+      INSERT INTO chapters (novel_id, chapter_number, url, title, content, content_text)
+      SELECT novel_id, chapter_number, url, title, content, content_text
+      FROM writable
+      ON CONFLICT (url) DO UPDATE SET
+        chapter_number = EXCLUDED.chapter_number,
         title = EXCLUDED.title,
         content = EXCLUDED.content,
+        content_text = EXCLUDED.content_text,
         updated_at = NOW()
+      WHERE chapters.novel_id = EXCLUDED.novel_id
+        AND (
+          chapters.content_hash <> md5(EXCLUDED.content)
+          OR chapters.title <> EXCLUDED.title
+          OR chapters.chapter_number <> EXCLUDED.chapter_number
+        )
       RETURNING *
     `,
     values
   );
 
-  return result.rows
-    .map(mapChapterRow)
-    .sort((left, right) => left.chapterNumber - right.chapterNumber);
+  return result.rows.map(mapChapterRow);
+}
+
+/**
+ * @returns The saved chapter, or null when its number is held by a different chapter
+ */
+export async function upsertChapter(novelId: number, chapter: ChapterInput): Promise<IChapter | null> {
+  const [savedChapter] = await writeChapters(novelId, [chapter]);
+  if (savedChapter) {
+    return savedChapter;
+  }
+
+  // Nothing changed, so the row was not touched and RETURNING came back empty
+  const storedChapter = await getChapterByNovelIdAndNumber(novelId, chapter.chapterNumber);
+  return storedChapter?.url === chapter.url ? storedChapter : null;
+}
+
+/**
+ * Upserts a batch of chapters
+ * @returns The chapters that were inserted or changed; unchanged chapters are omitted
+ */
+export async function upsertChapters(novelId: number, chapters: ChapterInput[]): Promise<IChapter[]> {
+  if (chapters.length === 0) {
+    return [];
+  }
+
+  const savedChapters = await writeChapters(novelId, chapters);
+  return savedChapters.sort((left, right) => left.chapterNumber - right.chapterNumber);
 }
 
 export async function listChaptersByNovelId(
@@ -500,10 +1806,20 @@ export async function listChaptersByNovelId(
 
   const result = await runQuery(
     `
-      SELECT id, novel_id, chapter_number, url, title, created_at, updated_at
+      SELECT
+        chapters.id,
+        chapters.novel_id,
+        chapters.chapter_number,
+        chapter_index.display_number,
+        chapters.url,
+        chapters.title,
+        chapters.created_at,
+        chapters.updated_at
       FROM chapters
-      WHERE novel_id = $1
-      ORDER BY chapter_number ASC
+      LEFT JOIN chapter_index
+        ON chapter_index.novel_id = chapters.novel_id AND chapter_index.url = chapters.url
+      WHERE chapters.novel_id = $1
+      ORDER BY chapters.chapter_number ASC
       ${limitClause}
       ${offsetClause}
     `,
@@ -555,6 +1871,108 @@ export async function getChapterById(chapterId: number): Promise<IChapter | null
   return mapChapterRow(result.rows[0]);
 }
 
+export async function listChapterRevisions(
+  chapterId: number,
+  options: ListOptions
+): Promise<PaginatedResult<IChapterRevisionListItem>> {
+  const values: number[] = [chapterId];
+
+  const countResult = await runQuery(
+    `
+      SELECT COUNT(*)::BIGINT AS total
+      FROM chapter_revisions
+      WHERE chapter_id = $1
+    `,
+    values
+  );
+
+  const listValues = [...values];
+
+  let limitClause = '';
+  if (options.limit !== undefined) {
+    listValues.push(options.limit);
+    limitClause = `LIMIT $${listValues.length}`;
+  }
+
+  let offsetClause = '';
+  if (options.offset !== undefined) {
+    listValues.push(options.offset);
+    offsetClause = `OFFSET $${listValues.length}`;
+  }
+
+  const result = await runQuery(
+    `
+      SELECT id, chapter_id, title, content_hash, scraped_at, replaced_at
+      FROM chapter_revisions
+      WHERE chapter_id = $1
+      ORDER BY id DESC
+      ${limitClause}
+      ${offsetClause}
+    `,
+    listValues
+  );
+
+  return {
+    data: result.rows.map(mapChapterRevisionListRow),
+    total: Number(countResult.rows[0]?.total ?? 0)
+  };
+}
+
+/**
+ * Loads one version of a chapter
+ * @param version - Archived revision id, 'current' for the stored content, or 'latest' for
+ *   the most recently archived revision
+ */
+export async function getChapterVersion(
+  chapterId: number,
+  version: number | 'current' | 'latest'
+): Promise<ChapterVersion | null> {
+  if (version === 'current') {
+    const chapter = await getChapterById(chapterId);
+    if (!chapter) {
+      return null;
+    }
+    return {
+      revisionId: null,
+      title: chapter.title,
+      content: chapter.content,
+      contentHash: chapter.contentHash,
+      scrapedAt: chapter.updatedAt
+    };
+  }
+
+  const values: number[] = [chapterId];
+  let revisionCondition = '';
+  if (version !== 'latest') {
+    values.push(version);
+    revisionCondition = 'AND id = $2';
+  }
+
+  const result = await runQuery(
+    `
+      SELECT *
+      FROM chapter_revisions
+      WHERE chapter_id = $1 ${revisionCondition}
+      ORDER BY id DESC
+      LIMIT 1
+    `,
+    values
+  );
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const row = result.rows[0];
+  return {
+    revisionId: Number(row.id),
+    title: row.title,
+    content: row.content,
+    contentHash: row.content_hash,
+    scrapedAt: row.scraped_at
+  };
+}
+
 export async function findNovelsMissingData(options: {
   summariesOnly: boolean;
   ratingsOnly: boolean;
@@ -578,7 +1996,7 @@ export async function findNovelsMissingData(options: {
 
   const result = await runQuery(
     `
-      SELECT *
+      SELECT ${NOVEL_COLUMNS}
       FROM novels
       WHERE ${whereClause}
       ORDER BY id ASC
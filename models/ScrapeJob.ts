@@ -0,0 +1,580 @@
+import { runQuery } from './Novel.js';
+
+export type ScrapeJobKind = 'novel' | 'chapter';
+export type ScrapeJobState = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+// Admin-requested novel scrapes run ahead of every scrape target
+export const REQUESTED_SCRAPE_PRIORITY = 1000;
+
+// Done and cancelled chapter tasks are kept this long after they finish, see pruneFinishedChapterJobs
+export const FINISHED_CHAPTER_JOB_RETENTION_DAYS = 7;
+
+export interface IScrapeJob {
+  id: number;
+  kind: ScrapeJobKind;
+  novelUrl: string;
+  novelId: number | null;
+  chapterNumber: number | null;
+  chapterUrl: string | null;
+  state: ScrapeJobState;
+  priority: number;
+  attempts: number;
+  maxAttempts: number;
+  lockedBy: string | null;
+  lockedUntil: Date | null;
+  lastError: string | null;
+  // Novel tasks only: restricts the scrape to these chapter numbers (either end may be open)
+  chapterFrom: number | null;
+  chapterTo: number | null;
+  // Admin who requested the scrape through the API; null for scheduled scrapes
+  requestedBy: string | null;
+  // When the task was last (re-)queued
+  queuedAt: Date;
+  finishedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface NovelScrapeRequest {
+  novelUrl: string;
+  chapterFrom: number | null;
+  chapterTo: number | null;
+  priority: number;
+  requestedBy: string;
+}
+
+export interface NovelScrapeStatus extends IScrapeJob {
+  // Chapter tasks of this request by state: unfinished ones and those finished since the novel task was queued,
+  // within the requested range
+  chapters: Record<ScrapeJobState, number> & { total: number };
+}
+
+const ENQUEUE_BATCH_SIZE = 500;
+
+// Re-enqueueing a task that already finished puts it back in the queue with a fresh attempt budget
+const REQUEUE_FINISHED_SET = `
+  state = 'pending',
+  attempts = 0,
+  locked_by = NULL,
+  locked_until = NULL,
+  last_error = NULL,
+  finished_at = NULL,
+  queued_at = NOW(),
+  updated_at = NOW()
+`;
+
+function mapScrapeJobRow(row: any): IScrapeJob {
+  return {
+    id: Number(row.id),
+    kind: row.kind,
+    novelUrl: row.novel_url,
+    novelId: row.novel_id === null ? null : Number(row.novel_id),
+    chapterNumber: row.chapter_number ?? null,
+    chapterUrl: row.chapter_url ?? null,
+    state: row.state,
+    priority: Number(row.priority),
+    attempts: Number(row.attempts),
+    maxAttempts: Number(row.max_attempts),
+    lockedBy: row.locked_by ?? null,
+    lockedUntil: row.locked_until ?? null,
+    lastError: row.last_error ?? null,
+    chapterFrom: row.chapter_from ?? null,
+    chapterTo: row.chapter_to ?? null,
+    requestedBy: row.requested_by ?? null,
+    queuedAt: row.queued_at,
+    finishedAt: row.finished_at ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+export async function initScrapeJobTables(): Promise<void> {
+  await runQuery(`
+    CREATE TABLE IF NOT EXISTS scrape_jobs (
+      id BIGSERIAL PRIMARY KEY,
+      kind TEXT NOT NULL,
+      novel_url TEXT NOT NULL,
+      novel_id BIGINT REFERENCES novels(id) ON DELETE CASCADE,
+      chapter_number INTEGER,
+      chapter_url TEXT,
+      state TEXT NOT NULL DEFAULT 'pending',
+      priority INTEGER NOT NULL DEFAULT 0,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      max_attempts INTEGER NOT NULL DEFAULT 3,
+      locked_by TEXT,
+      locked_until TIMESTAMPTZ,
+      last_error TEXT,
+      finished_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      CONSTRAINT scrape_jobs_kind CHECK (kind IN ('novel', 'chapter')),
+      CONSTRAINT scrape_jobs_state CHECK (state IN ('pending', 'running', 'done', 'failed', 'cancelled')),
+      CONSTRAINT scrape_jobs_chapter_fields CHECK (
+        kind = 'novel' OR (novel_id IS NOT NULL AND chapter_number IS NOT NULL AND chapter_url IS NOT NULL)
+      )
+    );
+  `);
+
+  await runQuery(`
+    ALTER TABLE scrape_jobs
+    ADD COLUMN IF NOT EXISTS chapter_from INTEGER,
+    ADD COLUMN IF NOT EXISTS chapter_to INTEGER,
+    ADD COLUMN IF NOT EXISTS requested_by TEXT,
+    ADD COLUMN IF NOT EXISTS queued_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+  `);
+
+  // Tables created before 'cancelled' existed; re-adding the constraint validates every row, so only once
+  const stateConstraint = await runQuery(`
+    SELECT pg_get_constraintdef(oid) AS definition
+    FROM pg_constraint
+    WHERE conrelid = 'scrape_jobs'::regclass AND conname = 'scrape_jobs_state'
+  `);
+  if (!String(stateConstraint.rows[0]?.definition ?? '').includes('cancelled')) {
+    await runQuery(`
+      ALTER TABLE scrape_jobs
+      DROP CONSTRAINT IF EXISTS scrape_jobs_state,
+      ADD CONSTRAINT scrape_jobs_state CHECK (state IN ('pending', 'running', 'done', 'failed', 'cancelled'));
+    `);
+  }
+
+  await runQuery(`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_scrape_jobs_novel_task
+    ON scrape_jobs (novel_url) WHERE kind = 'novel';
+  `);
+
+  await runQuery(`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_scrape_jobs_chapter_task
+    ON scrape_jobs (novel_id, chapter_number) WHERE kind = 'chapter';
+  `);
+
+  await runQuery(`
+    CREATE INDEX IF NOT EXISTS idx_scrape_jobs_claimable
+    ON scrape_jobs (kind, state, priority DESC, id);
+  `);
+}
+
+/**
+ * Queues one novel task per URL. Tasks that are still pending or running are left alone;
+ * finished ones are reset to pending as a full scrape of the novel.
+ * @returns Number of tasks inserted or re-queued
+ */
+export async function enqueueNovelJobs(
+  novels: Array<{ url: string; priority: number }>
+): Promise<number> {
+  let affected = 0;
+
+  for (let index = 0; index < novels.length; index += ENQUEUE_BATCH_SIZE) {
+    const batch = novels.slice(index, index + ENQUEUE_BATCH_SIZE);
+    const values: Array<string | number> = [];
+    const valuePlaceholders = batch.map((novel, batchIndex) => {
+      const offset = batchIndex * 2;
+      values.push(novel.url, novel.priority);
+      return `('novel', $${offset + 1}, $${offset + 2})`;
+    });
+
+    const result = await runQuery(
+      `
+        INSERT INTO scrape_jobs (kind, novel_url, priority)
+        VALUES ${valuePlaceholders.join(', ')}
+        ON CONFLICT (novel_url) WHERE kind = 'novel' DO UPDATE SET
+          priority = EXCLUDED.priority,
+          chapter_from = NULL,
+          chapter_to = NULL,
+          requested_by = NULL,
+          ${REQUEUE_FINISHED_SET}
+        WHERE scrape_jobs.state IN ('done', 'failed', 'cancelled')
+      `,
+      values
+    );
+    affected += result.rowCount ?? 0;
+  }
+
+  return affected;
+}
+
+/**
+ * Queues one chapter task per chapter. Same re-queue rules as `enqueueNovelJobs`.
+ * @returns Number of tasks inserted or re-queued
+ */
+export async function enqueueChapterJobs(
+  novelId: number,
+  novelUrl: string,
+  chapters: Array<{ chapterNumber: number; url: string }>
+): Promise<number> {
+  let affected = 0;
+
+  for (let index = 0; index < chapters.length; index += ENQUEUE_BATCH_SIZE) {
+    const batch = chapters.slice(index, index + ENQUEUE_BATCH_SIZE);
+    const values: Array<string | number> = [novelId, novelUrl];
+    const valuePlaceholders = batch.map((chapter, batchIndex) => {
+      const offset = 2 + batchIndex * 2;
+      values.push(chapter.chapterNumber, chapter.url);
+      return `('chapter', $2, $1, $${offset + 1}, $${offset + 2})`;
+    });
+
+    const result = await runQuery(
+      `
+        INSERT INTO scrape_jobs (kind, novel_url, novel_id, chapter_number, chapter_url)
+        VALUES ${valuePlaceholders.join(', ')}
+        ON CONFLICT (novel_id, chapter_number) WHERE kind = 'chapter' DO UPDATE SET
+          chapter_url = EXCLUDED.chapter_url,
+          ${REQUEUE_FINISHED_SET}
+        WHERE scrape_jobs.state IN ('done', 'failed', 'cancelled')
+      `,
+      values
+    );
+    affected += result.rowCount ?? 0;
+  }
+
+  return affected;
+}
+
+/**
+ * Marks running tasks whose lease ran out after their last allowed attempt as failed,
+ * so they stop being handed out.
+ * @returns Number of tasks failed
+ */
+export async function failExhaustedJobs(): Promise<number> {
+  const result = await runQuery(
+    `
+      UPDATE scrape_jobs
+      SET
+        state = 'failed',
+        locked_by = NULL,
+        locked_until = NULL,
+        last_error = COALESCE(last_error, 'Lease expired on final attempt'),
+        finished_at = NOW(),
+        updated_at = NOW()
+      WHERE state = 'running' AND locked_until < NOW() AND attempts >= max_attempts
+    `
+  );
+  return result.rowCount ?? 0;
+}
+
+/**
+ * Leases up to `limit` tasks to a worker. Pending tasks and running tasks whose lease has
+ * expired are eligible. Rows locked by a concurrent claim are skipped, so any number of
+ * scraper processes can pull from the queue at once.
+ * @param options.novelId - Restrict chapter claims to one novel
+ * @param options.leaseMs - How long the worker owns the tasks before others may take them
+ */
+export async function claimJobs(options: {
+  kind: ScrapeJobKind;
+  workerId: string;
+  limit: number;
+  leaseMs: number;
+  novelId?: number;
+}): Promise<IScrapeJob[]> {
+  const values: Array<string | number> = [options.kind, options.workerId, options.leaseMs, options.limit];
+  let novelCondition = '';
+  if (options.novelId !== undefined) {
+    values.push(options.novelId);
+    novelCondition = `AND novel_id = $${values.length}`;
+  }
+
+  const result = await runQuery(
+    `
+      UPDATE scrape_jobs
+      SET
+        state = 'running',
+        attempts = attempts + 1,
+        locked_by = $2,
+        locked_until = NOW() + ($3 * INTERVAL '1 millisecond'),
+        updated_at = NOW()
+      WHERE id IN (
+        SELECT id
+        FROM scrape_jobs
+        WHERE kind = $1
+          AND attempts < max_attempts
+          AND (state = 'pending' OR (state = 'running' AND locked_until < NOW()))
+          ${novelCondition}
+        ORDER BY priority DESC, chapter_number ASC NULLS FIRST, id ASC
+        LIMIT $4
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `,
+    values
+  );
+
+  return result.rows
+    .map(mapScrapeJobRow)
+    .sort(
+      (left, right) =>
+        right.priority - left.priority ||
+        (left.chapterNumber ?? 0) - (right.chapterNumber ?? 0) ||
+        left.id - right.id
+    );
+}
+
+/**
+ * @returns Number of tasks the worker still holds; fewer than `jobIds` means the rest were
+ *   cancelled or taken over by another worker
+ */
+export async function extendJobLease(
+  jobIds: number[],
+  workerId: string,
+  leaseMs: number
+): Promise<number> {
+  if (jobIds.length === 0) {
+    return 0;
+  }
+
+  const result = await runQuery(
+    `
+      UPDATE scrape_jobs
+      SET locked_until = NOW() + ($3 * INTERVAL '1 millisecond'), updated_at = NOW()
+      WHERE id = ANY($1::BIGINT[]) AND locked_by = $2 AND state = 'running'
+    `,
+    [jobIds, workerId, leaseMs]
+  );
+  return result.rowCount ?? 0;
+}
+
+export async function completeJobs(jobIds: number[], workerId: string): Promise<void> {
+  if (jobIds.length === 0) {
+    return;
+  }
+
+  await runQuery(
+    `
+      UPDATE scrape_jobs
+      SET
+        state = 'done',
+        locked_by = NULL,
+        locked_until = NULL,
+        last_error = NULL,
+        finished_at = NOW(),
+        updated_at = NOW()
+      WHERE id = ANY($1::BIGINT[]) AND locked_by = $2 AND state = 'running'
+    `,
+    [jobIds, workerId]
+  );
+}
+
+/**
+ * Releases tasks after a failed attempt. They go back to pending while attempts remain,
+ * otherwise (or when `retry` is false) they end up failed.
+ */
+export async function failJobs(
+  jobIds: number[],
+  workerId: string,
+  error: string,
+  options: { retry: boolean } = { retry: true }
+): Promise<void> {
+  if (jobIds.length === 0) {
+    return;
+  }
+
+  await runQuery(
+    `
+      UPDATE scrape_jobs
+      SET
+        state = CASE WHEN $4 AND attempts < max_attempts THEN 'pending' ELSE 'failed' END,
+        finished_at = CASE WHEN $4 AND attempts < max_attempts THEN NULL ELSE NOW() END,
+        locked_by = NULL,
+        locked_until = NULL,
+        last_error = $3,
+        updated_at = NOW()
+      WHERE id = ANY($1::BIGINT[]) AND locked_by = $2 AND state = 'running'
+    `,
+    [jobIds, workerId, error, options.retry]
+  );
+}
+
+/**
+ * Hands running tasks back to the queue without counting the interrupted attempt, e.g. on shutdown
+ */
+export async function releaseJobs(jobIds: number[], workerId: string): Promise<void> {
+  if (jobIds.length === 0) {
+    return;
+  }
+
+  await runQuery(
+    `
+      UPDATE scrape_jobs
+      SET
+        state = 'pending',
+        attempts = GREATEST(attempts - 1, 0),
+        locked_by = NULL,
+        locked_until = NULL,
+        updated_at = NOW()
+      WHERE id = ANY($1::BIGINT[]) AND locked_by = $2 AND state = 'running'
+    `,
+    [jobIds, workerId]
+  );
+}
+
+export async function countJobsByState(
+  kind: ScrapeJobKind
+): Promise<Record<ScrapeJobState, number>> {
+  const result = await runQuery(
+    `
+      SELECT state, COUNT(*)::BIGINT AS total
+      FROM scrape_jobs
+      WHERE kind = $1
+      GROUP BY state
+    `,
+    [kind]
+  );
+
+  const counts: Record<ScrapeJobState, number> = { pending: 0, running: 0, done: 0, failed: 0, cancelled: 0 };
+  for (const row of result.rows) {
+    counts[row.state as ScrapeJobState] = Number(row.total);
+  }
+  return counts;
+}
+
+/**
+ * Deletes chapter tasks that finished as done or cancelled more than `days` ago. Failed tasks are kept
+ * as the record of chapters that could not be scraped; novel tasks are one per novel and reused.
+ * @returns Number of tasks deleted
+ */
+export async function pruneFinishedChapterJobs(days = FINISHED_CHAPTER_JOB_RETENTION_DAYS): Promise<number> {
+  const result = await runQuery(
+    `
+      DELETE FROM scrape_jobs
+      WHERE kind = 'chapter'
+        AND state IN ('done', 'cancelled')
+        AND finished_at < NOW() - make_interval(days => $1)
+    `,
+    [days]
+  );
+  return result.rowCount ?? 0;
+}
+
+/**
+ * Queues a novel scrape requested by an admin, optionally limited to a chapter range. A pending
+ * task for the novel takes over the request; a running one is left alone.
+ * @returns The queued task, or null when the novel is already being scraped
+ */
+export async function requestNovelScrape(request: NovelScrapeRequest): Promise<IScrapeJob | null> {
+  const result = await runQuery(
+    `
+      INSERT INTO scrape_jobs (kind, novel_url, priority, chapter_from, chapter_to, requested_by)
+      VALUES ('novel', $1, $2, $3, $4, $5)
+      ON CONFLICT (novel_url) WHERE kind = 'novel' DO UPDATE SET
+        priority = EXCLUDED.priority,
+        chapter_from = EXCLUDED.chapter_from,
+        chapter_to = EXCLUDED.chapter_to,
+        requested_by = EXCLUDED.requested_by,
+        ${REQUEUE_FINISHED_SET}
+      WHERE scrape_jobs.state <> 'running'
+      RETURNING *
+    `,
+    [request.novelUrl, request.priority, request.chapterFrom, request.chapterTo, request.requestedBy]
+  );
+
+  return result.rows.length > 0 ? mapScrapeJobRow(result.rows[0]) : null;
+}
+
+export async function getNovelJob(jobId: number): Promise<IScrapeJob | null> {
+  const result = await runQuery(
+    `
+      SELECT *
+      FROM scrape_jobs
+      WHERE id = $1 AND kind = 'novel'
+    `,
+    [jobId]
+  );
+
+  return result.rows.length > 0 ? mapScrapeJobRow(result.rows[0]) : null;
+}
+
+export async function getNovelJobByUrl(novelUrl: string): Promise<IScrapeJob | null> {
+  const result = await runQuery(
+    `
+      SELECT *
+      FROM scrape_jobs
+      WHERE kind = 'novel' AND novel_url = $1
+      LIMIT 1
+    `,
+    [novelUrl]
+  );
+
+  return result.rows.length > 0 ? mapScrapeJobRow(result.rows[0]) : null;
+}
+
+// Chapter tasks that belong to a novel task's current request: same novel, within its chapter range if it
+// has one, and either still to do or finished since the novel task was queued (not by an earlier scrape)
+const NOVEL_CHAPTER_JOBS_CONDITION = `
+  chapter.kind = 'chapter'
+  AND chapter.novel_url = novel.novel_url
+  AND (chapter.state IN ('pending', 'running') OR chapter.updated_at >= novel.queued_at)
+  AND (novel.chapter_from IS NULL OR chapter.chapter_number >= novel.chapter_from)
+  AND (novel.chapter_to IS NULL OR chapter.chapter_number <= novel.chapter_to)
+`;
+
+/**
+ * A novel task with the chapter tasks of its current request counted by state
+ * @returns null when there is no novel task with that id
+ */
+export async function getNovelScrapeStatus(jobId: number): Promise<NovelScrapeStatus | null> {
+  const job = await getNovelJob(jobId);
+  if (!job) {
+    return null;
+  }
+
+  const countResult = await runQuery(
+    `
+      SELECT chapter.state, COUNT(*)::BIGINT AS total
+      FROM scrape_jobs novel
+      JOIN scrape_jobs chapter ON ${NOVEL_CHAPTER_JOBS_CONDITION}
+      WHERE novel.id = $1
+      GROUP BY chapter.state
+    `,
+    [jobId]
+  );
+
+  const chapters = { pending: 0, running: 0, done: 0, failed: 0, cancelled: 0, total: 0 };
+  for (const row of countResult.rows) {
+    chapters[row.state as ScrapeJobState] = Number(row.total);
+    chapters.total += Number(row.total);
+  }
+
+  return { ...job, chapters };
+}
+
+/**
+ * Cancels a pending or running novel task and its unfinished chapter tasks. A worker scraping the
+ * novel stops after its current chapter batch.
+ * @returns The cancelled task, or null when there is no unfinished novel task with that id
+ */
+export async function cancelNovelScrape(jobId: number): Promise<IScrapeJob | null> {
+  const result = await runQuery(
+    `
+      UPDATE scrape_jobs
+      SET
+        state = 'cancelled',
+        locked_by = NULL,
+        locked_until = NULL,
+        finished_at = NOW(),
+        updated_at = NOW()
+      WHERE id = $1 AND kind = 'novel' AND state IN ('pending', 'running')
+      RETURNING *
+    `,
+    [jobId]
+  );
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  await runQuery(
+    `
+      UPDATE scrape_jobs chapter
+      SET
+        state = 'cancelled',
+        locked_by = NULL,
+        locked_until = NULL,
+        finished_at = NOW(),
+        updated_at = NOW()
+      FROM scrape_jobs novel
+      WHERE novel.id = $1
+        AND ${NOVEL_CHAPTER_JOBS_CONDITION}
+        AND chapter.state IN ('pending', 'running')
+    `,
+    [jobId]
+  );
+
+  return mapScrapeJobRow(result.rows[0]);
+}
@@ -0,0 +1,116 @@
+import { runQuery } from './Novel.js';
+
+/**
+ * novel_started - a worker claimed the novel task
+ * chapters_queued - the novel page was read and its chapter tasks queued
+ * batch_saved - a chapter batch was scraped and saved
+ * chapter_empty - a chapter came back without content
+ * retry - a request for the novel failed and is retried
+ * novel_finished - the worker is done with the novel task, whatever the outcome
+ */
+export type ScrapeJobEventType =
+  | 'novel_started'
+  | 'chapters_queued'
+  | 'batch_saved'
+  | 'chapter_empty'
+  | 'retry'
+  | 'novel_finished';
+
+export interface IScrapeJobEvent {
+  id: number;
+  jobId: number;
+  type: ScrapeJobEventType;
+  data: Record<string, unknown>;
+  createdAt: Date;
+}
+
+// Events outlive their scrape by this long, see pruneScrapeJobEvents
+export const SCRAPE_JOB_EVENT_RETENTION_DAYS = 7;
+
+function mapScrapeJobEventRow(row: any): IScrapeJobEvent {
+  return {
+    id: Number(row.id),
+    jobId: Number(row.job_id),
+    type: row.type,
+    data: row.data ?? {},
+    createdAt: row.created_at
+  };
+}
+
+export async function initScrapeJobEventTables(): Promise<void> {
+  await runQuery(`
+    CREATE TABLE IF NOT EXISTS scrape_job_events (
+      id BIGSERIAL PRIMARY KEY,
+      job_id BIGINT NOT NULL REFERENCES scrape_jobs(id) ON DELETE CASCADE,
+      type TEXT NOT NULL,
+      data JSONB NOT NULL DEFAULT '{}',
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+  `);
+
+  await runQuery(`
+    CREATE INDEX IF NOT EXISTS idx_scrape_job_events_job
+    ON scrape_job_events (job_id, id);
+  `);
+}
+
+export async function recordScrapeJobEvent(
+  jobId: number,
+  type: ScrapeJobEventType,
+  data: Record<string, unknown>
+): Promise<void> {
+  await runQuery(
+    `
+      INSERT INTO scrape_job_events (job_id, type, data)
+      VALUES ($1, $2, $3)
+    `,
+    [jobId, type, JSON.stringify(data)]
+  );
+}
+
+/**
+ * Events of a novel task in the order they happened
+ * @param afterId - Only events after this one; null starts at the task's latest `novel_started`
+ */
+export async function listScrapeJobEvents(
+  jobId: number,
+  afterId: number | null,
+  limit: number
+): Promise<IScrapeJobEvent[]> {
+  const result = await runQuery(
+    `
+      SELECT *
+      FROM scrape_job_events
+      WHERE job_id = $1
+        AND id > COALESCE(
+          $2::BIGINT,
+          (
+            SELECT MAX(id) - 1
+            FROM scrape_job_events
+            WHERE job_id = $1 AND type = 'novel_started'
+          ),
+          0
+        )
+      ORDER BY id ASC
+      LIMIT $3
+    `,
+    [jobId, afterId, limit]
+  );
+
+  return result.rows.map(mapScrapeJobEventRow);
+}
+
+/**
+ * Deletes events older than `days`
+ * @returns Number of events deleted
+ */
+export async function pruneScrapeJobEvents(days = SCRAPE_JOB_EVENT_RETENTION_DAYS): Promise<number> {
+  const result = await runQuery(
+    `
+      DELETE FROM scrape_job_events
+      WHERE created_at < NOW() - make_interval(days => $1)
+    `,
+    [days]
+  );
+  return result.rowCount ?? 0;
+}
@@ -0,0 +1,370 @@
+import { ListOptions, PaginatedResult, runQuery } from './Novel.js';
+import { ScrapeRunStatus } from './ScrapeTarget.js';
+import { HostRateLimitState } from '../utils/rate-limiter.js';
+
+export type ScrapeRunState = 'running' | 'completed' | 'failed';
+
+// The scraper's run counters, as printed in its end-of-run summary
+export interface ScrapeRunCounters {
+  urlsAttempted: number;
+  novelsProcessed: number;
+  novelsSkippedOrFailed: number;
+  chaptersAttempted: number;
+  chaptersScrapedSuccess: number;
+  chaptersWithEmptyContent: number;
+  chaptersScrapedError: number;
+  dbNovelUpdateSuccess: number;
+  dbChapterUpdateSuccess: number;
+  dbChaptersUnchanged: number;
+  dbErrors: number;
+}
+
+export interface IScrapeRun extends ScrapeRunCounters {
+  id: string;
+  workerId: string;
+  state: ScrapeRunState;
+  // CLI options the run was started with, e.g. { backfillGaps: true, httpMode: "replay" }
+  options: Record<string, unknown>;
+  error: string | null;
+  startedAt: Date;
+  finishedAt: Date | null;
+  durationSeconds: number | null;
+  // Per-host rate limiter state at the end of the run
+  rateLimits: HostRateLimitState[];
+}
+
+export interface IScrapeRunNovel {
+  id: number;
+  runId: string;
+  novelUrl: string;
+  novelId: number | null;
+  status: ScrapeRunStatus;
+  error: string | null;
+  chaptersAttempted: number;
+  chaptersSaved: number;
+  chaptersUnchanged: number;
+  chaptersEmpty: number;
+  chapterErrors: number;
+  dbErrors: number;
+  startedAt: Date;
+  finishedAt: Date;
+  durationMs: number;
+}
+
+export type ScrapeRunNovelInput = Omit<IScrapeRunNovel, 'id' | 'runId' | 'durationMs'>;
+
+const COUNTER_COLUMNS: Array<[keyof ScrapeRunCounters, string]> = [
+  ['urlsAttempted', 'urls_attempted'],
+  ['novelsProcessed', 'novels_processed'],
+  ['novelsSkippedOrFailed', 'novels_skipped_or_failed'],
+  ['chaptersAttempted', 'chapters_attempted'],
+  ['chaptersScrapedSuccess', 'chapters_scraped_success'],
+  ['chaptersWithEmptyContent', 'chapters_with_empty_content'],
+  ['chaptersScrapedError', 'chapters_scraped_error'],
+  ['dbNovelUpdateSuccess', 'db_novel_update_success'],
+  ['dbChapterUpdateSuccess', 'db_chapter_update_success'],
+  ['dbChaptersUnchanged', 'db_chapters_unchanged'],
+  ['dbErrors', 'db_errors']
+];
+
+function mapScrapeRunRow(row: any): IScrapeRun {
+  const counters = Object.fromEntries(
+    COUNTER_COLUMNS.map(([field, column]) => [field, Number(row[column])])
+  ) as unknown as ScrapeRunCounters;
+
+  return {
+    id: row.id,
+    workerId: row.worker_id,
+    state: row.state,
+    options: row.options ?? {},
+    error: row.error ?? null,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at ?? null,
+    durationSeconds: row.duration_seconds === null ? null : Number(row.duration_seconds),
+    rateLimits: row.rate_limits ?? [],
+    ...counters
+  };
+}
+
+function mapScrapeRunNovelRow(row: any): IScrapeRunNovel {
+  return {
+    id: Number(row.id),
+    runId: row.run_id,
+    novelUrl: row.novel_url,
+    novelId: row.novel_id === null ? null : Number(row.novel_id),
+    status: row.status,
+    error: row.error ?? null,
+    chaptersAttempted: Number(row.chapters_attempted),
+    chaptersSaved: Number(row.chapters_saved),
+    chaptersUnchanged: Number(row.chapters_unchanged),
+    chaptersEmpty: Number(row.chapters_empty),
+    chapterErrors: Number(row.chapter_errors),
+    dbErrors: Number(row.db_errors),
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    durationMs: Number(row.duration_ms)
+  };
+}
+
+export async function initScrapeRunTables(): Promise<void> {
+  await runQuery(`
+    CREATE TABLE IF NOT EXISTS scrape_runs (
+      id TEXT PRIMARY KEY,
+      worker_id TEXT NOT NULL,
+      state TEXT NOT NULL DEFAULT 'running',
+      options JSONB NOT NULL DEFAULT '{}'::jsonb,
+      error TEXT,
+      started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      finished_at TIMESTAMPTZ,
+      duration_seconds DOUBLE PRECISION,
+      rate_limits JSONB NOT NULL DEFAULT '[]'::jsonb,
+      ${COUNTER_COLUMNS.map(([, column]) => `${column} INTEGER NOT NULL DEFAULT 0`).join(',\n      ')},
+      CONSTRAINT scrape_runs_state CHECK (state IN ('running', 'completed', 'failed'))
+    );
+  `);
+
+  await runQuery(`
+    ALTER TABLE scrape_runs ADD COLUMN IF NOT EXISTS rate_limits JSONB NOT NULL DEFAULT '[]'::jsonb;
+  `);
+
+  await runQuery(`
+    CREATE INDEX IF NOT EXISTS idx_scrape_runs_started_at
+    ON scrape_runs (started_at DESC);
+  `);
+
+  await runQuery(`
+    CREATE TABLE IF NOT EXISTS scrape_run_novels (
+      id BIGSERIAL PRIMARY KEY,
+      run_id TEXT NOT NULL REFERENCES scrape_runs(id) ON DELETE CASCADE,
+      novel_url TEXT NOT NULL,
+      novel_id BIGINT REFERENCES novels(id) ON DELETE SET NULL,
+      status TEXT NOT NULL,
+      error TEXT,
+      chapters_attempted INTEGER NOT NULL DEFAULT 0,
+      chapters_saved INTEGER NOT NULL DEFAULT 0,
+      chapters_unchanged INTEGER NOT NULL DEFAULT 0,
+      chapters_empty INTEGER NOT NULL DEFAULT 0,
+      chapter_errors INTEGER NOT NULL DEFAULT 0,
+      db_errors INTEGER NOT NULL DEFAULT 0,
+      started_at TIMESTAMPTZ NOT NULL,
+      finished_at TIMESTAMPTZ NOT NULL,
+      CONSTRAINT scrape_run_novels_status CHECK (status IN ('success', 'skipped', 'failed'))
+    );
+  `);
+
+  await runQuery(`
+    CREATE INDEX IF NOT EXISTS idx_scrape_run_novels_run
+    ON scrape_run_novels (run_id, id);
+  `);
+}
+
+export async function createScrapeRun(
+  runId: string,
+  workerId: string,
+  options: Record<string, unknown>
+): Promise<IScrapeRun> {
+  const result = await runQuery(
+    `
+      INSERT INTO scrape_runs (id, worker_id, options)
+      VALUES ($1, $2, $3)
+      RETURNING *
+    `,
+    [runId, workerId, JSON.stringify(options)]
+  );
+  return mapScrapeRunRow(result.rows[0]);
+}
+
+/**
+ * Stores a run's counters so far; called as the run progresses so a crashed run still shows its progress
+ */
+export async function updateScrapeRunCounters(runId: string, counters: ScrapeRunCounters): Promise<void> {
+  const values: Array<string | number> = [runId];
+  const assignments = COUNTER_COLUMNS.map(([field, column]) => {
+    values.push(counters[field]);
+    return `${column} = $${values.length}`;
+  });
+
+  await runQuery(
+    `
+      UPDATE scrape_runs
+      SET ${assignments.join(', ')}
+      WHERE id = $1
+    `,
+    values
+  );
+}
+
+export async function finishScrapeRun(
+  runId: string,
+  counters: ScrapeRunCounters,
+  outcome: {
+    state: Exclude<ScrapeRunState, 'running'>;
+    error: string | null;
+    rateLimits?: HostRateLimitState[];
+  }
+): Promise<void> {
+  await updateScrapeRunCounters(runId, counters);
+  await runQuery(
+    `
+      UPDATE scrape_runs
+      SET
+        state = $2,
+        error = $3,
+        rate_limits = $4,
+        finished_at = NOW(),
+        duration_seconds = EXTRACT(EPOCH FROM NOW() - started_at)
+      WHERE id = $1
+    `,
+    [runId, outcome.state, outcome.error, JSON.stringify(outcome.rateLimits ?? [])]
+  );
+}
+
+export async function recordScrapeRunNovel(runId: string, novel: ScrapeRunNovelInput): Promise<void> {
+  await runQuery(
+    `
+      INSERT INTO scrape_run_novels (
+        run_id, novel_url, novel_id, status, error,
+        chapters_attempted, chapters_saved, chapters_unchanged, chapters_empty, chapter_errors, db_errors,
+        started_at, finished_at
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+    `,
+    [
+      runId,
+      novel.novelUrl,
+      novel.novelId,
+      novel.status,
+      novel.error,
+      novel.chaptersAttempted,
+      novel.chaptersSaved,
+      novel.chaptersUnchanged,
+      novel.chaptersEmpty,
+      novel.chapterErrors,
+      novel.dbErrors,
+      novel.startedAt,
+      novel.finishedAt
+    ]
+  );
+}
+
+function buildRunFilter(options: { state?: ScrapeRunState; since?: Date; until?: Date }): {
+  whereClause: string;
+  values: Array<string | Date>;
+} {
+  const values: Array<string | Date> = [];
+  const conditions: string[] = [];
+
+  if (options.state) {
+    values.push(options.state);
+    conditions.push(`state = $${values.length}`);
+  }
+  if (options.since) {
+    values.push(options.since);
+    conditions.push(`started_at >= $${values.length}`);
+  }
+  if (options.until) {
+    values.push(options.until);
+    conditions.push(`started_at < $${values.length}`);
+  }
+
+  return { whereClause: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', values };
+}
+
+/**
+ * Lists runs, newest first
+ */
+export async function listScrapeRuns(
+  options: ListOptions & { state?: ScrapeRunState }
+): Promise<PaginatedResult<IScrapeRun>> {
+  const { whereClause, values } = buildRunFilter(options);
+
+  const countResult = await runQuery(
+    `
+      SELECT COUNT(*)::BIGINT AS total
+      FROM scrape_runs
+      ${whereClause}
+    `,
+    values
+  );
+
+  const listValues: Array<string | Date | number> = [...values];
+  let limitClause = '';
+  if (options.limit !== undefined) {
+    listValues.push(options.limit);
+    limitClause = `LIMIT $${listValues.length}`;
+  }
+
+  let offsetClause = '';
+  if (options.offset !== undefined) {
+    listValues.push(options.offset);
+    offsetClause = `OFFSET $${listValues.length}`;
+  }
+
+  const result = await runQuery(
+    `
+      SELECT *
+      FROM scrape_runs
+      ${whereClause}
+      ORDER BY started_at DESC, id
+      ${limitClause}
+      ${offsetClause}
+    `,
+    listValues
+  );
+
+  return {
+    data: result.rows.map(mapScrapeRunRow),
+    total: Number(countResult.rows[0]?.total ?? 0)
+  };
+}
+
+export async function getScrapeRun(
+  runId: string
+): Promise<(IScrapeRun & { novels: IScrapeRunNovel[] }) | null> {
+  const runResult = await runQuery(
+    `
+      SELECT *
+      FROM scrape_runs
+      WHERE id = $1
+    `,
+    [runId]
+  );
+
+  if (runResult.rows.length === 0) {
+    return null;
+  }
+
+  const novelsResult = await runQuery(
+    `
+      SELECT *, (EXTRACT(EPOCH FROM finished_at - started_at) * 1000)::BIGINT AS duration_ms
+      FROM scrape_run_novels
+      WHERE run_id = $1
+      ORDER BY id
+    `,
+    [runId]
+  );
+
+  return {
+    ...mapScrapeRunRow(runResult.rows[0]),
+    novels: novelsResult.rows.map(mapScrapeRunNovelRow)
+  };
+}
+
+/**
+ * Every run started in a time range, oldest first, for charting trends
+ * @param options.since - Only runs started at or after this time
+ * @param options.until - Only runs started before this time
+ */
+export async function exportScrapeRuns(options: { since?: Date; until?: Date }): Promise<IScrapeRun[]> {
+  const { whereClause, values } = buildRunFilter(options);
+  const result = await runQuery(
+    `
+      SELECT *
+      FROM scrape_runs
+      ${whereClause}
+      ORDER BY started_at ASC, id
+    `,
+    values
+  );
+  return result.rows.map(mapScrapeRunRow);
+}
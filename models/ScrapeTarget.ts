@@ -0,0 +1,380 @@
+import { normalizeNovelStatus } from '../utils/novel-stats.js';
+import { ListOptions, PaginatedResult, runQuery } from './Novel.js';
+
+export type ScrapeRunStatus = 'success' | 'skipped' | 'failed';
+
+export interface IScrapeTarget {
+  id: number;
+  url: string;
+  title: string | null;
+  priority: number;
+  enabled: boolean;
+  lastRunAt: Date | null;
+  lastRunStatus: ScrapeRunStatus | null;
+  lastError: string | null;
+  // Overrides the interval derived from the novel's status, see scheduleIntervalMinutes
+  scheduleIntervalMinutes: number | null;
+  // When the daemon next picks the target up; null means as soon as possible
+  nextRunAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ScrapeTargetInput {
+  url: string;
+  title?: string | null;
+  priority?: number;
+  enabled?: boolean;
+  scheduleIntervalMinutes?: number | null;
+}
+
+export interface ScrapeTargetFields {
+  title?: string | null;
+  priority?: number;
+  enabled?: boolean;
+  scheduleIntervalMinutes?: number | null;
+}
+
+const SEED_BATCH_SIZE = 500;
+
+// Default daemon schedule, in minutes; see scheduleIntervalMinutes
+export const SCHEDULE_INTERVALS = {
+  popularOngoing: 60,
+  ongoing: 6 * 60,
+  completed: 7 * 24 * 60,
+  unknown: 24 * 60,
+  failed: 60
+};
+
+// Targets at or above this priority count as popular
+export const POPULAR_PRIORITY = Number(process.env.SCRAPE_POPULAR_PRIORITY ?? 10);
+
+function mapScrapeTargetRow(row: any): IScrapeTarget {
+  return {
+    id: Number(row.id),
+    url: row.url,
+    title: row.title ?? null,
+    priority: Number(row.priority),
+    enabled: Boolean(row.enabled),
+    lastRunAt: row.last_run_at ?? null,
+    lastRunStatus: row.last_run_status ?? null,
+    lastError: row.last_error ?? null,
+    scheduleIntervalMinutes:
+      row.schedule_interval_minutes === null || row.schedule_interval_minutes === undefined
+        ? null
+        : Number(row.schedule_interval_minutes),
+    nextRunAt: row.next_run_at ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+export async function initScrapeTargetTables(): Promise<void> {
+  await runQuery(`
+    CREATE TABLE IF NOT EXISTS scrape_targets (
+      id BIGSERIAL PRIMARY KEY,
+      url TEXT NOT NULL UNIQUE,
+      title TEXT,
+      priority INTEGER NOT NULL DEFAULT 0,
+      enabled BOOLEAN NOT NULL DEFAULT true,
+      last_run_at TIMESTAMPTZ,
+      last_run_status TEXT,
+      last_error TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      CONSTRAINT scrape_targets_run_status CHECK (
+        last_run_status IS NULL OR last_run_status IN ('success', 'skipped', 'failed')
+      )
+    );
+  `);
+
+  await runQuery(`
+    ALTER TABLE scrape_targets
+    ADD COLUMN IF NOT EXISTS schedule_interval_minutes INTEGER,
+    ADD COLUMN IF NOT EXISTS next_run_at TIMESTAMPTZ;
+  `);
+
+  await runQuery(`
+    CREATE INDEX IF NOT EXISTS idx_scrape_targets_enabled_priority
+    ON scrape_targets (enabled, priority DESC, id);
+  `);
+
+  await runQuery(`
+    CREATE INDEX IF NOT EXISTS idx_scrape_targets_next_run
+    ON scrape_targets (next_run_at)
+    WHERE enabled;
+  `);
+}
+
+/**
+ * Minutes until a target is due again after a run: its own override if set, an hour after a
+ * failure, otherwise by the novel's status (weekly once completed, hourly for popular ongoing novels)
+ * @param novelStatus - `status` of the scraped novel, as shown on the source site
+ */
+export function scheduleIntervalMinutes(
+  target: Pick<IScrapeTarget, 'priority' | 'scheduleIntervalMinutes'>,
+  runStatus: ScrapeRunStatus,
+  novelStatus: string | null
+): number {
+  if (target.scheduleIntervalMinutes !== null) {
+    return target.scheduleIntervalMinutes;
+  }
+  if (runStatus === 'failed') {
+    return SCHEDULE_INTERVALS.failed;
+  }
+
+  const status = normalizeNovelStatus(novelStatus);
+  if (status === 'completed') {
+    return SCHEDULE_INTERVALS.completed;
+  }
+  if (status === 'ongoing') {
+    return target.priority >= POPULAR_PRIORITY ? SCHEDULE_INTERVALS.popularOngoing : SCHEDULE_INTERVALS.ongoing;
+  }
+  return SCHEDULE_INTERVALS.unknown;
+}
+
+/**
+ * Inserts scrape targets in batches.
+ * @param targets - Targets to insert
+ * @param options.overwrite - When true, existing targets take the new title/priority/enabled values;
+ *   otherwise rows that already exist are left untouched
+ * @returns Number of rows inserted or updated
+ */
+export async function upsertScrapeTargets(
+  targets: ScrapeTargetInput[],
+  options: { overwrite: boolean }
+): Promise<number> {
+  // A batch may not touch the same row twice, so keep only the last entry per URL
+  const uniqueTargets = Array.from(new Map(targets.map((target) => [target.url, target])).values());
+  let affected = 0;
+
+  for (let index = 0; index < uniqueTargets.length; index += SEED_BATCH_SIZE) {
+    const batch = uniqueTargets.slice(index, index + SEED_BATCH_SIZE);
+    const values: Array<string | number | boolean | null> = [];
+    const valuePlaceholders = batch.map((target, batchIndex) => {
+      const offset = batchIndex * 5;
+      values.push(
+        target.url,
+        target.title ?? null,
+        target.priority ?? 0,
+        target.enabled ?? true,
+        target.scheduleIntervalMinutes ?? null
+      );
+      return `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5})`;
+    });
+
+    const conflictClause = options.overwrite
+      ? `ON CONFLICT (url) DO UPDATE SET
+          title = COALESCE(EXCLUDED.title, scrape_targets.title),
+          priority = EXCLUDED.priority,
+          enabled = EXCLUDED.enabled,
+          schedule_interval_minutes = COALESCE(
+            EXCLUDED.schedule_interval_minutes,
+            scrape_targets.schedule_interval_minutes
+          ),
+          updated_at = NOW()`
+      : 'ON CONFLICT (url) DO NOTHING';
+
+    const result = await runQuery(
+      `
+        INSERT INTO scrape_targets (url, title, priority, enabled, schedule_interval_minutes)
+        VALUES ${valuePlaceholders.join(', ')}
+        ${conflictClause}
+      `,
+      values
+    );
+    affected += result.rowCount ?? 0;
+  }
+
+  return affected;
+}
+
+export async function listScrapeTargets(
+  options: ListOptions & { enabled?: boolean }
+): Promise<PaginatedResult<IScrapeTarget>> {
+  const values: Array<boolean | number> = [];
+  const conditions: string[] = [];
+
+  if (options.enabled !== undefined) {
+    values.push(options.enabled);
+    conditions.push(`enabled = $${values.length}`);
+  }
+
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const countResult = await runQuery(
+    `
+      SELECT COUNT(*)::BIGINT AS total
+      FROM scrape_targets
+      ${whereClause}
+    `,
+    values
+  );
+
+  const listValues = [...values];
+  let limitClause = '';
+  if (options.limit !== undefined) {
+    listValues.push(options.limit);
+    limitClause = `LIMIT $${listValues.length}`;
+  }
+
+  let offsetClause = '';
+  if (options.offset !== undefined) {
+    listValues.push(options.offset);
+    offsetClause = `OFFSET $${listValues.length}`;
+  }
+
+  const result = await runQuery(
+    `
+      SELECT *
+      FROM scrape_targets
+      ${whereClause}
+      ORDER BY priority DESC, id ASC
+      ${limitClause}
+      ${offsetClause}
+    `,
+    listValues
+  );
+
+  return {
+    data: result.rows.map(mapScrapeTargetRow),
+    total: Number(countResult.rows[0]?.total ?? 0)
+  };
+}
+
+export async function getScrapeTargetByUrl(url: string): Promise<IScrapeTarget | null> {
+  const result = await runQuery(
+    `
+      SELECT *
+      FROM scrape_targets
+      WHERE url = $1
+      LIMIT 1
+    `,
+    [url]
+  );
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  return mapScrapeTargetRow(result.rows[0]);
+}
+
+/**
+ * Enabled targets whose next run is due, highest priority first
+ */
+export async function listDueScrapeTargets(limit: number): Promise<IScrapeTarget[]> {
+  const result = await runQuery(
+    `
+      SELECT *
+      FROM scrape_targets
+      WHERE enabled AND (next_run_at IS NULL OR next_run_at <= NOW())
+      ORDER BY priority DESC, next_run_at ASC NULLS FIRST, id ASC
+      LIMIT $1
+    `,
+    [limit]
+  );
+
+  return result.rows.map(mapScrapeTargetRow);
+}
+
+// When the earliest enabled target that is not yet due comes due, or null if none is scheduled
+export async function getNextScheduledRunAt(): Promise<Date | null> {
+  const result = await runQuery(`
+    SELECT MIN(next_run_at) AS next_run_at
+    FROM scrape_targets
+    WHERE enabled AND next_run_at > NOW()
+  `);
+
+  return result.rows[0]?.next_run_at ?? null;
+}
+
+export async function updateScrapeTarget(
+  targetId: number,
+  fields: ScrapeTargetFields
+): Promise<IScrapeTarget | null> {
+  const updates: string[] = [];
+  const values: any[] = [];
+
+  if (fields.title !== undefined) {
+    values.push(fields.title);
+    updates.push(`title = $${values.length}`);
+  }
+  if (fields.priority !== undefined) {
+    values.push(fields.priority);
+    updates.push(`priority = $${values.length}`);
+  }
+  if (fields.enabled !== undefined) {
+    values.push(fields.enabled);
+    updates.push(`enabled = $${values.length}`);
+  }
+  if (fields.scheduleIntervalMinutes !== undefined) {
+    values.push(fields.scheduleIntervalMinutes);
+    updates.push(`schedule_interval_minutes = $${values.length}`);
+    // A new interval takes effect from the last run rather than after the next one
+    if (fields.scheduleIntervalMinutes !== null) {
+      updates.push(`next_run_at = COALESCE(last_run_at, NOW()) + make_interval(mins => $${values.length})`);
+    }
+  }
+
+  values.push(targetId);
+  const result = await runQuery(
+    `
+      UPDATE scrape_targets
+      SET ${[...updates, 'updated_at = NOW()'].join(', ')}
+      WHERE id = $${values.length}
+      RETURNING *
+    `,
+    values
+  );
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  return mapScrapeTargetRow(result.rows[0]);
+}
+
+/**
+ * Records a run's outcome and schedules the target's next run, see scheduleIntervalMinutes
+ */
+export async function recordScrapeTargetRun(
+  url: string,
+  status: ScrapeRunStatus,
+  error: string | null
+): Promise<void> {
+  const result = await runQuery(
+    `
+      SELECT t.priority, t.schedule_interval_minutes, n.status AS novel_status
+      FROM scrape_targets t
+      LEFT JOIN novels n ON n.novel_url = t.url
+      WHERE t.url = $1
+      LIMIT 1
+    `,
+    [url]
+  );
+  const row = result.rows[0];
+  if (!row) {
+    return;
+  }
+
+  const intervalMinutes = scheduleIntervalMinutes(
+    {
+      priority: Number(row.priority),
+      scheduleIntervalMinutes:
+        row.schedule_interval_minutes === null ? null : Number(row.schedule_interval_minutes)
+    },
+    status,
+    row.novel_status ?? null
+  );
+
+  await runQuery(
+    `
+      UPDATE scrape_targets
+      SET last_run_at = NOW(), last_run_status = $2, last_error = $3,
+        next_run_at = NOW() + make_interval(mins => $4), updated_at = NOW()
+      WHERE url = $1
+    `,
+    [url, status, error, intervalMinutes]
+  );
+}
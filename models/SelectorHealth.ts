@@ -0,0 +1,307 @@
+import { runQuery } from './Novel.js';
+
+// A winning selector whose share of extractions grew by at least this much is reported as drift
+export const DEFAULT_DRIFT_THRESHOLD = 0.15;
+// Too few extractions on either side of the comparison say nothing about drift
+const MIN_WINDOW_EXTRACTIONS = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RECORD_BATCH_SIZE = 500;
+
+// Two weeks of history, the last two days compared against the twelve before them
+export const DEFAULT_HEALTH_DAYS = 14;
+export const DEFAULT_HEALTH_RECENT_DAYS = 2;
+
+// How often one selector won a field during a run; selectorIndex -1 / selector null counts misses
+export interface SelectorHitCount {
+  source: string;
+  profileVersion: number;
+  field: string;
+  selectorIndex: number;
+  selector: string | null;
+  hits: number;
+}
+
+export interface SelectorShare {
+  selector: string | null;
+  // Position in the profile's fallback list (0 = primary); -1 when every selector failed
+  selectorIndex: number;
+  hits: number;
+  share: number;
+}
+
+export interface DailyFieldHealth {
+  day: string;
+  extractions: number;
+  primaryRate: number;
+  fallbackRate: number;
+  missRate: number;
+}
+
+export interface FieldHealth {
+  source: string;
+  field: string;
+  extractions: number;
+  primaryRate: number;
+  fallbackRate: number;
+  missRate: number;
+  selectors: SelectorShare[];
+  daily: DailyFieldHealth[];
+}
+
+export interface DriftWarning {
+  source: string;
+  field: string;
+  // Fallback selector whose share is rising; null when the rise is in outright misses
+  selector: string | null;
+  recentShare: number;
+  baselineShare: number;
+  recentExtractions: number;
+  message: string;
+}
+
+export interface ExtractionHealthReport {
+  days: number;
+  recentDays: number;
+  runs: number;
+  fields: FieldHealth[];
+  warnings: DriftWarning[];
+}
+
+export async function initSelectorHealthTables(): Promise<void> {
+  await runQuery(`
+    CREATE TABLE IF NOT EXISTS selector_hits (
+      run_id TEXT NOT NULL,
+      source TEXT NOT NULL,
+      profile_version INTEGER NOT NULL,
+      field TEXT NOT NULL,
+      selector_index INTEGER NOT NULL,
+      selector TEXT,
+      hits INTEGER NOT NULL DEFAULT 0,
+      recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (run_id, source, profile_version, field, selector_index)
+    );
+  `);
+
+  await runQuery(`
+    CREATE INDEX IF NOT EXISTS idx_selector_hits_recorded_at
+    ON selector_hits (recorded_at);
+  `);
+}
+
+/**
+ * Adds selector hit counts to a run's totals
+ * @param runId - Identifier of the scraper or updater run
+ * @param counts - Hits accumulated since the last call
+ */
+export async function recordSelectorHits(runId: string, counts: SelectorHitCount[]): Promise<void> {
+  for (let index = 0; index < counts.length; index += RECORD_BATCH_SIZE) {
+    const batch = counts.slice(index, index + RECORD_BATCH_SIZE);
+    const values: Array<string | number | null> = [];
+    const valuePlaceholders = batch.map((count, batchIndex) => {
+      const offset = batchIndex * 7;
+      values.push(
+        runId,
+        count.source,
+        count.profileVersion,
+        count.field,
+        count.selectorIndex,
+        count.selector,
+        count.hits
+      );
+      return `(${Array.from({ length: 7 }, (_, column) => `$${offset + column + 1}`).join(', ')})`;
+    });
+
+    await runQuery(
+      `
+        INSERT INTO selector_hits (run_id, source, profile_version, field, selector_index, selector, hits)
+        VALUES ${valuePlaceholders.join(', ')}
+        ON CONFLICT (run_id, source, profile_version, field, selector_index) DO UPDATE SET
+          selector = EXCLUDED.selector,
+          hits = selector_hits.hits + EXCLUDED.hits
+      `,
+      values
+    );
+  }
+}
+
+// Midnight UTC, `daysAgo` days before today
+function startOfUtcDay(daysAgo: number): Date {
+  const today = new Date();
+  return new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate()) - daysAgo * DAY_MS);
+}
+
+function ratio(part: number, total: number): number {
+  return total > 0 ? Math.round((part / total) * 10000) / 10000 : 0;
+}
+
+function describeSelector(selector: string | null): string {
+  return selector === null ? 'no selector matching' : `fallback selector '${selector}'`;
+}
+
+/**
+ * Summarizes which selectors won each field over the last `days` days and flags drift:
+ * a fallback selector (or outright misses) winning a clearly larger share in the last
+ * `recentDays` days than in the days before
+ * @param options.days - Length of the reporting window
+ * @param options.recentDays - Trailing part of the window compared against the rest
+ * @param options.source - Only report this source
+ * @param options.threshold - Minimum share increase that counts as drift (default 0.15)
+ */
+export async function getExtractionHealth(options: {
+  days: number;
+  recentDays: number;
+  source?: string;
+  threshold?: number;
+}): Promise<ExtractionHealthReport> {
+  const threshold = options.threshold ?? DEFAULT_DRIFT_THRESHOLD;
+  // Both windows cover whole UTC days, today included
+  const values: Array<Date | string> = [startOfUtcDay(options.days - 1)];
+  const conditions = ['recorded_at >= $1'];
+  if (options.source) {
+    values.push(options.source);
+    conditions.push(`source = $${values.length}`);
+  }
+  const whereClause = `WHERE ${conditions.join(' AND ')}`;
+
+  const [hitsResult, runsResult] = await Promise.all([
+    runQuery(
+      `
+        SELECT
+          source,
+          field,
+          selector,
+          MIN(selector_index) AS selector_index,
+          to_char(recorded_at AT TIME ZONE 'UTC', 'YYYY-MM-DD') AS day,
+          SUM(hits)::BIGINT AS hits
+        FROM selector_hits
+        ${whereClause}
+        GROUP BY source, field, selector, day
+        ORDER BY source, field, day
+      `,
+      values
+    ),
+    runQuery(
+      `
+        SELECT COUNT(DISTINCT run_id)::BIGINT AS runs
+        FROM selector_hits
+        ${whereClause}
+      `,
+      values
+    )
+  ]);
+
+  const recentSince = startOfUtcDay(options.recentDays - 1).toISOString().slice(0, 10);
+
+  const rowsByField = new Map<string, any[]>();
+  for (const row of hitsResult.rows) {
+    const key = `${row.source}\u0000${row.field}`;
+    rowsByField.set(key, [...(rowsByField.get(key) ?? []), row]);
+  }
+
+  const fields: FieldHealth[] = [];
+  const warnings: DriftWarning[] = [];
+
+  for (const rows of rowsByField.values()) {
+    const { source, field } = rows[0];
+    const selectorTotals = new Map<
+      string | null,
+      { selectorIndex: number; hits: number; recent: number; baseline: number }
+    >();
+    const dailyTotals = new Map<string, { extractions: number; primary: number; misses: number }>();
+    let recentExtractions = 0;
+    let baselineExtractions = 0;
+
+    for (const row of rows) {
+      const hits = Number(row.hits);
+      const selectorIndex = Number(row.selector_index);
+      const isRecent = row.day >= recentSince;
+
+      const selectorTotal = selectorTotals.get(row.selector) ?? {
+        selectorIndex,
+        hits: 0,
+        recent: 0,
+        baseline: 0
+      };
+      selectorTotal.selectorIndex = Math.min(selectorTotal.selectorIndex, selectorIndex);
+      selectorTotal.hits += hits;
+      selectorTotal[isRecent ? 'recent' : 'baseline'] += hits;
+      selectorTotals.set(row.selector, selectorTotal);
+
+      const dailyTotal = dailyTotals.get(row.day) ?? { extractions: 0, primary: 0, misses: 0 };
+      dailyTotal.extractions += hits;
+      dailyTotal.primary += selectorIndex === 0 ? hits : 0;
+      dailyTotal.misses += row.selector === null ? hits : 0;
+      dailyTotals.set(row.day, dailyTotal);
+
+      if (isRecent) {
+        recentExtractions += hits;
+      } else {
+        baselineExtractions += hits;
+      }
+    }
+
+    const extractions = recentExtractions + baselineExtractions;
+    const selectors = Array.from(selectorTotals.entries())
+      .map(([selector, total]) => ({
+        selector,
+        selectorIndex: total.selectorIndex,
+        hits: total.hits,
+        share: ratio(total.hits, extractions)
+      }))
+      // Profile order, misses last
+      .sort((a, b) => (a.selectorIndex === -1 ? 1 : b.selectorIndex === -1 ? -1 : a.selectorIndex - b.selectorIndex));
+    const primaryHits = selectors
+      .filter((entry) => entry.selectorIndex === 0)
+      .reduce((sum, entry) => sum + entry.hits, 0);
+    const missHits = selectorTotals.get(null)?.hits ?? 0;
+
+    fields.push({
+      source,
+      field,
+      extractions,
+      primaryRate: ratio(primaryHits, extractions),
+      fallbackRate: ratio(extractions - primaryHits - missHits, extractions),
+      missRate: ratio(missHits, extractions),
+      selectors,
+      daily: Array.from(dailyTotals.entries()).map(([day, total]) => ({
+        day,
+        extractions: total.extractions,
+        primaryRate: ratio(total.primary, total.extractions),
+        fallbackRate: ratio(total.extractions - total.primary - total.misses, total.extractions),
+        missRate: ratio(total.misses, total.extractions)
+      }))
+    });
+
+    if (recentExtractions < MIN_WINDOW_EXTRACTIONS || baselineExtractions < MIN_WINDOW_EXTRACTIONS) {
+      continue;
+    }
+    for (const [selector, total] of selectorTotals.entries()) {
+      if (total.selectorIndex === 0) {
+        continue;
+      }
+      const recentShare = ratio(total.recent, recentExtractions);
+      const baselineShare = ratio(total.baseline, baselineExtractions);
+      if (recentShare - baselineShare >= threshold) {
+        warnings.push({
+          source,
+          field,
+          selector,
+          recentShare,
+          baselineShare,
+          recentExtractions,
+          message:
+            `${source} ${field}: ${describeSelector(selector)} won ${(recentShare * 100).toFixed(1)}% ` +
+            `of extractions in the last ${options.recentDays} day(s), up from ${(baselineShare * 100).toFixed(1)}%`
+        });
+      }
+    }
+  }
+
+  return {
+    days: options.days,
+    recentDays: options.recentDays,
+    runs: Number(runsResult.rows[0]?.runs ?? 0),
+    fields,
+    warnings
+  };
+}
@@ -1,215 +1,231 @@
-import axios from 'axios';
+import { AsyncLocalStorage } from 'async_hooks';
 import * as cheerio from 'cheerio';
+import { randomUUID } from 'crypto';
 import dotenv from 'dotenv';
-import fs from 'fs';
-import path from 'path';
-import { fileURLToPath } from 'url';
-import { dirname } from 'path';
+import http from 'http';
+import os from 'os';
 
 import {
   connectDB,
   disconnectDB,
-  getHighestChapterForNovel,
+  findMissingChapterRanges,
+  getStoredChapterUrls,
   INovel,
+  recordNovelStatSnapshot,
+  saveChapterIndex,
+  syncChapterNumbers,
   upsertChapters,
   upsertNovelByUrl
 } from './models/Novel.js';
+import {
+  getNextScheduledRunAt,
+  initScrapeTargetTables,
+  IScrapeTarget,
+  listDueScrapeTargets,
+  listScrapeTargets,
+  recordScrapeTargetRun,
+  ScrapeRunStatus
+} from './models/ScrapeTarget.js';
+import {
+  claimJobs,
+  completeJobs,
+  countJobsByState,
+  enqueueChapterJobs,
+  enqueueNovelJobs,
+  extendJobLease,
+  failExhaustedJobs,
+  failJobs,
+  initScrapeJobTables,
+  IScrapeJob,
+  pruneFinishedChapterJobs,
+  releaseJobs
+} from './models/ScrapeJob.js';
+import {
+  initScrapeJobEventTables,
+  pruneScrapeJobEvents,
+  recordScrapeJobEvent,
+  ScrapeJobEventType
+} from './models/ScrapeJobEvent.js';
+import {
+  createScrapeRun,
+  finishScrapeRun,
+  initScrapeRunTables,
+  recordScrapeRunNovel,
+  ScrapeRunCounters,
+  updateScrapeRunCounters
+} from './models/ScrapeRun.js';
+import {
+  DEFAULT_HEALTH_DAYS,
+  DEFAULT_HEALTH_RECENT_DAYS,
+  getExtractionHealth,
+  initSelectorHealthTables
+} from './models/SelectorHealth.js';
 
-// Import shared extraction function
-import { extractNovelDetailsSimple } from './utils/novel-details-extractor.js';
+import {
+  ChapterRef,
+  getSourceAdapter,
+  NovelDetails,
+  parseChapterPage,
+  SourceAdapter
+} from './sources/index.js';
+import { ChapterDrainResult, drainChapterQueue } from './utils/chapter-drain.js';
+import { createHttpClient, HttpAttempt, HttpClient, logHttpError } from './utils/http-client.js';
+import { HttpFetchMode, getHttpCacheDir, resolveHttpFetchMode } from './utils/http-recorder.js';
+import { HealthReport, metrics, startMetricsServer } from './utils/metrics.js';
+import { formatProxyHealth } from './utils/proxy-pool.js';
+import {
+  CircuitOpenError,
+  createHostRateLimiter,
+  formatRateLimitState,
+  logRateLimitEvent
+} from './utils/rate-limiter.js';
+import { SelectorHitRecorder, startSelectorHitRecorder } from './utils/selector-hit-recorder.js';
 
-// Determine __dirname for ES Modules
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
 
 // Load environment variables
 dotenv.config();
 
 // --- Configuration ---
-const REQUEST_STAGGER_MS = 300; // Gap between starting HTTP requests
 const DB_OPERATION_DELAY_MS = 50; // Smaller delay between DB writes
-const MAX_HTTP_ATTEMPTS = 4;
-const SESSION_WARMUP_PATHS = ['/', '/latest-release-novels'];
 const NOVEL_CONCURRENCY = 3;
 const CHAPTER_CONCURRENCY = 6;
 const CHAPTER_BATCH_SIZE = 25;
-
-const BROWSER_USER_AGENTS = [
-  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/135.0.0.0 Safari/537.36',
-  'Mozilla/5.0 (Macintosh; Intel Mac OS X 15_4) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/135.0.0.0 Safari/537.36',
-  'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/135.0.0.0 Safari/537.36',
-  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/134.0.0.0 Safari/537.36'
-];
+const NOVEL_LEASE_MS = 10 * 60 * 1000; // Renewed after every chapter batch
+const CHAPTER_LEASE_MS = 5 * 60 * 1000;
+// Shortest wait before claiming chapters again after their host's circuit refused them
+const CIRCUIT_RECHECK_MS = 5 * 1000;
+const WORKER_ID = `${os.hostname()}:${process.pid}`;
+// Daemon mode: targets per run, longest sleep between checks for due targets, and how long without
+// progress before /health reports the process as stuck
+const DAEMON_BATCH_SIZE = 50;
+const DAEMON_POLL_MS = 60 * 1000;
+const DAEMON_STALL_MS = 15 * 60 * 1000;
+const DEFAULT_DAEMON_PORT = 8080;
 
 // --- Helper Functions ---
 const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
-const cookieJar = new Map<string, string>();
-let nextRequestSlotAt = 0;
-
-function parseProxyUrl(raw?: string): false | { protocol: string; host: string; port: number; auth?: { username: string; password: string } } {
-  if (!raw) return false;
-  try {
-    const u = new URL(raw);
-    return {
-      protocol: u.protocol.replace(':', ''),
-      host: u.hostname,
-      port: parseInt(u.port || (u.protocol === 'https:' ? '443' : '80'), 10),
-      auth: u.username ? { username: decodeURIComponent(u.username), password: decodeURIComponent(u.password) } : undefined
-    };
-  } catch { return false; }
-}
-
-const proxyConfig = parseProxyUrl(process.env.HTTPS_PROXY || process.env.https_proxy || process.env.PROXY_URL);
-
-const httpClient = axios.create({
-  timeout: 30000,
-  proxy: proxyConfig || undefined,
-  headers: {
-    Accept:
-      'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8',
-    'Accept-Encoding': 'gzip, deflate, br',
-    'Accept-Language': 'en-US,en;q=0.9',
-    'Cache-Control': 'no-cache',
-    Connection: 'keep-alive',
-    Pragma: 'no-cache',
-    Referer: 'https://novelfire.net/'
-  }
-});
-
-function shouldRetryStatus(status?: number): boolean {
-  return status === 403 || status === 429 || (status !== undefined && status >= 500);
-}
-
-function getRandomUserAgent(): string {
-  const randomIndex = Math.floor(Math.random() * BROWSER_USER_AGENTS.length);
-  return BROWSER_USER_AGENTS[randomIndex];
-}
-
-function storeCookies(setCookieHeader: string[] | undefined): void {
-  if (!setCookieHeader || setCookieHeader.length === 0) {
+// Paces requests per host and backs off when the site pushes back, see utils/rate-limiter.ts
+const rateLimiter = createHostRateLimiter();
+rateLimiter.onEvent(logRateLimitEvent);
+
+// --- Metrics (served on SCRAPER_METRICS_PORT while the scraper runs) ---
+const scraperHttpRequests = metrics.counter(
+  'scraper_http_requests_total',
+  'Live HTTP fetch attempts by response status ("error" when no response arrived).',
+  ['status']
+);
+const scraperHttpRetries = metrics.counter('scraper_http_retries_total', 'HTTP fetch retries by status.', ['status']);
+const scraperNovels = metrics.counter('scraper_novels_total', 'Novels processed by outcome.', ['status']);
+const scraperChaptersSaved = metrics.counter('scraper_chapters_saved_total', 'Chapters inserted or updated.');
+const scraperChaptersUnchanged = metrics.counter(
+  'scraper_chapters_unchanged_total',
+  'Chapters scraped whose stored content was already up to date.'
+);
+const scraperChaptersEmpty = metrics.counter('scraper_chapters_empty_total', 'Chapters scraped without content.');
+const scraperQueueDepth = metrics.gauge('scraper_queue_depth', 'Scrape jobs by kind and state.', ['kind', 'state']);
+const scraperRateLimit = metrics.gauge('scraper_rate_limit_rps', 'Current request rate allowed per host.', ['host']);
+const scraperCircuitOpen = metrics.gauge(
+  'scraper_circuit_open',
+  'Whether requests to a host are blocked by its circuit breaker (1 open, 0.5 half-open, 0 closed).',
+  ['host']
+);
+
+// --- Progress events (streamed by GET /admin/scrapes/:id/events) ---
+// Id of the novel task the current async call chain works on
+const novelJobContext = new AsyncLocalStorage<number>();
+
+// Failing to record an event never stops the scrape
+async function emitNovelEvent(
+  type: ScrapeJobEventType,
+  data: Record<string, unknown>,
+  jobId = novelJobContext.getStore()
+): Promise<void> {
+  if (jobId === undefined) {
     return;
   }
-
-  for (const rawCookie of setCookieHeader) {
-    const firstPart = rawCookie.split(';', 1)[0];
-    const separatorIndex = firstPart.indexOf('=');
-    if (separatorIndex <= 0) {
-      continue;
-    }
-    const cookieName = firstPart.slice(0, separatorIndex).trim();
-    const cookieValue = firstPart.slice(separatorIndex + 1).trim();
-    if (!cookieName) {
-      continue;
-    }
-    cookieJar.set(cookieName, cookieValue);
+  try {
+    await recordScrapeJobEvent(jobId, type, data);
+  } catch (eventDbError) {
+    console.error(`Error recording a ${type} event for scrape ${jobId}:`, eventDbError);
   }
 }
 
-function buildCookieHeader(): string | undefined {
-  if (cookieJar.size === 0) {
-    return undefined;
+function recordHttpAttempt(attempt: HttpAttempt): void {
+  scraperHttpRequests.inc({ status: attempt.status ?? 'error' });
+  if (attempt.willRetry) {
+    scraperHttpRetries.inc({ status: attempt.status ?? 'error' });
+    void emitNovelEvent('retry', {
+      url: attempt.url,
+      attempt: attempt.attempt,
+      status: attempt.status ?? null,
+      proxyId: attempt.proxyId
+    });
   }
-  return Array.from(cookieJar.entries())
-    .map(([name, value]) => `${name}=${value}`)
-    .join('; ');
 }
 
-function buildRequestHeaders(targetUrl: string, attempt: number): Record<string, string> {
-  const targetOrigin = new URL(targetUrl).origin;
-  const cookieHeader = buildCookieHeader();
-  const headers: Record<string, string> = {
-    'User-Agent': getRandomUserAgent(),
-    Accept:
-      'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8',
-    'Accept-Encoding': 'gzip, deflate, br',
-    'Accept-Language': 'en-US,en;q=0.9',
-    'Cache-Control': 'no-cache',
-    Connection: 'keep-alive',
-    Pragma: 'no-cache',
-    Referer: targetOrigin,
-    'Upgrade-Insecure-Requests': '1',
-    'Sec-Fetch-Dest': 'document',
-    'Sec-Fetch-Mode': 'navigate',
-    'Sec-Fetch-Site': attempt === 1 ? 'none' : 'same-origin',
-    'Sec-Fetch-User': '?1',
-    'sec-ch-ua': '"Google Chrome";v="135", "Not-A.Brand";v="8", "Chromium";v="135"',
-    'sec-ch-ua-mobile': '?0',
-    'sec-ch-ua-platform': '"Windows"',
-    'DNT': '1'
-  };
+// --- Shutdown and liveness ---
+// Set on SIGTERM/SIGINT: workers stop claiming work once their in-flight chapter batch is saved
+let shutdownRequested = false;
+// Wakes everything waiting in sleepUnlessShuttingDown
+const shutdownWakers = new Set<() => void>();
+const daemonStatus = {
+  startedAt: new Date(),
+  lastProgressAt: Date.now(),
+  currentRunId: null as string | null,
+  lastRunFinishedAt: null as Date | null,
+  nextRunAt: null as Date | null
+};
+
+function recordProgress(): void {
+  daemonStatus.lastProgressAt = Date.now();
+}
 
-  if (cookieHeader) {
-    headers.Cookie = cookieHeader;
+function requestShutdown(signal: NodeJS.Signals): void {
+  if (shutdownRequested) {
+    console.warn(`\n${signal} received again, exiting without waiting for in-flight work.`);
+    process.exit(1);
   }
-
-  return headers;
+  shutdownRequested = true;
+  console.log(`\n🛑 ${signal} received: finishing in-flight chapter batches, then shutting down...`);
+  shutdownWakers.forEach((wake) => wake());
 }
 
-async function warmupSession(targetUrl: string): Promise<void> {
-  const origin = new URL(targetUrl).origin;
-  for (const sessionPath of SESSION_WARMUP_PATHS) {
-    const warmupUrl = `${origin}${sessionPath}`;
-    try {
-      await waitForRequestSlot();
-      const response = await httpClient.get(warmupUrl, {
-        headers: {
-          ...buildRequestHeaders(warmupUrl, 1),
-          Referer: origin
-        }
-      });
-      storeCookies(response.headers['set-cookie']);
-      await delay(250);
-    } catch (error) {
-      logAxiosError(`Session warmup request failed for ${warmupUrl}`, error);
+// Resolves after `ms`, or as soon as shutdown is requested
+function sleepUnlessShuttingDown(ms: number): Promise<void> {
+  return new Promise((resolve) => {
+    if (shutdownRequested) {
+      resolve();
+      return;
     }
-  }
+    const wake = () => {
+      clearTimeout(timer);
+      shutdownWakers.delete(wake);
+      resolve();
+    };
+    const timer = setTimeout(wake, ms);
+    shutdownWakers.add(wake);
+  });
 }
 
-function logAxiosError(context: string, error: unknown): void {
-  if (axios.isAxiosError(error)) {
-    console.error(`${context} (status: ${error.response?.status ?? 'unknown'}): ${error.message}`);
-    return;
-  }
-  console.error(context, error);
+function getDaemonHealth(): HealthReport {
+  const secondsSinceProgress = Math.round((Date.now() - daemonStatus.lastProgressAt) / 1000);
+  return {
+    healthy: !shutdownRequested && secondsSinceProgress * 1000 < DAEMON_STALL_MS,
+    status: shutdownRequested ? 'stopping' : 'running',
+    workerId: WORKER_ID,
+    startedAt: daemonStatus.startedAt.toISOString(),
+    secondsSinceProgress,
+    currentRunId: daemonStatus.currentRunId,
+    lastRunFinishedAt: daemonStatus.lastRunFinishedAt?.toISOString() ?? null,
+    nextRunAt: daemonStatus.nextRunAt?.toISOString() ?? null
+  };
 }
 
-async function waitForRequestSlot(): Promise<void> {
-  const now = Date.now();
-  const waitMs = Math.max(0, nextRequestSlotAt - now);
-  nextRequestSlotAt = Math.max(nextRequestSlotAt, now) + REQUEST_STAGGER_MS;
-
-  if (waitMs > 0) {
-    await delay(waitMs);
-  }
-}
+// Replaced in main() once the --http-mode option is known
+let httpClient: HttpClient = createHttpClient({ rateLimiter, onRequest: recordHttpAttempt });
 
 async function fetchPageHtml(url: string): Promise<string> {
-  for (let attempt = 1; attempt <= MAX_HTTP_ATTEMPTS; attempt++) {
-    try {
-      await waitForRequestSlot();
-      const response = await httpClient.get<string>(url, {
-        headers: buildRequestHeaders(url, attempt)
-      });
-      storeCookies(response.headers['set-cookie']);
-      return response.data;
-    } catch (error) {
-      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
-      const shouldRetry = shouldRetryStatus(status) && attempt < MAX_HTTP_ATTEMPTS;
-      if (!shouldRetry) {
-        throw error;
-      }
-      if (status === 403) {
-        await warmupSession(url);
-      }
-      const jitterMs = Math.floor(Math.random() * 750);
-      const backoffMs = 1500 * attempt + jitterMs;
-      console.warn(
-        `Request failed for ${url} with status ${status ?? 'unknown'} (attempt ${attempt}/${MAX_HTTP_ATTEMPTS}). Retrying in ${backoffMs}ms...`
-      );
-      await delay(backoffMs);
-    }
-  }
-  throw new Error(`Failed to fetch ${url} after ${MAX_HTTP_ATTEMPTS} attempts`);
+  return httpClient.fetchPageHtml(url);
 }
 
 function chunkArray<T>(items: T[], chunkSize: number): T[][] {
@@ -220,46 +236,34 @@ function chunkArray<T>(items: T[], chunkSize: number): T[][] {
   return chunks;
 }
 
-async function mapWithConcurrency<T, R>(
-  items: T[],
-  concurrency: number,
-  worker: (item: T, index: number) => Promise<R>
-): Promise<R[]> {
-  const results = new Array<R>(items.length);
-  let nextIndex = 0;
-
-  async function runWorker(): Promise<void> {
-    while (true) {
-      const currentIndex = nextIndex;
-      nextIndex += 1;
-
-      if (currentIndex >= items.length) {
-        return;
-      }
-
-      results[currentIndex] = await worker(items[currentIndex], currentIndex);
-    }
-  }
+// --- Interfaces & Types ---
+interface CliOptions {
+  // Re-fetch only chapter numbers missing from the database instead of resuming after the highest one
+  backfillGaps: boolean;
+  httpMode: HttpFetchMode;
+  // Keep running and scrape targets as their schedules come due instead of once
+  daemon: boolean;
+}
 
-  const workerCount = Math.min(concurrency, items.length);
-  await Promise.all(Array.from({ length: workerCount }, () => runWorker()));
-  return results;
+interface NovelStats {
+  novelsProcessed: number;
+  chaptersAttempted: number;
+  chaptersScrapedSuccess: number;
+  chaptersScrapedError: number;
+  chaptersWithEmptyContent: number;
+  dbNovelUpdateSuccess: number;
+  dbChapterUpdateSuccess: number;
+  dbChaptersUnchanged: number;
+  dbErrors: number;
+  novelsSkippedOrFailed: number;
 }
 
-// --- Interfaces & Types ---
-interface NovelDetails {
-  title: string | null;
-  author: string | null;
-  rank: string | null;
-  chapters: string | null;
-  views: string | null;
-  bookmarks: string | null;
-  status: string | null;
-  genres: string[];
-  summary: string | null;
-  chaptersUrl: string | null;
-  imageUrl: string | null;
-  rating: number | null;
+interface NovelOutcome {
+  status: ScrapeRunStatus;
+  error: string | null;
+  novelId: number | null;
+  // Set when the novel stopped before its chapters were drained, see ChapterDrainResult
+  stoppedBy?: 'shutdown' | 'cancelled';
 }
 
 interface ChapterData {
@@ -270,62 +274,13 @@ interface ChapterData {
 }
 
 // --- Scraping Functions ---
-async function scrapeNovelDetails(novelUrl: string): Promise<NovelDetails> {
+async function scrapeNovelDetails(novelUrl: string, adapter: SourceAdapter): Promise<NovelDetails> {
   console.log(`Fetching novel details from: ${novelUrl}`);
   try {
     const data = await fetchPageHtml(novelUrl);
-    const $ = cheerio.load(data);
-
-    // Extract details (Selectors updated for novelfire.net as of 2025-04-24)
-    const title = $('h1.novel-title').text().trim() || null;
-    const author = $('.author a span[itemprop="author"]').first().text().trim() || null;
-    const rank = $('.rank strong').text().replace('RANK ', '').trim() || null;
-    const chapters = $('.header-stats span:nth-child(1) strong').text().trim() || null;
-    const views = $('.header-stats span:nth-child(2) strong').text().trim() || null;
-    const bookmarks = $('.header-stats span:nth-child(3) strong').text().trim() || null;
-    const status = $('.header-stats span:nth-child(4) strong').text().trim() || null;
-    const genres = $('.categories ul a')
-      .map((i, el) => $(el).text().trim())
-      .get();
-
-    const extractedDetails = extractNovelDetailsSimple($);
-    const summary = extractedDetails.summary;
-    const rating = extractedDetails.rating;
-
-    let chaptersUrl = $('a.chapter-latest-container').attr('href') || null;
-    let imageUrl =
-      $('figure.cover img').attr('src') ||
-      $('figure.cover img').attr('data-src') ||
-      null;
-
-    // Ensure chaptersUrl is absolute
-    if (chaptersUrl && !chaptersUrl.startsWith('http')) {
-      const baseUrl = new URL(novelUrl).origin;
-      chaptersUrl = new URL(chaptersUrl, baseUrl).href;
-    }
-
-    // Ensure imageUrl is absolute
-    if (imageUrl && !imageUrl.startsWith('http')) {
-      const baseUrl = new URL(novelUrl).origin;
-      imageUrl = new URL(imageUrl, baseUrl).href;
-    }
-
-    return {
-      title,
-      author,
-      rank,
-      chapters,
-      views,
-      bookmarks,
-      status,
-      genres,
-      summary,
-      chaptersUrl,
-      imageUrl,
-      rating
-    };
+    return adapter.parseNovelDetails(cheerio.load(data), novelUrl);
   } catch (error: unknown) {
-    logAxiosError(`Error fetching or parsing novel details from ${novelUrl}`, error);
+    logHttpError(`Error fetching or parsing novel details from ${novelUrl}`, error);
     return {
       title: null,
       author: null,
@@ -344,38 +299,31 @@ async function scrapeNovelDetails(novelUrl: string): Promise<NovelDetails> {
 }
 
 async function scrapeChapterContent(
-  chapterUrl: string,
-  chapterNumber: number
+  chapterRef: ChapterRef,
+  adapter: SourceAdapter
 ): Promise<ChapterData> {
+  const chapterUrl = chapterRef.url;
   console.log(`Fetching chapter content from: ${chapterUrl}`);
   try {
     const data = await fetchPageHtml(chapterUrl);
-    const $ = cheerio.load(data);
-
-    const chapterTitle = $('h1 span.chapter-title').text().trim();
-
-    const contentSelector = '#content';
-    const rawHtmlContent = $(contentSelector).html();
-    const chapterContent = rawHtmlContent ? rawHtmlContent.trim() : null;
+    const chapter = parseChapterPage(adapter, data, chapterUrl);
 
-    if (!chapterContent) {
-      console.warn(
-        `  - Warning: Could not find chapter content using selector '${contentSelector}' for ${chapterUrl}`
-      );
-    }
-
-    console.log(`Successfully scraped content for chapter: ${chapterTitle}`);
+    console.log(`Successfully scraped content for chapter: ${chapter.title ?? ''}`);
     return {
       url: chapterUrl,
-      chapterNumber: chapterNumber,
-      title: chapterTitle || 'Untitled Chapter',
-      content: chapterContent
+      chapterNumber: chapterRef.chapterNumber,
+      title: chapter.title || chapterRef.title || 'Untitled Chapter',
+      content: chapter.content
     };
   } catch (error) {
-    logAxiosError(`  - Error scraping chapter content from ${chapterUrl}`, error);
+    // Left to the drain loop, which hands the task back to the queue instead of failing it
+    if (error instanceof CircuitOpenError) {
+      throw error;
+    }
+    logHttpError(`  - Error scraping chapter content from ${chapterUrl}`, error);
     return {
       url: chapterUrl,
-      chapterNumber: chapterNumber,
+      chapterNumber: chapterRef.chapterNumber,
       title: 'Error Scraping Title',
       content: null
     };
@@ -389,9 +337,10 @@ async function saveChapterBatch(
     chaptersScrapedSuccess: number;
     chaptersWithEmptyContent: number;
     dbChapterUpdateSuccess: number;
+    dbChaptersUnchanged: number;
     dbErrors: number;
   }
-): Promise<void> {
+): Promise<boolean> {
   const validChapters = chapters.filter(
     (chapter): chapter is ChapterData & { content: string } => Boolean(chapter.content)
   );
@@ -401,81 +350,199 @@ async function saveChapterBatch(
   stats.chaptersWithEmptyContent += emptyChapterCount;
 
   if (validChapters.length === 0) {
-    return;
+    return true;
   }
 
   try {
     await delay(DB_OPERATION_DELAY_MS);
     const savedChapters = await upsertChapters(novel._id, validChapters);
+    const unchangedChapterCount = validChapters.length - savedChapters.length;
     stats.dbChapterUpdateSuccess += savedChapters.length;
+    stats.dbChaptersUnchanged += unchangedChapterCount;
     console.log(
-      `  Saved/Updated ${savedChapters.length} chapters for ${novel.title} (${validChapters[0].chapterNumber}-${validChapters[validChapters.length - 1].chapterNumber})`
+      `  Saved/Updated ${savedChapters.length} chapters for ${novel.title} (${validChapters[0].chapterNumber}-${validChapters[validChapters.length - 1].chapterNumber}), ${unchangedChapterCount} unchanged`
     );
+    return true;
   } catch (chapterDbError) {
     stats.dbErrors += validChapters.length;
     console.error(
       `  Error saving chapter batch for ${novel.title} (${validChapters[0].chapterNumber}-${validChapters[validChapters.length - 1].chapterNumber}):`,
       chapterDbError
     );
+    return false;
   }
 }
 
-async function processNovel(
-  startUrl: string,
+async function scrapeQueuedChapters(
+  novel: INovel,
+  adapter: SourceAdapter,
+  latestChapterNumber: number,
+  novelJobId: number,
   stats: {
-    novelsProcessed: number;
     chaptersAttempted: number;
     chaptersScrapedSuccess: number;
     chaptersScrapedError: number;
     chaptersWithEmptyContent: number;
-    dbNovelUpdateSuccess: number;
     dbChapterUpdateSuccess: number;
+    dbChaptersUnchanged: number;
     dbErrors: number;
-    novelsSkippedOrFailed: number;
   }
-): Promise<void> {
+): Promise<ChapterDrainResult> {
+  return drainChapterQueue<ChapterData>(
+    {
+      claim: () =>
+        claimJobs({
+          kind: 'chapter',
+          workerId: WORKER_ID,
+          limit: CHAPTER_BATCH_SIZE,
+          leaseMs: CHAPTER_LEASE_MS,
+          novelId: novel._id
+        }),
+
+      scrape: async (chapterJob) => {
+        const chapterRef: ChapterRef = {
+          chapterNumber: chapterJob.chapterNumber as number,
+          url: chapterJob.chapterUrl as string,
+          displayNumber: null,
+          title: null
+        };
+        console.log(
+          `Processing Chapter ${chapterRef.chapterNumber}/${latestChapterNumber}: ${chapterRef.url}`
+        );
+
+        try {
+          return await scrapeChapterContent(chapterRef, adapter);
+        } catch (chapterScrapeError) {
+          if (chapterScrapeError instanceof CircuitOpenError) {
+            throw chapterScrapeError;
+          }
+          stats.chaptersScrapedError++;
+          console.error(
+            `Error processing chapter ${chapterRef.chapterNumber} (${chapterRef.url}):`,
+            chapterScrapeError
+          );
+          return {
+            url: chapterRef.url,
+            chapterNumber: chapterRef.chapterNumber,
+            title: 'Error Scraping Title',
+            content: null
+          } satisfies ChapterData;
+        }
+      },
+
+      settle: async (chapterJobs, chapterResults) => {
+        let batchSaved = true;
+        if (chapterResults.length > 0) {
+          stats.chaptersAttempted += chapterResults.length;
+          batchSaved = await saveChapterBatch(novel, chapterResults, stats);
+
+          for (const chapter of chapterResults.filter((chapterResult) => !chapterResult.content)) {
+            await emitNovelEvent('chapter_empty', { chapterNumber: chapter.chapterNumber, url: chapter.url });
+          }
+          await emitNovelEvent('batch_saved', {
+            fromChapter: chapterResults[0].chapterNumber,
+            toChapter: chapterResults[chapterResults.length - 1].chapterNumber,
+            latestChapterNumber,
+            chapters: chapterResults.length,
+            saved: batchSaved,
+            progress: { ...stats }
+          });
+        }
+
+        const doneJobIds: number[] = [];
+        const emptyJobIds: number[] = [];
+        chapterJobs.forEach((chapterJob, index) => {
+          (chapterResults[index].content ? doneJobIds : emptyJobIds).push(chapterJob.id);
+        });
+
+        let novelJobHeld = true;
+        try {
+          if (batchSaved) {
+            await completeJobs(doneJobIds, WORKER_ID);
+          } else {
+            await failJobs(doneJobIds, WORKER_ID, 'Database error while saving chapter');
+          }
+          await failJobs(emptyJobIds, WORKER_ID, 'Chapter content was empty');
+          novelJobHeld = (await extendJobLease([novelJobId], WORKER_ID, NOVEL_LEASE_MS)) > 0;
+        } catch (queueDbError) {
+          stats.dbErrors++;
+          console.error(`  Error updating chapter tasks for ${novel.title}:`, queueDbError);
+        }
+        recordProgress();
+        if (!novelJobHeld) {
+          console.warn(`  The scrape of ${novel.title} was cancelled or taken over. Stopping after this batch.`);
+        }
+        return novelJobHeld;
+      },
+
+      release: (jobIds) => releaseJobs(jobIds, WORKER_ID),
+      isShuttingDown: () => shutdownRequested,
+      sleep: sleepUnlessShuttingDown
+    },
+    { concurrency: CHAPTER_CONCURRENCY, minCircuitWaitMs: CIRCUIT_RECHECK_MS }
+  );
+}
+
+function stoppedOutcome(stoppedBy: 'shutdown' | 'cancelled', novelId: number): NovelOutcome {
+  return {
+    status: 'skipped',
+    error:
+      stoppedBy === 'shutdown'
+        ? 'Stopped by a shutdown before every queued chapter was scraped.'
+        : 'Cancelled before every queued chapter was scraped.',
+    novelId,
+    stoppedBy
+  };
+}
+
+async function processNovel(novelJob: IScrapeJob, stats: NovelStats, options: CliOptions): Promise<NovelOutcome> {
+  const startUrl = novelJob.novelUrl;
+  const novelJobId = novelJob.id;
   console.log(`\n============================================================`);
   console.log(`Processing Novel URL: ${startUrl}`);
   console.log(`============================================================\n`);
 
+  const adapter = getSourceAdapter(startUrl);
+  if (!adapter) {
+    console.error(`No source adapter registered for ${startUrl}, skipping this novel.`);
+    stats.novelsSkippedOrFailed++;
+    return { status: 'skipped', error: 'No source adapter registered for this URL.', novelId: null };
+  }
+
+  let savedNovel: INovel | null = null;
   try {
-    const novelDetails = await scrapeNovelDetails(startUrl);
+    const novelDetails = await scrapeNovelDetails(startUrl, adapter);
     if (!novelDetails.title || !novelDetails.chaptersUrl) {
       console.error(
         `Could not scrape essential novel details (title/chapters URL) for ${startUrl}, skipping this novel.`
       );
       stats.novelsSkippedOrFailed++;
-      return;
+      return {
+        status: 'failed',
+        error: 'Could not scrape essential novel details (title/chapters URL).',
+        novelId: null
+      };
     }
 
     console.log(`\nSuccessfully scraped novel details for: ${novelDetails.title}`);
     console.log('\n--- Novel Details ---');
     console.log(novelDetails);
 
-    let latestChapterNumber: number | null = null;
-    if (novelDetails.chapters) {
-      const parsedChapters = parseInt(novelDetails.chapters.replace(/,/g, ''), 10);
-      if (!isNaN(parsedChapters) && parsedChapters > 0) {
-        latestChapterNumber = parsedChapters;
-        console.log(`\nUsing total chapters count from novel details: ${latestChapterNumber}`);
-      } else {
-        console.error(
-          `Could not parse valid chapter count ('${novelDetails.chapters}') from novel details for ${novelDetails.title}.`
-        );
-      }
-    } else {
-      console.error(`Novel details did not contain a chapter count for ${novelDetails.title}.`);
-    }
-
-    if (latestChapterNumber === null) {
+    const chapterRefs = await adapter.listChapters(novelDetails, fetchPageHtml);
+    if (chapterRefs.length === 0) {
       console.error(
-        `Failed to determine the latest chapter number for ${novelDetails.title}. Aborting chapter scrape for this novel.`
+        `Failed to determine the chapter list for ${novelDetails.title} (chapter count: '${novelDetails.chapters}'). Aborting chapter scrape for this novel.`
       );
       stats.novelsSkippedOrFailed++;
-      return;
+      return { status: 'failed', error: 'Failed to determine the chapter list.', novelId: null };
     }
 
-    let savedNovel: INovel | null = null;
+    const latestChapterRef = chapterRefs[chapterRefs.length - 1];
+    const latestChapterNumber = latestChapterRef.chapterNumber;
+    console.log(
+      `\nFound ${chapterRefs.length} chapters online (latest: ${latestChapterRef.displayNumber ?? latestChapterNumber})`
+    );
+
     console.log(`\n--- Finding/Updating ${novelDetails.title} in Database ---`);
     try {
       savedNovel = await upsertNovelByUrl(startUrl, {
@@ -504,99 +571,203 @@ async function processNovel(
         `Failed to find or create the novel document in the database for ${startUrl}. Aborting chapter scrape for this novel.`
       );
       stats.dbErrors++;
-      return;
+      return { status: 'failed', error: 'Failed to find or create the novel in the database.', novelId: null };
     }
 
     console.log(`Found/Created Novel: ${savedNovel.title} (ID: ${savedNovel._id})`);
     stats.novelsProcessed++;
     stats.dbNovelUpdateSuccess++;
 
-    let startChapterNumber = 1;
-    let highestChapterNumberInDb: number | null = null;
     try {
-      const highestChapterDoc = await getHighestChapterForNovel(savedNovel._id);
+      await recordNovelStatSnapshot(savedNovel._id);
+    } catch (snapshotDbError) {
+      stats.dbErrors++;
+      console.error(`Error recording the stat snapshot for ${savedNovel.title}:`, snapshotDbError);
+    }
 
-      if (highestChapterDoc && highestChapterDoc.chapterNumber) {
-        highestChapterNumberInDb = highestChapterDoc.chapterNumber;
-        startChapterNumber = highestChapterDoc.chapterNumber + 1;
-        console.log(
-          `\nHighest chapter found in DB for ${savedNovel.title}: ${highestChapterNumberInDb}. Resuming scrape from chapter ${startChapterNumber}.`
-        );
-      } else {
-        console.log(
-          `\nNo existing chapters found in DB for ${savedNovel.title}. Starting scrape from chapter 1.`
-        );
+    try {
+      await saveChapterIndex(savedNovel._id, chapterRefs);
+      const movedChapterCount = await syncChapterNumbers(savedNovel._id);
+      if (movedChapterCount > 0) {
+        console.log(`Renumbered ${movedChapterCount} stored chapter(s) to match the source's chapter list`);
       }
-    } catch (dbError) {
+    } catch (indexDbError) {
       stats.dbErrors++;
-      console.error(`Error querying for highest chapter number for ${savedNovel.title}:`, dbError);
-      console.warn('Assuming start from chapter 1 due to error.');
-      startChapterNumber = 1;
+      console.error(`Error saving the chapter index for ${savedNovel.title}:`, indexDbError);
     }
 
-    if (startChapterNumber > latestChapterNumber) {
+    // A chapter whose position moved (e.g. a side story was inserted before it) is already stored
+    const storedChapterUrls = await getStoredChapterUrls(savedNovel._id);
+
+    // Requested through POST /admin/scrapes: (re-)scrape just that range, stored chapters included
+    if (novelJob.chapterFrom !== null || novelJob.chapterTo !== null) {
+      const fromChapter = novelJob.chapterFrom ?? 1;
+      const toChapter = Math.min(novelJob.chapterTo ?? latestChapterNumber, latestChapterNumber);
+      const rangeChapterRefs = chapterRefs.filter(
+        (chapterRef) => chapterRef.chapterNumber >= fromChapter && chapterRef.chapterNumber <= toChapter
+      );
+      const queuedChapterCount = await enqueueChapterJobs(savedNovel._id, startUrl, rangeChapterRefs);
+      await emitNovelEvent('chapters_queued', {
+        title: savedNovel.title,
+        latestChapterNumber,
+        fromChapter,
+        toChapter,
+        queued: queuedChapterCount
+      });
       console.log(
-        `\nNovel "${savedNovel.title}" is already up-to-date (Last chapter in DB: ${
-          highestChapterNumberInDb ?? 'None'
-        }, Latest online: ${latestChapterNumber}). No new chapters to process.`
+        `\n--- Scraping chapters ${fromChapter} to ${toChapter} for ${savedNovel.title} (queued ${queuedChapterCount}) ---`
       );
-      return;
-    }
 
-    const chaptersBaseUrl = novelDetails.chaptersUrl.split('/chapters')[0];
-    console.log(
-      `\n--- Processing Chapters ${startChapterNumber} to ${latestChapterNumber} for ${savedNovel.title} ---`
-    );
-
-    const chapterNumbers = Array.from(
-      { length: latestChapterNumber - startChapterNumber + 1 },
-      (_, index) => startChapterNumber + index
-    );
+      const drainResult = await scrapeQueuedChapters(savedNovel, adapter, latestChapterNumber, novelJobId, stats);
+      if (drainResult !== 'drained') {
+        return stoppedOutcome(drainResult, savedNovel._id);
+      }
+      console.log(`\n--- Finished Scraping Chapters ${fromChapter} to ${toChapter} for ${savedNovel.title} ---`);
+      return { status: 'success', error: null, novelId: savedNovel._id };
+    }
 
-    for (const chapterBatch of chunkArray(chapterNumbers, CHAPTER_BATCH_SIZE)) {
-      stats.chaptersAttempted += chapterBatch.length;
+    if (options.backfillGaps) {
+      const missingRanges = await findMissingChapterRanges(savedNovel._id, latestChapterNumber);
+      const missingChapterRefs = chapterRefs.filter(
+        (chapterRef) =>
+          !storedChapterUrls.has(chapterRef.url) &&
+          missingRanges.some(
+            (range) => chapterRef.chapterNumber >= range.from && chapterRef.chapterNumber <= range.to
+          )
+      );
+      const queuedChapterCount = await enqueueChapterJobs(savedNovel._id, startUrl, missingChapterRefs);
+      await emitNovelEvent('chapters_queued', {
+        title: savedNovel.title,
+        latestChapterNumber,
+        gaps: missingRanges,
+        queued: queuedChapterCount
+      });
+      console.log(
+        `\n--- Backfilling ${missingChapterRefs.length} missing chapter(s) in ${missingRanges.length} gap(s) for ${savedNovel.title} (queued ${queuedChapterCount}) ---`
+      );
 
-      const chapterResults = await mapWithConcurrency(
-        chapterBatch,
-        CHAPTER_CONCURRENCY,
-        async (chapterNumber) => {
-          const chapterUrl = `${chaptersBaseUrl}/chapter-${chapterNumber}`;
-          console.log(
-            `Processing Chapter ${chapterNumber}/${latestChapterNumber}: ${chapterUrl}`
-          );
+      const drainResult = await scrapeQueuedChapters(savedNovel, adapter, latestChapterNumber, novelJobId, stats);
+      if (drainResult !== 'drained') {
+        return stoppedOutcome(drainResult, savedNovel._id);
+      }
+      console.log(`\n--- Finished Backfilling Chapters for ${savedNovel.title} ---`);
+      return { status: 'success', error: null, novelId: savedNovel._id };
+    }
 
-          try {
-            return await scrapeChapterContent(chapterUrl, chapterNumber);
-          } catch (chapterScrapeError) {
-            stats.chaptersScrapedError++;
-            console.error(
-              `Error processing chapter ${chapterNumber} (${chapterUrl}):`,
-              chapterScrapeError
-            );
-            return {
-              url: chapterUrl,
-              chapterNumber,
-              title: 'Error Scraping Title',
-              content: null
-            } satisfies ChapterData;
-          }
-        }
+    // Every listed chapter whose URL is not stored yet, wherever it sits: the site may insert
+    // chapters before ones already stored, so the highest stored number is not a safe place to resume
+    const pendingChapterRefs = chapterRefs.filter((chapterRef) => !storedChapterUrls.has(chapterRef.url));
+    let queuedChapterCount = 0;
+    if (pendingChapterRefs.length === 0) {
+      console.log(
+        `\nNovel "${savedNovel.title}" is already up-to-date (${storedChapterUrls.size} chapter(s) stored, latest online: ${latestChapterNumber}). No new chapters to queue.`
       );
+    } else {
+      queuedChapterCount = await enqueueChapterJobs(savedNovel._id, startUrl, pendingChapterRefs);
+      console.log(
+        `\n--- Queued ${queuedChapterCount} chapter task(s) (${pendingChapterRefs[0].chapterNumber} to ${latestChapterNumber}) for ${savedNovel.title} ---`
+      );
+    }
+    await emitNovelEvent('chapters_queued', {
+      title: savedNovel.title,
+      latestChapterNumber,
+      fromChapter: pendingChapterRefs[0]?.chapterNumber ?? latestChapterNumber + 1,
+      toChapter: latestChapterNumber,
+      queued: queuedChapterCount
+    });
 
-      await saveChapterBatch(savedNovel, chapterResults, stats);
+    // Drains everything queued for this novel, including tasks left behind by an interrupted run
+    const drainResult = await scrapeQueuedChapters(savedNovel, adapter, latestChapterNumber, novelJobId, stats);
+    if (drainResult !== 'drained') {
+      return stoppedOutcome(drainResult, savedNovel._id);
     }
 
     console.log(`\n--- Finished Processing Chapters for ${savedNovel.title} ---`);
+    return { status: 'success', error: null, novelId: savedNovel._id };
   } catch (error) {
     console.error(`An unhandled error occurred processing ${startUrl}:`, error);
     stats.novelsSkippedOrFailed++;
+    return {
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+      novelId: savedNovel?._id ?? null
+    };
   }
 }
 
 // --- Main Execution Logic ---
-async function main() {
-  const startTime = Date.now();
-  const stats = {
+function parseCliArgs(): CliOptions {
+  const args = process.argv.slice(2);
+
+  let rawHttpMode: string | undefined;
+
+  const options: Omit<CliOptions, 'httpMode'> = {
+    backfillGaps: false,
+    daemon: false
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case '--backfill-gaps':
+        options.backfillGaps = true;
+        break;
+      case '--daemon':
+        options.daemon = true;
+        break;
+      case '--http-mode':
+        if (!args[i + 1] || args[i + 1].startsWith('--')) {
+          console.error('Error: --http-mode requires a mode');
+          process.exit(1);
+        }
+        rawHttpMode = args[i + 1];
+        i++;
+        break;
+      case '--help':
+        showHelp();
+        process.exit(0);
+      default:
+        console.error(`Error: Unknown option ${arg}`);
+        showHelp();
+        process.exit(1);
+    }
+  }
+
+  try {
+    return { ...options, httpMode: resolveHttpFetchMode(rawHttpMode) };
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+function showHelp() {
+  console.log(`
+Usage: node scraper.js [options]
+
+Scrape every enabled novel in the scrape_targets table.
+
+Options:
+  --backfill-gaps    Only re-fetch chapters missing from the database (holes left by empty
+                     or failed chapters) instead of resuming after the highest stored chapter
+  --daemon           Keep running and scrape each enabled target whenever its schedule comes
+                     due (hourly for popular ongoing novels, weekly for completed ones).
+                     Serves GET /health on SCRAPER_METRICS_PORT, else PORT (default ${DEFAULT_DAEMON_PORT})
+  --http-mode MODE   passthrough (default), record (save responses to the HTTP cache) or
+                     replay (serve responses from the HTTP cache only, no network).
+                     Defaults to HTTP_FETCH_MODE; the cache lives in HTTP_CACHE_DIR (.http-cache)
+  --help             Show this help message
+
+Examples:
+  node scraper.js
+  node scraper.js --backfill-gaps
+  node scraper.js --daemon
+`);
+}
+
+function createNovelStats(): NovelStats {
+  return {
     novelsProcessed: 0,
     chaptersAttempted: 0,
     chaptersScrapedSuccess: 0,
@@ -604,207 +775,209 @@ async function main() {
     chaptersWithEmptyContent: 0,
     dbNovelUpdateSuccess: 0,
     dbChapterUpdateSuccess: 0,
+    dbChaptersUnchanged: 0,
     dbErrors: 0,
+    novelsSkippedOrFailed: 0
+  };
+}
+
+function addNovelStats(total: NovelStats, novelStats: NovelStats): void {
+  for (const key of Object.keys(novelStats) as Array<keyof NovelStats>) {
+    total[key] += novelStats[key];
+  }
+}
+
+// Per-novel outcome for scrape_run_novels; failures to record it never stop the run
+async function recordNovelOutcome(
+  runId: string,
+  novelUrl: string,
+  outcome: NovelOutcome,
+  novelStats: NovelStats,
+  startedAt: Date
+): Promise<void> {
+  try {
+    await recordScrapeRunNovel(runId, {
+      novelUrl,
+      novelId: outcome.novelId,
+      status: outcome.status,
+      error: outcome.error,
+      chaptersAttempted: novelStats.chaptersAttempted,
+      chaptersSaved: novelStats.dbChapterUpdateSuccess,
+      chaptersUnchanged: novelStats.dbChaptersUnchanged,
+      chaptersEmpty: novelStats.chaptersWithEmptyContent,
+      chapterErrors: novelStats.chaptersScrapedError,
+      dbErrors: novelStats.dbErrors,
+      startedAt,
+      finishedAt: new Date()
+    });
+  } catch (runDbError) {
+    console.error(`Error recording the run outcome for ${novelUrl}:`, runDbError);
+  }
+}
+
+async function runNovelWorker(
+  runId: string,
+  stats: ScrapeRunCounters,
+  options: CliOptions,
+  selectorHits: SelectorHitRecorder
+): Promise<void> {
+  while (!shutdownRequested) {
+    const [novelJob] = await claimJobs({
+      kind: 'novel',
+      workerId: WORKER_ID,
+      limit: 1,
+      leaseMs: NOVEL_LEASE_MS
+    });
+    if (!novelJob) {
+      return;
+    }
+
+    const novelStats = createNovelStats();
+    const startedAt = new Date();
+    const outcome = await novelJobContext.run(novelJob.id, async () => {
+      await emitNovelEvent('novel_started', {
+        novelUrl: novelJob.novelUrl,
+        runId,
+        workerId: WORKER_ID,
+        attempt: novelJob.attempts,
+        chapterFrom: novelJob.chapterFrom,
+        chapterTo: novelJob.chapterTo
+      });
+      return processNovel(novelJob, novelStats, options);
+    });
+    await selectorHits.flush();
+    try {
+      if (outcome.stoppedBy === 'shutdown') {
+        // The target keeps its due time, so the next run picks the novel up where this one stopped
+        await releaseJobs([novelJob.id], WORKER_ID);
+      } else if (!outcome.stoppedBy) {
+        if (outcome.status === 'success') {
+          await completeJobs([novelJob.id], WORKER_ID);
+        } else {
+          await failJobs([novelJob.id], WORKER_ID, outcome.error ?? 'Unknown error', {
+            retry: outcome.status === 'failed'
+          });
+        }
+        await recordScrapeTargetRun(novelJob.novelUrl, outcome.status, outcome.error);
+      }
+    } catch (queueDbError) {
+      novelStats.dbErrors++;
+      console.error(`Error recording outcome for ${novelJob.novelUrl}:`, queueDbError);
+    }
+
+    await emitNovelEvent(
+      'novel_finished',
+      {
+        status: outcome.status,
+        error: outcome.error,
+        stoppedBy: outcome.stoppedBy ?? null,
+        novelId: outcome.novelId === null ? null : Number(outcome.novelId),
+        progress: { ...novelStats },
+        durationMs: Date.now() - startedAt.getTime()
+      },
+      novelJob.id
+    );
+
+    addNovelStats(stats, novelStats);
+    scraperNovels.inc({ status: outcome.status });
+    scraperChaptersSaved.inc({}, novelStats.dbChapterUpdateSuccess);
+    scraperChaptersUnchanged.inc({}, novelStats.dbChaptersUnchanged);
+    scraperChaptersEmpty.inc({}, novelStats.chaptersWithEmptyContent);
+    await recordNovelOutcome(runId, novelJob.novelUrl, outcome, novelStats, startedAt);
+    try {
+      await updateScrapeRunCounters(runId, stats);
+    } catch (runDbError) {
+      console.error('Error updating the run counters:', runDbError);
+    }
+    recordProgress();
+  }
+}
+
+// Surfaces selectors that are losing ground to their fallbacks, see extraction-health.ts
+async function reportExtractionDrift(): Promise<void> {
+  try {
+    const health = await getExtractionHealth({
+      days: DEFAULT_HEALTH_DAYS,
+      recentDays: DEFAULT_HEALTH_RECENT_DAYS
+    });
+    for (const warning of health.warnings) {
+      console.warn(`Extraction drift: ${warning.message}`);
+    }
+  } catch (error) {
+    console.error('Error checking extraction health:', error);
+  }
+}
+
+async function refreshQueueDepth(): Promise<void> {
+  for (const kind of ['novel', 'chapter'] as const) {
+    const counts = await countJobsByState(kind);
+    for (const [state, total] of Object.entries(counts)) {
+      scraperQueueDepth.set({ kind, state }, total);
+    }
+  }
+}
+
+function refreshRateLimitGauges(): void {
+  for (const state of rateLimiter.listStates()) {
+    scraperRateLimit.set({ host: state.host }, state.ratePerSecond);
+    scraperCircuitOpen.set({ host: state.host }, { closed: 0, 'half-open': 0.5, open: 1 }[state.circuit]);
+  }
+}
+
+/**
+ * Scrapes the given targets as one recorded run, see models/ScrapeRun.ts
+ * @returns Number of novels the run finished, successfully or not
+ */
+async function runScrape(options: CliOptions, targets: IScrapeTarget[]): Promise<number> {
+  const runId = randomUUID();
+  const startTime = Date.now();
+  const stats = {
+    urlsAttempted: targets.length,
+    ...createNovelStats(),
     startTime: startTime,
     endTime: 0,
-    durationSeconds: 0,
-    novelsSkippedOrFailed: 0
+    durationSeconds: 0
   };
 
-  const startUrls = [
-    'https://novelfire.net/book/shadow-slave',
-    'https://novelfire.net/book/reverend-insanity',
-    'https://novelfire.net/book/lord-of-the-mysteries',
-    'https://novelfire.net/book/a-regressors-tale-of-cultivation',
-    'https://novelfire.net/book/omniscient-readers-viewpoint',
-    'https://novelfire.net/book/tribulation-of-myriad-races',
-    'https://novelfire.net/book/kill-the-sun',
-    'https://novelfire.net/book/advent-of-the-three-calamities',
-    'https://novelfire.net/book/the-authors-pov',
-    'https://novelfire.net/book/young-masters-pov-woke-up-as-a-villain-in-a-game-one-day',
-    'https://novelfire.net/book/the-mirror-legacy',
-    'https://novelfire.net/book/horror-game-developer-my-games-arent-that-scary',
-    'https://novelfire.net/book/who-let-him-cultivate',
-    'https://novelfire.net/book/i-am-god-lslccf',
-    'https://novelfire.net/book/the-legendary-mechanic',
-    'https://novelfire.net/book/diary-of-a-dead-wizard',
-    'https://novelfire.net/book/the-beginning-after-the-end',
-    'https://novelfire.net/book/the-innkeeper',
-    'https://novelfire.net/book/my-house-of-horrors',
-    'https://novelfire.net/book/lord-of-mysteries-2-circle-of-inevitability',
-    'https://novelfire.net/book/lord-of-the-truth',
-    'https://novelfire.net/book/my-longevity-simulation',
-    'https://novelfire.net/book/im-an-infinite-regressor-but-ive-got-stories-to-tell',
-    'https://novelfire.net/book/the-primal-hunter',
-    'https://novelfire.net/book/renegade-immortal',
-    'https://novelfire.net/book/got-dropped-into-a-ghost-story-still-gotta-work',
-    'https://novelfire.net/book/the-academys-weakest-became-a-demon-limited-hunter',
-    'https://novelfire.net/book/pursuit-of-the-truth',
-    'https://novelfire.net/book/chrysalis',
-    'https://novelfire.net/book/my-living-shadow-system-devours-to-make-me-stronger',
-    'https://novelfire.net/book/the-mech-touch',
-    'https://novelfire.net/book/mother-of-learning',
-    'https://novelfire.net/book/the-perfect-run',
-    'https://novelfire.net/book/sword-god-in-a-world-of-magic',
-    'https://novelfire.net/book/strongest-hammer-god',
-    'https://novelfire.net/book/kingdoms-bloodline',
-    'https://novelfire.net/book/top-tier-providence-secretly-cultivate-for-a-thousand-years',
-    'https://novelfire.net/book/throne-of-magical-arcana',
-    'https://novelfire.net/book/global-game-afk-in-the-zombie-apocalypse-game',
-    'https://novelfire.net/book/we-agreed-on-experiencing-life-so-why-did-you-immortals-become-real',
-    'https://novelfire.net/book/beyond-the-timescape',
-    'https://novelfire.net/book/ending-maker',
-    'https://novelfire.net/book/i-was-mistaken-as-a-great-war-commander',
-    'https://novelfire.net/book/the-regressor-and-the-blind-saint',
-    'https://novelfire.net/book/i-shall-seal-the-heavens',
-    'https://novelfire.net/book/a-will-eternal',
-    'https://novelfire.net/book/the-villains-pov',
-    'https://novelfire.net/book/overgeared',
-    'https://novelfire.net/book/trash-of-the-counts-family',
-    'https://novelfire.net/book/dao-of-the-bizarre-immortal',
-    'https://novelfire.net/book/became-the-patron-of-villains',
-    'https://novelfire.net/book/surviving-the-game-as-a-barbarian',
-    'https://novelfire.net/book/kidnapped-dragons-kr-web-novel',
-    'https://novelfire.net/book/the-world-after-the-bad-ending',
-    'https://novelfire.net/book/return-of-the-mount-hua-sect',
-    'https://novelfire.net/book/son-of-the-hero-king',
-    'https://novelfire.net/book/dorothys-forbidden-grimoire',
-    'https://novelfire.net/book/creating-heavenly-laws',
-    'https://novelfire.net/book/supremacy-games',
-    'https://novelfire.net/book/cultivation-online',
-    'https://novelfire.net/book/the-glorious-evolution',
-    'https://novelfire.net/book/the-second-coming-of-gluttony',
-    'https://novelfire.net/book/incompatible-interspecies-wives',
-    'https://novelfire.net/book/myst-might-mayhem',
-    'https://novelfire.net/book/struggling-to-survive-with-regression-power-in-the-primordial-saint-sect',
-    'https://novelfire.net/book/sss-class-suicide-hunter',
-    'https://novelfire.net/book/rezero-kara-hajimeru-isekai-seikatsu',
-    'https://novelfire.net/book/immortality-through-array-formations',
-    'https://novelfire.net/book/infinite-mana-in-the-apocalypse',
-    'https://novelfire.net/book/supreme-harem-god-system',
-    'https://novelfire.net/book/death-game-starting-as-a-trickster-pretending-to-be-a-god',
-    'https://novelfire.net/book/nine-star-hegemon-body-arts',
-    'https://novelfire.net/book/damn-reincarnation',
-    'https://novelfire.net/book/investing-in-the-reborn-empress-she-actually-calls-me-husband',
-    'https://novelfire.net/book/fey-evolution-merchant',
-    'https://novelfire.net/book/omniscient-first-persons-viewpoint',
-    'https://novelfire.net/book/childhood-friend-of-the-zenith',
-    'https://novelfire.net/book/genetic-ascension',
-    'https://novelfire.net/book/cursed-immortality',
-    'https://novelfire.net/book/the-steward-demonic-emperor',
-    'https://novelfire.net/book/simulation-towards-immortality-in-a-group-chat',
-    'https://novelfire.net/book/ill-surpass-the-mc',
-    'https://novelfire.net/book/paragon-of-sin',
-    'https://novelfire.net/book/i-really-am-a-villain',
-    'https://novelfire.net/book/unsheathed',
-    'https://novelfire.net/book/lightning-is-the-only-way',
-    'https://novelfire.net/book/i-fabricated-the-techniques-but-my-disciple-really-mastered-them',
-    'https://novelfire.net/book/path-of-the-extra',
-    'https://novelfire.net/book/naruto-the-wind-calamity',
-    'https://novelfire.net/book/a-soldiers-life',
-    'https://novelfire.net/book/demonic-pornstar-system',
-    'https://novelfire.net/book/the-reincarnated-assassin-is-a-genius-swordsman',
-    'https://novelfire.net/book/seoul-object-story',
-    'https://novelfire.net/book/extras-death-i-am-the-son-of-hades',
-    'https://novelfire.net/book/blood-warlock-succubus-partner-in-the-apocalypse',
-    'https://novelfire.net/book/worlds-end-my-keyword-is-one-more-than-others',
-    'https://novelfire.net/book/the-primordial-record',
-    'https://novelfire.net/book/reincarnation-of-the-strongest-sword-god',
-    'https://novelfire.net/book/city-of-sin',
-    'https://novelfire.net/book/journey-of-the-fate-destroying-emperor',
-    'https://novelfire.net/book/supreme-magus',
-    'https://novelfire.net/book/why-should-i-stop-being-a-villain',
-    'https://novelfire.net/book/under-the-oak-tree',
-    'https://novelfire.net/book/i-was-mistaken-as-a-monstrous-genius-actor',
-    'https://novelfire.net/book/dimensional-descent',
-    'https://novelfire.net/book/outside-of-time',
-    'https://novelfire.net/book/beast-taming-starting-from-zero',
-    'https://novelfire.net/book/atticuss-odyssey-reincarnated-into-a-playground',
-    'https://novelfire.net/book/im-really-not-the-demon-gods-lackey',
-    'https://novelfire.net/book/my-vampire-system',
-    'https://novelfire.net/book/the-novels-extra',
-    'https://novelfire.net/book/kidnapped-dragons',
-    'https://novelfire.net/book/the-desolate-era',
-    'https://novelfire.net/book/i-am-the-fated-villain',
-    'https://novelfire.net/book/custom-made-demon-king',
-    'https://novelfire.net/book/youkoso-jitsuryoku-shijou-shugi-no-kyoushitsu-e',
-    'https://novelfire.net/book/jobless-reincarnation-mushoku-tensei',
-    'https://novelfire.net/book/the-demon-prince-goes-to-the-academy',
-    'https://novelfire.net/book/nano-machine-retranslated-version',
-    'https://novelfire.net/book/the-bloodline-system',
-    'https://novelfire.net/book/embers-ad-infinitum',
-    'https://novelfire.net/book/reincarnated-with-the-strongest-system',
-    'https://novelfire.net/book/jackal-among-snakes',
-    'https://novelfire.net/book/i-will-kill-the-author',
-    'https://novelfire.net/book/super-gene',
-    'https://novelfire.net/book/birth-of-the-demonic-sword',
-    'https://novelfire.net/book/library-of-heavens-path',
-    'https://novelfire.net/book/hero-of-darkness',
-    'https://novelfire.net/book/the-book-eating-magician',
-    'https://novelfire.net/book/vainqueur-the-dragon',
-    'https://novelfire.net/book/return-of-the-frozen-player',
-    'https://novelfire.net/book/descent-of-the-demon-god',
-    'https://novelfire.net/book/abandoned-by-my-childhood-friend-i-became-a-war-hero',
-    'https://novelfire.net/book/reborn-as-a-demonic-tree',
-    'https://novelfire.net/book/ranker-who-lives-twice',
-    'https://novelfire.net/book/the-protagonists-are-murdered-by-me',
-    'https://novelfire.net/book/i-became-the-pope-now-what',
-    'https://novelfire.net/book/tyranny-of-steel',
-    'https://novelfire.net/book/i-am-the-games-villain',
-    'https://novelfire.net/book/weapons-of-mass-destruction',
-    'https://novelfire.net/book/a-record-of-a-mortals-journey-to-immortality',
-    'https://novelfire.net/book/unscientific-beast-taming',
-    'https://novelfire.net/book/this-is-really-not-mechanical-ascension',
-    'https://novelfire.net/book/the-martial-unity',
-    'https://novelfire.net/book/against-the-gods',
-    'https://novelfire.net/book/the-first-order',
-    'https://novelfire.net/book/stealing-spree',
-    'https://novelfire.net/book/brother-dao-took-the-entertainment-industry-by-storm-fans-beg-me-not-to-kill-anymore',
-    'https://novelfire.net/book/radiant-blade-of-the-wilderness',
-    'https://novelfire.net/book/god-of-fishing',
-    'https://novelfire.net/book/complete-martial-arts-attributes',
-    'https://novelfire.net/book/steadily-becoming-a-saint-the-immortal-officials-hired-me-to-tend-the-horses',
-    'https://novelfire.net/book/the-first-legendary-beast-master',
-    'https://novelfire.net/book/last-born-of-the-desdemona',
-    'https://novelfire.net/book/the-death-mage-who-doesnt-want-a-fourth-time',
-    'https://novelfire.net/book/from-secret-clan-to-the-divine-dynasty',
-    'https://novelfire.net/book/reincarnated-as-the-final-villains-vessel',
-    'https://novelfire.net/book/necromancer-of-the-shadows',
-    'https://novelfire.net/book/let-me-game-in-peace',
-    'https://novelfire.net/book/the-divine-hunter',
-    'https://novelfire.net/book/wasted-spiritual-root-to-embark-on-demonic-cultivation',
-    'https://novelfire.net/book/release-that-witch',
-    'https://novelfire.net/book/lord-of-entertainment',
-    'https://novelfire.net/book/chronicles-of-primordial-wars',
-    'https://novelfire.net/book/my-werewolf-system',
-    'https://novelfire.net/book/a-villains-way-of-taming-heroines',
-    'https://novelfire.net/book/family-management-game-in-immortal-continent',
-    'https://novelfire.net/book/unholy-player',
-    'https://novelfire.net/book/tree-of-aeons'
-  ];
+  let runCreated = false;
+  let fatalError: string | null = null;
+  let selectorHits: SelectorHitRecorder | null = null;
+  daemonStatus.currentRunId = runId;
 
   try {
-    await connectDB();
+    await createScrapeRun(runId, WORKER_ID, { ...options });
+    runCreated = true;
+    const runSelectorHits = startSelectorHitRecorder(runId);
+    selectorHits = runSelectorHits;
+
+    await failExhaustedJobs();
+    await pruneScrapeJobEvents();
+    await pruneFinishedChapterJobs();
+    const queuedNovelCount = await enqueueNovelJobs(
+      targets.map((target) => ({ url: target.url, priority: target.priority }))
+    );
+    const novelJobCounts = await countJobsByState('novel');
 
     console.log(
-      `--- Starting Scraper Run for ${startUrls.length} Novel URL(s) at ${new Date(
+      `--- Starting Scraper Run ${runId} for ${stats.urlsAttempted} Novel URL(s) at ${new Date(
         startTime
-      ).toISOString()} ---`
+      ).toISOString()} (worker ${WORKER_ID}; queued ${queuedNovelCount}, pending ${novelJobCounts.pending}, running ${novelJobCounts.running}) ---`
     );
 
-    await mapWithConcurrency(startUrls, NOVEL_CONCURRENCY, async (startUrl) => {
-      await processNovel(startUrl, stats);
-    });
+    await Promise.all(
+      Array.from({ length: NOVEL_CONCURRENCY }, () => runNovelWorker(runId, stats, options, runSelectorHits))
+    );
   } catch (error) {
     console.error('A fatal error occurred during the scraper run:', error);
-    stats.novelsSkippedOrFailed = startUrls.length - stats.novelsProcessed; // Assume all remaining failed
+    fatalError = error instanceof Error ? error.message : String(error);
+    stats.novelsSkippedOrFailed = stats.urlsAttempted - stats.novelsProcessed; // Assume all remaining failed
   } finally {
     stats.endTime = Date.now();
     stats.durationSeconds = (stats.endTime - stats.startTime) / 1000;
 
     console.log(`\n--- Scraper Run Finished ---`);
     console.log(`Total Duration: ${stats.durationSeconds.toFixed(2)} seconds`);
-    console.log(`URLs Attempted:   ${startUrls.length}`);
+    console.log(`URLs Attempted:   ${stats.urlsAttempted}`);
     console.log(`Novels Processed (DB OK): ${stats.novelsProcessed}`);
     console.log(`Novels Skipped/Failed: ${stats.novelsSkippedOrFailed}`);
     console.log(`Total Chapters Attempted:  ${stats.chaptersAttempted}`);
@@ -813,42 +986,137 @@ async function main() {
     console.log(`  - Scrape Errors:         ${stats.chaptersScrapedError}`);
     console.log(`DB Novel Updates OK:   ${stats.dbNovelUpdateSuccess}`);
     console.log(`DB Chapter Updates OK: ${stats.dbChapterUpdateSuccess}`);
+    console.log(`DB Chapters Unchanged: ${stats.dbChaptersUnchanged}`);
     console.log(`Total Database Errors: ${stats.dbErrors}`);
+    const rateLimits = rateLimiter.listStates();
+    if (rateLimits.length > 0) {
+      console.log('Rate Limits:');
+      for (const state of rateLimits) {
+        console.log(`  - ${formatRateLimitState(state)}`);
+      }
+    }
+    if (httpClient.proxyPool.size > 0) {
+      console.log(`Proxies (${httpClient.proxyPool.rotation} rotation):`);
+      for (const health of httpClient.proxyPool.listHealth()) {
+        console.log(`  - ${formatProxyHealth(health)}`);
+      }
+    }
+
+    if (runCreated) {
+      try {
+        await finishScrapeRun(runId, stats, {
+          state: fatalError ? 'failed' : 'completed',
+          error: fatalError,
+          rateLimits
+        });
+        console.log(`\nRun recorded as ${runId} (GET /admin/scrape-runs/${runId})`);
+      } catch (runDbError) {
+        console.error(`\nError recording the scraper run:`, runDbError);
+      }
+    }
+
+    if (selectorHits) {
+      await selectorHits.stop();
+      await reportExtractionDrift();
+    }
+
+    daemonStatus.currentRunId = null;
+    daemonStatus.lastRunFinishedAt = new Date();
+  }
+
+  return stats.novelsProcessed + stats.novelsSkippedOrFailed;
+}
+
+/**
+ * Scrapes due targets in runs of DAEMON_BATCH_SIZE until shutdown, sleeping until the next target comes
+ * due (at most DAEMON_POLL_MS, so targets added or rescheduled meanwhile are noticed)
+ */
+async function runDaemon(options: CliOptions): Promise<void> {
+  console.log(`🕒 Daemon mode: scraping targets as they come due (worker ${WORKER_ID})`);
 
+  while (!shutdownRequested) {
+    recordProgress();
+    let waitMs = DAEMON_POLL_MS;
     try {
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-      const statsFilename = `scraper-stats-${timestamp}.txt`;
-      const statsFilePath = path.join(__dirname, statsFilename);
-
-      const statsString = `--- Scraper Run Finished ---
-Timestamp: ${new Date(stats.endTime).toISOString()}
-Total Duration: ${stats.durationSeconds.toFixed(2)} seconds
-
---- URLs --- 
-URLs Attempted:   ${startUrls.length}
-
---- Novels ---
-Novels Processed (DB OK): ${stats.novelsProcessed}
-Novels Skipped/Failed: ${stats.novelsSkippedOrFailed}
-
---- Chapters ---
-Total Chapters Attempted:  ${stats.chaptersAttempted}
-  - Scraped Successfully:  ${stats.chaptersScrapedSuccess}
-  - Scraped Empty/Miss:    ${stats.chaptersWithEmptyContent}
-  - Scrape Errors:         ${stats.chaptersScrapedError}
-
---- Database Operations ---
-DB Novel Updates OK:   ${stats.dbNovelUpdateSuccess}
-DB Chapter Updates OK: ${stats.dbChapterUpdateSuccess}
-Total Database Errors: ${stats.dbErrors}
-`;
-
-      fs.writeFileSync(statsFilePath, statsString);
-      console.log(`\nStatistics written to: ${statsFilePath}`);
-    } catch (fileError) {
-      console.error(`\nError writing statistics to file:`, fileError);
+      const dueTargets = await listDueScrapeTargets(DAEMON_BATCH_SIZE);
+      // Scrapes requested through POST /admin/scrapes sit in the queue without being due
+      const novelJobCounts = await countJobsByState('novel');
+      if (dueTargets.length > 0 || novelJobCounts.pending > 0) {
+        daemonStatus.nextRunAt = null;
+        const novelsFinished = await runScrape(options, dueTargets);
+        // Go straight on only if the run moved the due list along. Targets that nothing finished (e.g. their
+        // jobs are leased by another worker) or whose next run could not be recorded wait for the next poll.
+        if (novelsFinished > 0) {
+          const stillDueIds = (await listDueScrapeTargets(DAEMON_BATCH_SIZE)).map((target) => target.id);
+          const dueIds = dueTargets.map((target) => target.id);
+          if (stillDueIds.length !== dueIds.length || stillDueIds.some((id) => !dueIds.includes(id))) {
+            continue;
+          }
+        }
+      } else {
+        const nextRunAt = await getNextScheduledRunAt();
+        daemonStatus.nextRunAt = nextRunAt;
+        if (nextRunAt) {
+          waitMs = Math.min(Math.max(nextRunAt.getTime() - Date.now(), 1000), DAEMON_POLL_MS);
+        }
+      }
+    } catch (error) {
+      console.error('Error checking for due scrape targets:', error);
+    }
+    await sleepUnlessShuttingDown(waitMs);
+  }
+
+  console.log('🛑 Daemon stopped.');
+}
+
+async function main() {
+  const options = parseCliArgs();
+  httpClient = createHttpClient({ mode: options.httpMode, rateLimiter, onRequest: recordHttpAttempt });
+  if (options.httpMode !== 'passthrough') {
+    console.log(`HTTP fetch mode: ${options.httpMode} (cache: ${getHttpCacheDir()})`);
+  }
+  process.on('SIGTERM', requestShutdown);
+  process.on('SIGINT', requestShutdown);
+
+  let metricsServer: http.Server | null = null;
+
+  try {
+    await connectDB();
+    const serverPort = Number(
+      process.env.SCRAPER_METRICS_PORT || (options.daemon ? process.env.PORT || DEFAULT_DAEMON_PORT : 0)
+    );
+    if (serverPort > 0) {
+      metrics.onCollect(refreshQueueDepth);
+      metrics.onCollect(refreshRateLimitGauges);
+      metricsServer = startMetricsServer(serverPort, options.daemon ? { healthCheck: getDaemonHealth } : {});
+      console.log(
+        `Serving scraper metrics on port ${serverPort} (GET /metrics${options.daemon ? ', GET /health' : ''})`
+      );
     }
+    await initScrapeTargetTables();
 
+    await initScrapeJobTables();
+    await initScrapeJobEventTables();
+    await initScrapeRunTables();
+    await initSelectorHealthTables();
+
+    if (options.daemon) {
+      await runDaemon(options);
+    } else {
+      const targets = await listScrapeTargets({ enabled: true });
+      if (targets.data.length === 0) {
+        console.warn(
+          'No enabled scrape targets found. Seed some with seed-scrape-targets.ts (e.g. --file tracked-novels.json --enable).'
+        );
+      }
+      await runScrape(options, targets.data);
+    }
+  } catch (error) {
+    console.error('A fatal error occurred during the scraper run:', error);
+    process.exitCode = 1;
+  } finally {
+    metricsServer?.close();
+    await httpClient.close();
     await disconnectDB();
     console.log('PostgreSQL disconnected.');
   }
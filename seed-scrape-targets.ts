@@ -0,0 +1,181 @@
+#!/usr/bin/env node
+
+import dotenv from 'dotenv';
+import fs from 'fs';
+
+import { connectDB, disconnectDB } from './models/Novel.js';
+import {
+  initScrapeTargetTables,
+  ScrapeTargetInput,
+  upsertScrapeTargets
+} from './models/ScrapeTarget.js';
+import { getSourceAdapter } from './sources/index.js';
+
+// Load environment variables
+dotenv.config();
+
+const DEFAULT_CATALOG_PATH = 'novelfire-catalog.json';
+
+interface CliOptions {
+  files: string[];
+  urls: string[];
+  enable: boolean;
+  priority: number;
+  overwrite: boolean;
+  dryRun: boolean;
+}
+
+function parseCliArgs(): CliOptions {
+  const args = process.argv.slice(2);
+
+  const options: CliOptions = {
+    files: [],
+    urls: [],
+    enable: false,
+    priority: 0,
+    overwrite: false,
+    dryRun: false
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case '--catalog':
+        options.files.push(DEFAULT_CATALOG_PATH);
+        break;
+      case '--file':
+        if (!args[i + 1] || args[i + 1].startsWith('--')) {
+          console.error('Error: --file requires a path');
+          process.exit(1);
+        }
+        options.files.push(args[i + 1]);
+        i++;
+        break;
+      case '--priority':
+        const priorityValue = parseInt(args[i + 1]);
+        if (!isNaN(priorityValue)) {
+          options.priority = priorityValue;
+          i++;
+        } else {
+          console.error('Error: --priority requires an integer');
+          process.exit(1);
+        }
+        break;
+      case '--enable':
+        options.enable = true;
+        break;
+      case '--overwrite':
+        options.overwrite = true;
+        break;
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--help':
+        showHelp();
+        process.exit(0);
+      default:
+        if (arg.startsWith('--')) {
+          console.error(`Error: Unknown option ${arg}`);
+          showHelp();
+          process.exit(1);
+        }
+        options.urls.push(arg);
+    }
+  }
+
+  if (options.files.length === 0 && options.urls.length === 0) {
+    console.error('Error: Provide --catalog, --file or at least one novel URL');
+    showHelp();
+    process.exit(1);
+  }
+
+  return options;
+}
+
+function showHelp() {
+  console.log(`
+Usage: node seed-scrape-targets.js [options] [novel URLs...]
+
+Add novels to the scrape_targets table that drives the scraper.
+
+Options:
+  --catalog          Seed from ${DEFAULT_CATALOG_PATH} (output of export-novelfire-catalog.ts)
+  --file PATH        Seed from a JSON file: an array of URLs or a catalog export
+  --enable           Mark seeded targets as enabled (default: disabled for files, enabled for URL arguments)
+  --priority N       Priority for seeded targets; higher runs first (default: 0)
+  --overwrite        Update priority/enabled/title of targets that already exist
+  --dry-run          Show what would be seeded without writing to the database
+  --help             Show this help message
+
+Examples:
+  node seed-scrape-targets.js --file tracked-novels.json --enable --priority 10
+  node seed-scrape-targets.js --catalog
+  node seed-scrape-targets.js https://novelfire.net/book/shadow-slave
+`);
+}
+
+function readTargetsFromFile(filePath: string, options: CliOptions): ScrapeTargetInput[] {
+  const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+
+  // Catalog exports wrap entries in { novels: [{ title, url }] }; plain files are URL arrays
+  const entries: Array<{ url: string; title?: string }> = Array.isArray(parsed)
+    ? parsed.map((entry: unknown) => (typeof entry === 'string' ? { url: entry } : (entry as { url: string })))
+    : parsed.novels ?? [];
+
+  return entries.map((entry) => ({
+    url: entry.url,
+    title: entry.title ?? null,
+    priority: options.priority,
+    enabled: options.enable
+  }));
+}
+
+async function main() {
+  const options = parseCliArgs();
+
+  const targets: ScrapeTargetInput[] = [];
+  for (const filePath of options.files) {
+    const fileTargets = readTargetsFromFile(filePath, options);
+    console.log(`📄 Read ${fileTargets.length} target(s) from ${filePath}`);
+    targets.push(...fileTargets);
+  }
+  for (const url of options.urls) {
+    targets.push({ url, priority: options.priority, enabled: true });
+  }
+
+  const supportedTargets = targets.filter((target) => {
+    if (typeof target.url === 'string' && getSourceAdapter(target.url)) {
+      return true;
+    }
+    console.warn(`  ⚠️  Skipping unsupported URL: ${target.url}`);
+    return false;
+  });
+
+  if (options.dryRun) {
+    console.log(`🔍 DRY RUN - would seed ${supportedTargets.length} target(s)`);
+    return;
+  }
+
+  try {
+    await connectDB();
+    await initScrapeTargetTables();
+
+    const affected = await upsertScrapeTargets(supportedTargets, { overwrite: options.overwrite });
+    console.log(
+      `✅ Seeded ${supportedTargets.length} target(s): ${affected} ${
+        options.overwrite ? 'inserted or updated' : 'inserted'
+      }, ${supportedTargets.length - affected} already tracked`
+    );
+  } catch (error) {
+    console.error('❌ Fatal error while seeding scrape targets:', error);
+    process.exitCode = 1;
+  } finally {
+    await disconnectDB();
+  }
+}
+
+// Run the script
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(console.error);
+}
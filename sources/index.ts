@@ -0,0 +1,58 @@
+import * as cheerio from 'cheerio';
+
+import { sanitizeChapterHtml } from '../utils/chapter-content.js';
+import { novelfireAdapter } from './novelfire.js';
+import { ChapterContent, SourceAdapter } from './types.js';
+
+export * from './types.js';
+
+const adapters: SourceAdapter[] = [novelfireAdapter];
+
+/**
+ * Makes an adapter available to `getSourceAdapter`. Adapters registered later
+ * take precedence when hostnames overlap.
+ * @param adapter - Adapter to register
+ */
+export function registerSourceAdapter(adapter: SourceAdapter): void {
+  adapters.unshift(adapter);
+}
+
+function matchesHostname(hostname: string, adapterHostname: string): boolean {
+  return hostname === adapterHostname || hostname.endsWith(`.${adapterHostname}`);
+}
+
+/**
+ * Finds the adapter responsible for a URL based on its hostname
+ * @param url - Novel or chapter URL
+ * @returns Matching adapter, or null when the site is not supported
+ */
+export function getSourceAdapter(url: string): SourceAdapter | null {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+
+  return (
+    adapters.find((adapter) =>
+      adapter.hostnames.some((adapterHostname) => matchesHostname(hostname, adapterHostname))
+    ) ?? null
+  );
+}
+
+/**
+ * Parses a chapter page with its adapter and sanitizes the content
+ * @param adapter - Adapter for the chapter's source
+ * @param html - Chapter page HTML
+ * @param chapterUrl - URL the page was fetched from
+ * @returns Title and sanitized content; content is null when nothing but ads and watermarks was found
+ */
+export function parseChapterPage(adapter: SourceAdapter, html: string, chapterUrl: string): ChapterContent {
+  const chapter = adapter.parseChapterContent(cheerio.load(html), chapterUrl);
+  const content = chapter.content
+    ? sanitizeChapterHtml(chapter.content, { watermarkPatterns: adapter.watermarkPatterns })
+    : null;
+
+  return { title: chapter.title, content: content || null };
+}
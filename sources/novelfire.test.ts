@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'bun:test';
+import * as cheerio from 'cheerio';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { extractNovelDetails } from '../utils/novel-details-extractor.js';
+import { novelfireAdapter } from './novelfire.js';
+import { NovelDetails, parseChapterPage } from './index.js';
+
+// Saved pages live under fixtures/novelfire/<kind>/; each has a golden <name>.json next to it.
+// Run `UPDATE_GOLDEN=1 bun test sources` to (re)write the golden files after reviewing a change.
+const FIXTURES_DIR = path.join(import.meta.dir, '..', 'fixtures', 'novelfire');
+const UPDATE_GOLDEN = process.env.UPDATE_GOLDEN === '1';
+
+function listFixtures(kind: string, extension: string): string[] {
+  return fs
+    .readdirSync(path.join(FIXTURES_DIR, kind))
+    .filter((name) => (extension ? name.endsWith(extension) : !name.includes('.')))
+    .map((name) => path.join(FIXTURES_DIR, kind, name))
+    .sort();
+}
+
+// Page fixtures start with `<!-- fixture-url: ... -->`, the URL the page was saved from
+function readPageFixture(fixturePath: string): { html: string; url: string } {
+  const html = fs.readFileSync(fixturePath, 'utf-8');
+  const url = html.match(/^<!-- fixture-url: (\S+) -->/)?.[1];
+  if (!url) {
+    throw new Error(`${fixturePath} is missing its "<!-- fixture-url: ... -->" header`);
+  }
+  return { html, url };
+}
+
+function expectGolden(goldenPath: string, actual: unknown): void {
+  // Round-trip through JSON so the comparison sees exactly what the golden file stores
+  const serialized = JSON.parse(JSON.stringify(actual));
+  if (UPDATE_GOLDEN) {
+    fs.writeFileSync(goldenPath, `${JSON.stringify(serialized, null, 2)}\n`);
+    return;
+  }
+  if (!fs.existsSync(goldenPath)) {
+    throw new Error(`Missing golden file ${goldenPath}; run with UPDATE_GOLDEN=1 to create it`);
+  }
+  expect(serialized).toEqual(JSON.parse(fs.readFileSync(goldenPath, 'utf-8')));
+}
+
+describe('novelfire novel page fixtures', () => {
+  for (const fixturePath of listFixtures('novel', '.html')) {
+    it(path.basename(fixturePath), () => {
+      const { html, url } = readPageFixture(fixturePath);
+      const $ = cheerio.load(html);
+      const extraction = extractNovelDetails($);
+
+      expectGolden(fixturePath.replace(/\.html$/, '.json'), {
+        details: novelfireAdapter.parseNovelDetails($, url),
+        summarySelector: extraction.summary.selector,
+        ratingSelector: extraction.rating.selector
+      });
+    });
+  }
+});
+
+describe('novelfire chapter page fixtures', () => {
+  for (const fixturePath of listFixtures('chapter', '.html')) {
+    it(path.basename(fixturePath), () => {
+      const { html, url } = readPageFixture(fixturePath);
+      expectGolden(fixturePath.replace(/\.html$/, '.json'), parseChapterPage(novelfireAdapter, html, url));
+    });
+  }
+});
+
+// Each case is a directory with details.json (the parsed novel page fields listChapters uses)
+// and page-N.html for every chapter list page; pages without a file fail like an HTTP error
+describe('novelfire chapter list fixtures', () => {
+  for (const caseDir of listFixtures('chapter-list', '')) {
+    it(path.basename(caseDir), async () => {
+      const details = JSON.parse(fs.readFileSync(path.join(caseDir, 'details.json'), 'utf-8')) as Partial<NovelDetails>;
+      const requestedUrls: string[] = [];
+
+      const chapters = await novelfireAdapter.listChapters(details as NovelDetails, async (url) => {
+        requestedUrls.push(url);
+        const page = new URL(url).searchParams.get('page') ?? '1';
+        const pagePath = path.join(caseDir, `page-${page}.html`);
+        if (!fs.existsSync(pagePath)) {
+          throw new Error(`Request failed with status code 404 for ${url}`);
+        }
+        return fs.readFileSync(pagePath, 'utf-8');
+      });
+
+      expectGolden(path.join(caseDir, 'expected.json'), { requestedUrls, chapters });
+    });
+  }
+});
+
+describe('novelfire selector profile', () => {
+  it('picks up selector changes from SELECTOR_PROFILE_DIR', () => {
+    const profile = JSON.parse(
+      fs.readFileSync(path.join(import.meta.dir, 'profiles', 'novelfire.json'), 'utf-8')
+    );
+    profile.chapter.content.selectors = ['.chapter-body', ...profile.chapter.content.selectors];
+    const profileDir = fs.mkdtempSync(path.join(os.tmpdir(), 'selector-profile-'));
+    fs.writeFileSync(path.join(profileDir, 'novelfire.json'), JSON.stringify(profile));
+
+    const previousDir = process.env.SELECTOR_PROFILE_DIR;
+    process.env.SELECTOR_PROFILE_DIR = profileDir;
+    try {
+      const html = '<h1><span class="chapter-title">Moved</span></h1><div class="chapter-body"><p>Body</p></div>';
+      expect(parseChapterPage(novelfireAdapter, html, 'https://novelfire.net/book/x/chapter-1')).toEqual({
+        title: 'Moved',
+        content: '<p>Body</p>'
+      });
+    } finally {
+      if (previousDir === undefined) {
+        delete process.env.SELECTOR_PROFILE_DIR;
+      } else {
+        process.env.SELECTOR_PROFILE_DIR = previousDir;
+      }
+      fs.rmSync(profileDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,160 @@
+import * as cheerio from 'cheerio';
+
+import { extractNovelDetailsSimple } from '../utils/novel-details-extractor.js';
+import { extractFields, listValue, loadSelectorProfile, textValue } from '../utils/selector-profile.js';
+import { ChapterContent, ChapterRef, FetchHtml, NovelDetails, SourceAdapter } from './types.js';
+
+// novelfire injects "find us on novelfire.net" lines into chapters, often with look-alike characters
+const WATERMARK_PATTERNS = [/n[o0ο]v[e3]l\s*f[i1]r[e3]\s*\.\s*n[e3]t/i, /\bnovelfire\b/i];
+
+function toAbsoluteUrl(value: string | null, pageUrl: string): string | null {
+  if (!value || value.startsWith('http')) {
+    return value;
+  }
+  return new URL(value, new URL(pageUrl).origin).href;
+}
+
+// Selectors live in sources/profiles/novelfire.json and are re-read when the file changes
+function getProfile() {
+  return loadSelectorProfile(novelfireAdapter.name);
+}
+
+function parseNovelDetails($: cheerio.Root, novelUrl: string): NovelDetails {
+  const profile = getProfile();
+  const { summary, rating, ...otherFields } = profile.novel;
+  const fields = extractFields($, otherFields, novelUrl);
+  const extractedDetails = extractNovelDetailsSimple($, profile);
+
+  return {
+    title: textValue(fields.title),
+    author: textValue(fields.author),
+    rank: textValue(fields.rank),
+    chapters: textValue(fields.chapters),
+    views: textValue(fields.views),
+    bookmarks: textValue(fields.bookmarks),
+    status: textValue(fields.status),
+    genres: listValue(fields.genres),
+    summary: extractedDetails.summary,
+    chaptersUrl: textValue(fields.chaptersUrl),
+    imageUrl: textValue(fields.imageUrl),
+    rating: extractedDetails.rating
+  };
+}
+
+// Chapter index pages: /book/<slug>/chapters?page=N, 100 entries per page
+const CHAPTER_LIST_ITEM_SELECTOR = 'ul.chapter-list li';
+const CHAPTER_LIST_PAGINATION_SELECTOR = '.pagination a[href]';
+
+function parseChapterListPage($: cheerio.Root, pageUrl: string): Array<Omit<ChapterRef, 'chapterNumber'>> {
+  return $(CHAPTER_LIST_ITEM_SELECTOR)
+    .map((i, el) => {
+      const link = $(el).find('a').first();
+      const url = toAbsoluteUrl(link.attr('href') || null, pageUrl);
+      if (!url) {
+        return null;
+      }
+
+      const displayNumber =
+        $(el).find('.chapter-no').text().trim() || $(el).attr('data-chapterno')?.trim() || null;
+      const title = $(el).find('.chapter-title').text().trim() || link.attr('title')?.trim() || null;
+      return { url, displayNumber, title };
+    })
+    .get();
+}
+
+function parseLastChapterListPage($: cheerio.Root): number {
+  const pageNumbers = $(CHAPTER_LIST_PAGINATION_SELECTOR)
+    .map((i, el) => {
+      const match = ($(el).attr('href') || '').match(/[?&]page=(\d+)/);
+      return match ? parseInt(match[1], 10) : null;
+    })
+    .get();
+  return Math.max(1, ...pageNumbers);
+}
+
+/**
+ * Walks every page of the chapter index in order
+ * @returns Chapters in reading order, or an empty list when the index has no entries
+ */
+async function listChaptersFromIndex(chaptersUrl: string, fetchHtml: FetchHtml): Promise<ChapterRef[]> {
+  const listUrl = `${chaptersUrl.split('/chapters')[0]}/chapters`;
+  const firstPage = cheerio.load(await fetchHtml(listUrl));
+  const lastPage = parseLastChapterListPage(firstPage);
+
+  const entries = parseChapterListPage(firstPage, listUrl);
+  for (let page = 2; page <= lastPage; page++) {
+    const pageUrl = `${listUrl}?page=${page}`;
+    entries.push(...parseChapterListPage(cheerio.load(await fetchHtml(pageUrl)), pageUrl));
+  }
+
+  // Pages can shift while we walk them when a chapter is published mid-crawl
+  const seenUrls = new Set<string>();
+  return entries
+    .filter((entry) => !seenUrls.has(entry.url) && seenUrls.add(entry.url))
+    .map((entry, index) => ({ chapterNumber: index + 1, ...entry }));
+}
+
+function guessChaptersFromCount(details: NovelDetails): ChapterRef[] {
+  if (!details.chaptersUrl || !details.chapters) {
+    return [];
+  }
+
+  // The header stat is the chapter count; assume chapters live at /chapter-N for N = 1..count
+  const latestChapterNumber = parseInt(details.chapters.replace(/,/g, ''), 10);
+  if (isNaN(latestChapterNumber) || latestChapterNumber <= 0) {
+    return [];
+  }
+
+  const chaptersBaseUrl = details.chaptersUrl.split('/chapters')[0];
+  return Array.from({ length: latestChapterNumber }, (_, index) => ({
+    chapterNumber: index + 1,
+    url: `${chaptersBaseUrl}/chapter-${index + 1}`,
+    displayNumber: String(index + 1),
+    title: null
+  }));
+}
+
+async function listChapters(details: NovelDetails, fetchHtml: FetchHtml): Promise<ChapterRef[]> {
+  if (!details.chaptersUrl) {
+    return [];
+  }
+
+  try {
+    const chapters = await listChaptersFromIndex(details.chaptersUrl, fetchHtml);
+    if (chapters.length > 0) {
+      return chapters;
+    }
+    console.warn(`  - Warning: Chapter index at ${details.chaptersUrl} had no entries`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`  - Warning: Failed to read chapter index at ${details.chaptersUrl}: ${message}`);
+  }
+
+  console.warn('  - Falling back to chapter URLs guessed from the header chapter count');
+  return guessChaptersFromCount(details);
+}
+
+function parseChapterContent($: cheerio.Root, chapterUrl: string): ChapterContent {
+  const profile = getProfile();
+  const fields = extractFields($, profile.chapter, chapterUrl);
+  const title = textValue(fields.title);
+  const content = textValue(fields.content);
+
+  if (!content) {
+    const selectors = profile.chapter.content.selectors.map((candidate) => candidate.selector);
+    console.warn(
+      `  - Warning: Could not find chapter content using selectors '${selectors.join("', '")}' for ${chapterUrl}`
+    );
+  }
+
+  return { title, content };
+}
+
+export const novelfireAdapter: SourceAdapter = {
+  name: 'novelfire',
+  hostnames: ['novelfire.net'],
+  watermarkPatterns: WATERMARK_PATTERNS,
+  parseNovelDetails,
+  listChapters,
+  parseChapterContent
+};
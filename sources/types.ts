@@ -0,0 +1,70 @@
+import * as cheerio from 'cheerio';
+
+// Details scraped from a novel's landing page
+export interface NovelDetails {
+  title: string | null;
+  author: string | null;
+  rank: string | null;
+  chapters: string | null;
+  views: string | null;
+  bookmarks: string | null;
+  status: string | null;
+  genres: string[];
+  summary: string | null;
+  chaptersUrl: string | null;
+  imageUrl: string | null;
+  rating: number | null;
+}
+
+// A chapter the scraper should fetch, as listed by the source site
+export interface ChapterRef {
+  // 1-based position in the site's reading order; stored as chapters.chapter_number
+  chapterNumber: number;
+  url: string;
+  // Number as the site displays it, e.g. "12" or "Side Story 3"
+  displayNumber: string | null;
+  title: string | null;
+}
+
+// Title and body parsed from a chapter page
+export interface ChapterContent {
+  title: string | null;
+  content: string | null;
+}
+
+export type FetchHtml = (url: string) => Promise<string>;
+
+/**
+ * Site-specific knowledge the scraper needs to crawl one source.
+ * Networking stays in the caller: adapters parse pages they are handed and
+ * only fetch through the provided `fetchHtml` when they need extra pages.
+ */
+export interface SourceAdapter {
+  // Short identifier used in logs, e.g. "novelfire"
+  readonly name: string;
+  // Hostnames served by this adapter (subdomains match too)
+  readonly hostnames: readonly string[];
+  // Paragraphs matching any of these are stripped from chapter content as site watermarks
+  readonly watermarkPatterns?: readonly RegExp[];
+
+  /**
+   * Parses a novel landing page
+   * @param $ - Cheerio instance loaded with the novel page HTML
+   * @param novelUrl - URL the page was fetched from, used to absolutize links
+   */
+  parseNovelDetails($: cheerio.Root, novelUrl: string): NovelDetails;
+
+  /**
+   * Lists every chapter currently published for a novel, in reading order
+   * @param details - Details previously parsed from the novel page
+   * @param fetchHtml - Fetcher to use if the listing needs extra pages
+   */
+  listChapters(details: NovelDetails, fetchHtml: FetchHtml): Promise<ChapterRef[]>;
+
+  /**
+   * Parses a chapter page
+   * @param $ - Cheerio instance loaded with the chapter page HTML
+   * @param chapterUrl - URL the page was fetched from
+   */
+  parseChapterContent($: cheerio.Root, chapterUrl: string): ChapterContent;
+}
@@ -1,7 +1,7 @@
 #!/usr/bin/env node
 
-import axios from 'axios';
 import * as cheerio from 'cheerio';
+import { randomUUID } from 'crypto';
 import dotenv from 'dotenv';
 
 import {
@@ -11,16 +11,21 @@ import {
   INovel,
   updateNovelFields
 } from './models/Novel.js';
+import { initSelectorHealthTables } from './models/SelectorHealth.js';
 
 // Import shared extraction function
 import { extractNovelDetails } from './utils/novel-details-extractor.js';
+import { createHttpClient, HttpClient } from './utils/http-client.js';
+import { HttpFetchMode, getHttpCacheDir, resolveHttpFetchMode } from './utils/http-recorder.js';
+import { formatProxyHealth } from './utils/proxy-pool.js';
+import { formatRateLimitState, logRateLimitEvent } from './utils/rate-limiter.js';
+import { SelectorHitRecorder, startSelectorHitRecorder } from './utils/selector-hit-recorder.js';
 
 // Load environment variables
 dotenv.config();
 
 const REQUEST_DELAY_MS = 2000;
 const DB_OPERATION_DELAY_MS = 100;
-const MAX_HTTP_ATTEMPTS = 4;
 
 interface UpdateStats {
   totalNovels: number;
@@ -42,75 +47,24 @@ interface CliOptions {
   summariesOnly: boolean;
   ratingsOnly: boolean;
   verbose: boolean;
+  httpMode: HttpFetchMode;
 }
 
 const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
-function parseProxyUrl(raw?: string): false | { protocol: string; host: string; port: number; auth?: { username: string; password: string } } {
-  if (!raw) return false;
-  try {
-    const u = new URL(raw);
-    return {
-      protocol: u.protocol.replace(':', ''),
-      host: u.hostname,
-      port: parseInt(u.port || (u.protocol === 'https:' ? '443' : '80'), 10),
-      auth: u.username ? { username: decodeURIComponent(u.username), password: decodeURIComponent(u.password) } : undefined
-    };
-  } catch { return false; }
-}
-
-const proxyConfig = parseProxyUrl(process.env.HTTPS_PROXY || process.env.https_proxy || process.env.PROXY_URL);
-
-const httpClient = axios.create({
-  timeout: 30000,
-  proxy: proxyConfig || undefined,
-  headers: {
-    'User-Agent':
-      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/135.0.0.0 Safari/537.36',
-    Accept:
-      'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8',
-    'Accept-Encoding': 'gzip, deflate, br',
-    'Accept-Language': 'en-US,en;q=0.9',
-    'Cache-Control': 'no-cache',
-    Connection: 'keep-alive',
-    Pragma: 'no-cache',
-    Referer: 'https://novelfire.net/',
-    'sec-ch-ua': '"Google Chrome";v="135", "Not-A.Brand";v="8", "Chromium";v="135"',
-    'sec-ch-ua-mobile': '?0',
-    'sec-ch-ua-platform': '"Windows"',
-    'DNT': '1'
-  }
-});
-
-function shouldRetryStatus(status?: number): boolean {
-  return status === 403 || status === 429 || (status !== undefined && status >= 500);
-}
+// Replaced in main() once the --http-mode option is known
+let httpClient: HttpClient = createHttpClient();
 
 async function fetchPageHtml(url: string): Promise<string> {
-  for (let attempt = 1; attempt <= MAX_HTTP_ATTEMPTS; attempt++) {
-    try {
-      const response = await httpClient.get<string>(url);
-      return response.data;
-    } catch (error) {
-      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
-      const shouldRetry = shouldRetryStatus(status) && attempt < MAX_HTTP_ATTEMPTS;
-      if (!shouldRetry) {
-        throw error;
-      }
-      const backoffMs = 1500 * attempt;
-      console.warn(
-        `Request failed for ${url} with status ${status ?? 'unknown'} (attempt ${attempt}/${MAX_HTTP_ATTEMPTS}). Retrying in ${backoffMs}ms...`
-      );
-      await delay(backoffMs);
-    }
-  }
-  throw new Error(`Failed to fetch ${url} after ${MAX_HTTP_ATTEMPTS} attempts`);
+  return httpClient.fetchPageHtml(url);
 }
 
 function parseCliArgs(): CliOptions {
   const args = process.argv.slice(2);
 
-  const options: CliOptions = {
+  let rawHttpMode: string | undefined;
+
+  const options: Omit<CliOptions, 'httpMode'> = {
     dryRun: false,
     summariesOnly: false,
     ratingsOnly: false,
@@ -143,6 +97,14 @@ function parseCliArgs(): CliOptions {
       case '--verbose':
         options.verbose = true;
         break;
+      case '--http-mode':
+        if (!args[i + 1] || args[i + 1].startsWith('--')) {
+          console.error('Error: --http-mode requires a mode');
+          process.exit(1);
+        }
+        rawHttpMode = args[i + 1];
+        i++;
+        break;
       case '--help':
         showHelp();
         process.exit(0);
@@ -161,7 +123,12 @@ function parseCliArgs(): CliOptions {
     process.exit(1);
   }
 
-  return options;
+  try {
+    return { ...options, httpMode: resolveHttpFetchMode(rawHttpMode) };
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
 }
 
 function showHelp() {
@@ -176,6 +143,7 @@ Options:
   --summaries-only   Only update missing summaries
   --ratings-only     Only update missing ratings
   --verbose          Enable detailed logging
+  --http-mode MODE   passthrough (default), record or replay; see scraper.ts --help
   --help             Show this help message
 
 Examples:
@@ -183,6 +151,7 @@ Examples:
   node update-novel-details.js --summaries-only
   node update-novel-details.js --ratings-only --verbose
   node update-novel-details.js --limit 10
+  node update-novel-details.js --dry-run --http-mode replay
 `);
 }
 
@@ -218,7 +187,10 @@ async function updateNovelDetails(
   console.log(`  → Processing: "${novel.title}" (missing: ${missingData.join(', ')})`);
 
   try {
-    await delay(REQUEST_DELAY_MS);
+    // Replayed responses come from disk, so there is no server to be polite to
+    if (options.httpMode !== 'replay') {
+      await delay(REQUEST_DELAY_MS);
+    }
 
     const data = await fetchPageHtml(novel.novelUrl);
     const $ = cheerio.load(data);
@@ -306,6 +278,12 @@ async function main() {
     console.log(`📊 Processing limited to ${options.limit} novels`);
   }
 
+  httpClient = createHttpClient({ mode: options.httpMode });
+  httpClient.rateLimiter.onEvent(logRateLimitEvent);
+  if (options.httpMode !== 'passthrough') {
+    console.log(`💾 HTTP fetch mode: ${options.httpMode} (cache: ${getHttpCacheDir()})`);
+  }
+
   console.log('');
 
   const stats: UpdateStats = {
@@ -322,9 +300,17 @@ async function main() {
     durationSeconds: 0
   };
 
+  let selectorHits: SelectorHitRecorder | null = null;
+
   try {
     await connectDB();
 
+    // A dry run leaves the database untouched, selector statistics included
+    if (!options.dryRun) {
+      await initSelectorHealthTables();
+      selectorHits = startSelectorHitRecorder(randomUUID());
+    }
+
     console.log('🔍 Finding novels with missing data...');
     const novels = await findNovelsMissingData(options);
     stats.totalNovels = novels.length;
@@ -375,6 +361,12 @@ async function main() {
 
     console.log(`⚠️  Novels skipped (no URL): ${stats.skippedNoUrl}`);
     console.log(`❌ Errors encountered: ${stats.errors}`);
+    for (const state of httpClient.rateLimiter.listStates()) {
+      console.log(`🚦 ${formatRateLimitState(state)}`);
+    }
+    for (const health of httpClient.proxyPool.listHealth()) {
+      console.log(`🌐 ${formatProxyHealth(health)}`);
+    }
 
     if (options.dryRun) {
       console.log('');
@@ -382,6 +374,8 @@ async function main() {
       console.log('   Remove --dry-run to actually update the novels.');
     }
 
+    await selectorHits?.stop();
+    await httpClient.close();
     await disconnectDB();
     console.log('');
     console.log('👋 Database connection closed. Script complete!');
@@ -0,0 +1,246 @@
+import * as cheerio from 'cheerio';
+
+export type ChapterContentFormat = 'html' | 'text' | 'markdown';
+
+export const CHAPTER_CONTENT_FORMATS: readonly ChapterContentFormat[] = ['html', 'text', 'markdown'];
+
+export interface SanitizeOptions {
+  // Paragraphs whose text matches any of these are dropped (site watermarks, "read on X" lines)
+  watermarkPatterns?: readonly RegExp[];
+}
+
+// Tags kept as-is (without attributes); every other tag is unwrapped or removed
+const BLOCK_TAGS = ['p', 'blockquote', 'hr'];
+const INLINE_TAGS = ['em', 'i', 'strong', 'b', 'u', 's', 'sub', 'sup', 'br'];
+
+// Removed together with everything inside them
+const REMOVED_SELECTORS = [
+  'script',
+  'style',
+  'noscript',
+  'iframe',
+  'ins',
+  'form',
+  'button',
+  'svg',
+  'img',
+  'video',
+  'audio',
+  'object',
+  'embed',
+  'template',
+  '.adsbygoogle',
+  '.ads',
+  '.advertisement',
+  '[style*="display:none"]',
+  '[style*="display: none"]',
+  '[style*="visibility:hidden"]',
+  '[style*="visibility: hidden"]'
+];
+
+// Lines every source injects in one form or another
+const DEFAULT_WATERMARK_PATTERNS: readonly RegExp[] = [
+  /^\s*(?:please\s+)?(?:visit|read (?:it )?(?:on|at)|find (?:the )?(?:original|latest) (?:chapters? )?(?:on|at))\b.{0,60}\.(?:com|net|org)\b/i,
+  /^\s*(?:this (?:chapter|content) (?:is|was) (?:taken|stolen|sourced) from|the source of this content is)\b/i
+];
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function normalizeWhitespace(html: string): string {
+  return html.replace(/&nbsp;|\u00a0/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+// Splits inline HTML into paragraphs at double line breaks
+function toParagraphs(inlineHtml: string): string[] {
+  return inlineHtml
+    .split(/(?:<br\s*\/?>\s*){2,}/i)
+    .map((part) => normalizeWhitespace(part).replace(/^(?:<br\s*\/?>\s*)+|(?:\s*<br\s*\/?>)+$/gi, ''))
+    .filter((part) => part !== '')
+    .map((part) => `<p>${part}</p>`);
+}
+
+/**
+ * Cleans chapter HTML scraped from a source site
+ * - Drops scripts, ads, hidden elements and media
+ * - Keeps only paragraph and emphasis tags, without attributes; other tags are unwrapped
+ * - Drops watermark paragraphs and normalizes whitespace
+ * @param html - Raw chapter HTML
+ * @returns Sanitized HTML with one block per line, or an empty string when nothing is left
+ */
+export function sanitizeChapterHtml(html: string, options: SanitizeOptions = {}): string {
+  const $ = cheerio.load(html);
+  const body = $('body');
+  const allowedTags = [...BLOCK_TAGS, ...INLINE_TAGS];
+
+  body.find(REMOVED_SELECTORS.join(', ')).remove();
+
+  // Headings and leaf divs hold a paragraph's worth of text; other containers are unwrapped
+  body.find('h1, h2, h3, h4, h5, h6, div, section, article, li').each((i, el) => {
+    if ($(el).find('p, div, section, article, li, blockquote').length === 0) {
+      $(el).replaceWith(`<p>${$(el).html() ?? ''}</p>`);
+    }
+  });
+  body.find(`*:not(${allowedTags.join(', ')})`).each((i, el) => {
+    $(el).replaceWith($(el).contents());
+  });
+
+  body.find('*').each((i, el) => {
+    for (const name of Object.keys($(el).attr() ?? {})) {
+      $(el).removeAttr(name);
+    }
+  });
+
+  const watermarkPatterns = [...DEFAULT_WATERMARK_PATTERNS, ...(options.watermarkPatterns ?? [])];
+  const blocks: string[] = [];
+  let inlineBuffer = '';
+
+  const flushInline = () => {
+    blocks.push(...toParagraphs(inlineBuffer));
+    inlineBuffer = '';
+  };
+
+  body
+    .contents()
+    .each((i, node) => {
+      const element = $(node);
+      if (element.is('hr')) {
+        flushInline();
+        blocks.push('<hr>');
+      } else if (element.is('p')) {
+        flushInline();
+        blocks.push(...toParagraphs(element.html() ?? ''));
+      } else if (element.is('blockquote')) {
+        flushInline();
+        const quoted = normalizeWhitespace(element.html() ?? '');
+        if (quoted) {
+          blocks.push(`<blockquote>${quoted}</blockquote>`);
+        }
+      } else if (node.type === 'text') {
+        inlineBuffer += escapeHtml(element.text());
+      } else {
+        inlineBuffer += $.html(element);
+      }
+    });
+  flushInline();
+
+  return blocks
+    .filter((block) => {
+      if (block === '<hr>') {
+        return true;
+      }
+      const text = normalizeWhitespace(cheerio.load(block)('body').text());
+      return text !== '' && !watermarkPatterns.some((pattern) => pattern.test(text));
+    })
+    .join('\n');
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_~[\]])/g, '\\$1');
+}
+
+function renderInline($: cheerio.Root, nodes: cheerio.Cheerio, format: 'text' | 'markdown'): string {
+  return nodes
+    .toArray()
+    .map((node) => {
+      const element = $(node);
+      if (node.type === 'text') {
+        const text = element.text().replace(/\s+/g, ' ');
+        return format === 'markdown' ? escapeMarkdown(text) : text;
+      }
+      if (element.is('br')) {
+        return format === 'markdown' ? '  \n' : '\n';
+      }
+
+      const inner = renderInline($, element.contents(), format);
+      if (format === 'text' || inner.trim() === '') {
+        return inner;
+      }
+      if (element.is('em, i')) {
+        return `*${inner}*`;
+      }
+      if (element.is('strong, b')) {
+        return `**${inner}**`;
+      }
+      if (element.is('s')) {
+        return `~~${inner}~~`;
+      }
+      return inner;
+    })
+    .join('');
+}
+
+function renderBlocks(html: string, format: 'text' | 'markdown'): string {
+  const $ = cheerio.load(html);
+  const blocks: string[] = [];
+  let inlineNodes: cheerio.Element[] = [];
+
+  const flushInline = () => {
+    const text = renderInline($, $(inlineNodes), format).trim();
+    if (text) {
+      blocks.push(text);
+    }
+    inlineNodes = [];
+  };
+
+  $('body')
+    .contents()
+    .each((i, node) => {
+      const element = $(node);
+      if (element.is('hr')) {
+        flushInline();
+        blocks.push(format === 'markdown' ? '---' : '* * *');
+      } else if (element.is('p, blockquote')) {
+        flushInline();
+        const text = renderInline($, element.contents(), format).trim();
+        if (!text) {
+          return;
+        }
+        blocks.push(
+          element.is('blockquote') && format === 'markdown'
+            ? text
+                .split('\n')
+                .map((line) => `> ${line}`)
+                .join('\n')
+            : text
+        );
+      } else {
+        inlineNodes.push(node);
+      }
+    });
+  flushInline();
+
+  return blocks.join('\n\n');
+}
+
+/**
+ * Plain-text rendition of chapter HTML: one paragraph per block, separated by blank lines
+ */
+export function chapterHtmlToText(html: string): string {
+  return renderBlocks(html, 'text');
+}
+
+export function chapterHtmlToMarkdown(html: string): string {
+  return renderBlocks(html, 'markdown');
+}
+
+/**
+ * Renders stored chapter content in the requested format
+ * @param content - Sanitized chapter HTML
+ * @param contentText - Stored plain-text rendition, if any
+ */
+export function renderChapterContent(
+  content: string,
+  contentText: string | null,
+  format: ChapterContentFormat
+): string {
+  switch (format) {
+    case 'text':
+      return contentText ?? chapterHtmlToText(content);
+    case 'markdown':
+      return chapterHtmlToMarkdown(content);
+    default:
+      return content;
+  }
+}
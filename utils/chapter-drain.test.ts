@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it, Mock, spyOn } from 'bun:test';
+
+import { IScrapeJob } from '../models/ScrapeJob.js';
+import { ChapterDrainSteps, drainChapterQueue } from './chapter-drain.js';
+import { CircuitOpenError, createHostRateLimiter } from './rate-limiter.js';
+
+const OPTIONS = { concurrency: 2, minCircuitWaitMs: 5000 };
+
+let warnSpy: Mock<typeof console.warn>;
+
+function chapterJob(id: number): IScrapeJob {
+  return {
+    id,
+    kind: 'chapter',
+    novelUrl: 'https://novelfire.net/book/a',
+    novelId: 1,
+    chapterNumber: id,
+    chapterUrl: `https://novelfire.net/book/a/chapter-${id}`,
+    chapterFrom: null,
+    chapterTo: null,
+    priority: 0,
+    state: 'pending',
+    attempts: 0,
+    maxAttempts: 3,
+    lockedBy: null,
+    lockedUntil: null,
+    lastError: null,
+    requestedBy: null,
+    queuedAt: new Date(),
+    finishedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+}
+
+/**
+ * An in-memory queue shaped like scrape_jobs: claiming counts an attempt, releasing gives it back,
+ * and settling an empty chapter puts it back to pending until its attempts run out
+ */
+function createQueue(jobIds: number[], scrape: (job: IScrapeJob) => Promise<string | null>) {
+  const jobs = new Map(jobIds.map((id) => [id, chapterJob(id)]));
+  const log: string[] = [];
+  const sleeps: number[] = [];
+
+  const steps: ChapterDrainSteps<string | null> = {
+    claim: async () => {
+      const claimed = Array.from(jobs.values())
+        .filter((job) => job.state === 'pending' && job.attempts < job.maxAttempts)
+        .slice(0, 2);
+      for (const job of claimed) {
+        job.state = 'running';
+        job.attempts++;
+      }
+      log.push(`claim ${claimed.map((job) => job.id).join(',')}`);
+      return claimed;
+    },
+    scrape,
+    settle: async (settled, results) => {
+      settled.forEach((job, index) => {
+        job.state = results[index] ? 'done' : job.attempts < job.maxAttempts ? 'pending' : 'failed';
+      });
+      log.push(`settle ${settled.map((job) => job.id).join(',')}`);
+      return true;
+    },
+    release: async (releasedIds) => {
+      for (const id of releasedIds) {
+        const job = jobs.get(id) as IScrapeJob;
+        job.state = 'pending';
+        job.attempts--;
+      }
+      log.push(`release ${releasedIds.join(',')}`);
+    },
+    isShuttingDown: () => false,
+    sleep: async (ms) => {
+      sleeps.push(ms);
+    }
+  };
+
+  return { jobs, log, sleeps, steps };
+}
+
+beforeEach(() => {
+  warnSpy = spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  warnSpy.mockRestore();
+});
+
+describe('drainChapterQueue', () => {
+  it('scrapes and settles batches until the queue is empty', async () => {
+    const queue = createQueue([1, 2, 3], async (job) => `chapter ${job.id}`);
+
+    expect(await drainChapterQueue(queue.steps, OPTIONS)).toBe('drained');
+    expect(queue.log).toEqual(['claim 1,2', 'settle 1,2', 'claim 3', 'settle 3', 'claim ']);
+    expect(Array.from(queue.jobs.values()).map((job) => job.state)).toEqual(['done', 'done', 'done']);
+    expect(queue.sleeps).toEqual([]);
+  });
+
+  it('returns tasks refused by an open circuit without using up their attempts', async () => {
+    const limiter = createHostRateLimiter({ failureThreshold: 1, circuitOpenMs: 60_000 });
+    limiter.recordResult('https://novelfire.net/', 500);
+    let circuitOpen = true;
+    const queue = createQueue([1, 2], async (job) => {
+      if (circuitOpen) {
+        await limiter.acquire(job.chapterUrl as string);
+      }
+      return `chapter ${job.id}`;
+    });
+    queue.steps.sleep = async (ms) => {
+      queue.sleeps.push(ms);
+      circuitOpen = false;
+    };
+
+    expect(await drainChapterQueue(queue.steps, OPTIONS)).toBe('drained');
+    // The loop waits out the circuit once instead of burning through the attempts
+    expect(queue.log).toEqual(['claim 1,2', 'settle ', 'release 1,2', 'claim 1,2', 'settle 1,2', 'claim ']);
+    expect(queue.sleeps).toHaveLength(1);
+    expect(queue.sleeps[0]).toBeGreaterThan(55_000);
+    expect(queue.sleeps[0]).toBeLessThanOrEqual(60_000);
+    expect(Array.from(queue.jobs.values()).map((job) => [job.state, job.attempts])).toEqual([
+      ['done', 1],
+      ['done', 1]
+    ]);
+    expect(String(warnSpy.mock.calls[0][0])).toContain('novelfire.net');
+  });
+
+  it('waits at least the minimum while a half-open probe is in flight', async () => {
+    let refusals = 1;
+    const queue = createQueue([1], async (job) => {
+      if (refusals-- > 0) {
+        throw new CircuitOpenError('novelfire.net', new Date());
+      }
+      return `chapter ${job.id}`;
+    });
+
+    expect(await drainChapterQueue(queue.steps, OPTIONS)).toBe('drained');
+    expect(queue.sleeps).toEqual([5000]);
+  });
+
+  it('still settles the chapters scraped before the circuit opened', async () => {
+    let refusals = 1;
+    const queue = createQueue([1, 2], async (job) => {
+      if (job.id === 2 && refusals-- > 0) {
+        throw new CircuitOpenError('novelfire.net', new Date(Date.now() + 10_000));
+      }
+      return job.id === 1 ? null : `chapter ${job.id}`;
+    });
+
+    expect(await drainChapterQueue(queue.steps, OPTIONS)).toBe('drained');
+    expect(queue.log.slice(0, 3)).toEqual(['claim 1,2', 'settle 1', 'release 2']);
+    // The empty chapter used an attempt; the refused one did not
+    expect(queue.jobs.get(1)?.attempts).toBe(3);
+    expect(queue.jobs.get(2)).toMatchObject({ state: 'done', attempts: 1 });
+  });
+
+  it('stops on shutdown and when the novel task is no longer held', async () => {
+    const shuttingDown = createQueue([1], async () => 'chapter');
+    shuttingDown.steps.isShuttingDown = () => true;
+    expect(await drainChapterQueue(shuttingDown.steps, OPTIONS)).toBe('shutdown');
+    expect(shuttingDown.log).toEqual([]);
+
+    const cancelled = createQueue([1, 2, 3], async () => 'chapter');
+    cancelled.steps.settle = async () => false;
+    expect(await drainChapterQueue(cancelled.steps, OPTIONS)).toBe('cancelled');
+    expect(cancelled.log).toEqual(['claim 1,2']);
+  });
+});
@@ -0,0 +1,116 @@
+import { IScrapeJob } from '../models/ScrapeJob.js';
+import { CircuitOpenError } from './rate-limiter.js';
+
+/**
+ * drained - no chapter tasks left for the novel
+ * shutdown - the process is shutting down; the novel task goes back to the queue
+ * cancelled - the worker no longer holds the novel task (cancelled through the admin API, or its lease was lost)
+ */
+export type ChapterDrainResult = 'drained' | 'shutdown' | 'cancelled';
+
+// How the drain loop reaches the queue and the source; scraper.ts wires these to the database and HTTP client
+export interface ChapterDrainSteps<T> {
+  // Leases the next batch of the novel's chapter tasks
+  claim(): Promise<IScrapeJob[]>;
+  // Throws CircuitOpenError while the chapter's host refuses requests
+  scrape(job: IScrapeJob): Promise<T>;
+  /**
+   * Saves the scraped chapters and settles their tasks. Called with an empty batch when every task
+   * went back to the queue, so the novel task's lease is still renewed.
+   * @returns Whether the worker still holds the novel task
+   */
+  settle(jobs: IScrapeJob[], results: T[]): Promise<boolean>;
+  // Hands tasks back to the queue without counting the attempt
+  release(jobIds: number[]): Promise<void>;
+  isShuttingDown(): boolean;
+  // Resolves after `ms`, or earlier once shutdown is requested
+  sleep(ms: number): Promise<void>;
+}
+
+export interface ChapterDrainOptions {
+  // Chapters scraped at once within a batch
+  concurrency: number;
+  // Shortest wait before claiming again after an open circuit, e.g. while a half-open probe is in flight
+  minCircuitWaitMs: number;
+}
+
+type ChapterOutcome<T> = { job: IScrapeJob; result: T } | { job: IScrapeJob; circuitOpen: CircuitOpenError };
+
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  async function runWorker(): Promise<void> {
+    while (true) {
+      const currentIndex = nextIndex;
+      nextIndex += 1;
+
+      if (currentIndex >= items.length) {
+        return;
+      }
+
+      results[currentIndex] = await worker(items[currentIndex], currentIndex);
+    }
+  }
+
+  const workerCount = Math.min(concurrency, items.length);
+  await Promise.all(Array.from({ length: workerCount }, () => runWorker()));
+  return results;
+}
+
+/**
+ * Claims and scrapes a novel's queued chapter tasks batch by batch until none are left. Tasks refused by
+ * an open circuit go back to the queue without using up an attempt, and nothing more is claimed until
+ * the circuit lets requests through again.
+ */
+export async function drainChapterQueue<T>(
+  steps: ChapterDrainSteps<T>,
+  options: ChapterDrainOptions
+): Promise<ChapterDrainResult> {
+  while (true) {
+    if (steps.isShuttingDown()) {
+      return 'shutdown';
+    }
+    const jobs = await steps.claim();
+    if (jobs.length === 0) {
+      return 'drained';
+    }
+
+    const outcomes = await mapWithConcurrency(jobs, options.concurrency, async (job): Promise<ChapterOutcome<T>> => {
+      try {
+        return { job, result: await steps.scrape(job) };
+      } catch (error) {
+        if (error instanceof CircuitOpenError) {
+          return { job, circuitOpen: error };
+        }
+        throw error;
+      }
+    });
+
+    const scraped = outcomes.filter((outcome) => 'result' in outcome);
+    const refused = outcomes.filter((outcome) => 'circuitOpen' in outcome);
+    const novelJobHeld = await steps.settle(
+      scraped.map((outcome) => outcome.job),
+      scraped.map((outcome) => outcome.result)
+    );
+    if (!novelJobHeld) {
+      return 'cancelled';
+    }
+
+    if (refused.length > 0) {
+      await steps.release(refused.map((outcome) => outcome.job.id));
+      const { host } = refused[0].circuitOpen;
+      const retryAt = Math.max(...refused.map((outcome) => outcome.circuitOpen.retryAt.getTime()));
+      const waitMs = Math.max(retryAt - Date.now(), options.minCircuitWaitMs);
+      console.warn(
+        `  Circuit open for ${host}: returned ${refused.length} chapter task(s) to the queue, ` +
+          `claiming again in ${Math.ceil(waitMs / 1000)}s`
+      );
+      await steps.sleep(waitMs);
+    }
+  }
+}
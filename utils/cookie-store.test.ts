@@ -0,0 +1,154 @@
+import { afterEach, describe, expect, it, setSystemTime } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { createCookieStore, parseSetCookie } from './cookie-store.js';
+
+const NOW = Date.parse('2024-01-01T00:00:00Z');
+const REQUEST_URL = 'https://www.novelfire.net/book/shadow-slave/chapter-1';
+
+afterEach(() => {
+  setSystemTime();
+});
+
+describe('parseSetCookie', () => {
+  it('reads the name, value and attributes', () => {
+    expect(
+      parseSetCookie('session=abc=123; Domain=.NovelFire.net; Path=/book; Secure; HttpOnly', REQUEST_URL, NOW)
+    ).toEqual({
+      name: 'session',
+      value: 'abc=123',
+      domain: 'novelfire.net',
+      hostOnly: false,
+      path: '/book',
+      expiresAt: null,
+      secure: true,
+      httpOnly: true,
+      createdAt: NOW
+    });
+  });
+
+  it('defaults to a host-only cookie on the request path', () => {
+    expect(parseSetCookie('theme=dark', REQUEST_URL, NOW)).toMatchObject({
+      domain: 'www.novelfire.net',
+      hostOnly: true,
+      path: '/book/shadow-slave'
+    });
+    expect(parseSetCookie('theme=dark; Path=relative', 'https://novelfire.net/book', NOW)?.path).toBe('/');
+  });
+
+  it('rejects malformed headers', () => {
+    expect(parseSetCookie('no-separator', REQUEST_URL, NOW)).toBeNull();
+    expect(parseSetCookie('=value', REQUEST_URL, NOW)).toBeNull();
+  });
+
+  it('rejects domains the request does not belong to', () => {
+    expect(parseSetCookie('a=1; Domain=example.com', REQUEST_URL, NOW)).toBeNull();
+    expect(parseSetCookie('a=1; Domain=fire.net', REQUEST_URL, NOW)).toBeNull();
+    expect(parseSetCookie('a=1; Domain=api.novelfire.net', REQUEST_URL, NOW)).toBeNull();
+  });
+
+  it('rejects a single-label domain unless it is the host itself', () => {
+    expect(parseSetCookie('a=1; Domain=net', REQUEST_URL, NOW)).toBeNull();
+    expect(parseSetCookie('a=1; Domain=.com', 'https://novelfire.com/', NOW)).toBeNull();
+    expect(parseSetCookie('a=1; Domain=localhost', 'http://localhost:3000/', NOW)).toMatchObject({
+      domain: 'localhost',
+      hostOnly: true
+    });
+  });
+
+  it('reads Expires and lets Max-Age win over it in either order', () => {
+    expect(parseSetCookie('a=1; Expires=Tue, 02 Jan 2024 00:00:00 GMT', REQUEST_URL, NOW)?.expiresAt).toBe(
+      NOW + 24 * 60 * 60 * 1000
+    );
+    expect(parseSetCookie('a=1; Max-Age=60; Expires=Tue, 02 Jan 2024 00:00:00 GMT', REQUEST_URL, NOW)?.expiresAt).toBe(
+      NOW + 60_000
+    );
+    expect(parseSetCookie('a=1; Expires=Tue, 02 Jan 2024 00:00:00 GMT; Max-Age=60', REQUEST_URL, NOW)?.expiresAt).toBe(
+      NOW + 60_000
+    );
+  });
+
+  it('ignores invalid Expires and Max-Age values', () => {
+    expect(parseSetCookie('a=1; Expires=someday; Max-Age=soon', REQUEST_URL, NOW)?.expiresAt).toBeNull();
+  });
+
+  it('expires the cookie straight away for Max-Age zero or below', () => {
+    expect(parseSetCookie('a=1; Max-Age=0', REQUEST_URL, NOW)?.expiresAt).toBe(NOW);
+    expect(parseSetCookie('a=1; Max-Age=-1', REQUEST_URL, NOW)?.expiresAt).toBe(NOW - 1000);
+  });
+});
+
+describe('createCookieStore', () => {
+  it('sends domain cookies to subdomains and host-only cookies to their host alone', () => {
+    const store = createCookieStore({ filePath: null });
+    store.setCookies('direct', REQUEST_URL, ['shared=1; Domain=novelfire.net; Path=/', 'own=2; Path=/']);
+
+    expect(store.getCookieHeader('direct', 'https://www.novelfire.net/')).toBe('shared=1; own=2');
+    expect(store.getCookieHeader('direct', 'https://api.novelfire.net/')).toBe('shared=1');
+    expect(store.getCookieHeader('direct', 'https://novelfire.net/')).toBe('shared=1');
+    expect(store.getCookieHeader('direct', 'https://notnovelfire.net/')).toBeUndefined();
+  });
+
+  it('matches paths on segment boundaries, longest path first', () => {
+    const store = createCookieStore({ filePath: null });
+    store.setCookies('direct', REQUEST_URL, ['root=1; Path=/', 'book=2; Path=/book', 'slash=3; Path=/book/']);
+
+    expect(store.getCookieHeader('direct', 'https://www.novelfire.net/book/x')).toBe('slash=3; book=2; root=1');
+    expect(store.getCookieHeader('direct', 'https://www.novelfire.net/book')).toBe('book=2; root=1');
+    expect(store.getCookieHeader('direct', 'https://www.novelfire.net/books')).toBe('root=1');
+  });
+
+  it('only sends secure cookies over https', () => {
+    const store = createCookieStore({ filePath: null });
+    store.setCookies('direct', REQUEST_URL, ['token=1; Path=/; Secure']);
+
+    expect(store.hasCookies('direct', 'https://www.novelfire.net/')).toBe(true);
+    expect(store.hasCookies('direct', 'http://www.novelfire.net/')).toBe(false);
+  });
+
+  it('replaces, expires and deletes cookies', () => {
+    setSystemTime(new Date(NOW));
+    const store = createCookieStore({ filePath: null });
+    store.setCookies('direct', REQUEST_URL, ['a=1; Path=/']);
+    setSystemTime(new Date(NOW + 1000));
+    store.setCookies('direct', REQUEST_URL, ['b=1; Path=/; Max-Age=60']);
+    // A replaced cookie keeps its place in the order of creation
+    setSystemTime(new Date(NOW + 2000));
+    store.setCookies('direct', REQUEST_URL, ['a=2; Path=/']);
+    expect(store.getCookieHeader('direct', REQUEST_URL)).toBe('a=2; b=1');
+
+    setSystemTime(new Date(NOW + 61_000));
+    expect(store.getCookieHeader('direct', REQUEST_URL)).toBe('a=2');
+
+    store.setCookies('direct', REQUEST_URL, ['a=gone; Path=/; Max-Age=0']);
+    expect(store.hasCookies('direct', REQUEST_URL)).toBe(false);
+  });
+
+  it('keeps sessions apart', () => {
+    const store = createCookieStore({ filePath: null });
+    store.setCookies('http://proxy-a:8080', REQUEST_URL, ['a=1; Path=/']);
+
+    expect(store.hasCookies('http://proxy-a:8080', REQUEST_URL)).toBe(true);
+    expect(store.hasCookies('direct', REQUEST_URL)).toBe(false);
+  });
+
+  it('saves to and loads from its file, dropping expired cookies', async () => {
+    const storeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cookie-store-'));
+    const filePath = path.join(storeDir, 'nested', 'cookies.json');
+    try {
+      setSystemTime(new Date(NOW));
+      const store = createCookieStore({ filePath });
+      store.setCookies('direct', REQUEST_URL, ['kept=1; Path=/; Max-Age=3600', 'short=1; Path=/; Max-Age=60']);
+      await store.save();
+      expect(fs.readdirSync(path.dirname(filePath))).toEqual(['cookies.json']);
+
+      setSystemTime(new Date(NOW + 120_000));
+      const reloaded = createCookieStore({ filePath });
+      expect(reloaded.getCookieHeader('direct', REQUEST_URL)).toBe('kept=1');
+    } finally {
+      fs.rmSync(storeDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,240 @@
+import fs from 'fs';
+import path from 'path';
+
+const DEFAULT_COOKIE_STORE_PATH = '.http-session/cookies.json';
+const STORE_FILE_VERSION = 1;
+
+export interface StoredCookie {
+  name: string;
+  value: string;
+  // Lower-case, without a leading dot
+  domain: string;
+  // Set when the cookie had no Domain attribute: only sent back to the exact host that set it
+  hostOnly: boolean;
+  path: string;
+  // Epoch milliseconds; null for session cookies
+  expiresAt: number | null;
+  secure: boolean;
+  httpOnly: boolean;
+  createdAt: number;
+}
+
+export interface CookieStore {
+  /**
+   * Stores the cookies from a response's Set-Cookie headers
+   * @param session - Cookie partition, e.g. the proxy the request went through
+   * @param url - URL of the request the response belongs to
+   */
+  setCookies(session: string, url: string, setCookieHeaders: string[] | undefined): void;
+  // Cookie header for a request to `url`, with only the cookies that match it
+  getCookieHeader(session: string, url: string): string | undefined;
+  // Whether the session has any unexpired cookie that would be sent to `url`
+  hasCookies(session: string, url: string): boolean;
+  // Writes the store to disk if it changed; a no-op for in-memory stores
+  save(): Promise<void>;
+}
+
+export function getCookieStorePath(): string {
+  return process.env.COOKIE_STORE_PATH || DEFAULT_COOKIE_STORE_PATH;
+}
+
+// The request path up to its last slash (RFC 6265 section 5.1.4)
+function defaultCookiePath(url: URL): string {
+  const lastSlash = url.pathname.lastIndexOf('/');
+  return lastSlash <= 0 ? '/' : url.pathname.slice(0, lastSlash);
+}
+
+function domainMatches(cookie: StoredCookie, hostname: string): boolean {
+  return cookie.hostOnly
+    ? hostname === cookie.domain
+    : hostname === cookie.domain || hostname.endsWith(`.${cookie.domain}`);
+}
+
+function pathMatches(cookiePath: string, requestPath: string): boolean {
+  return (
+    requestPath === cookiePath ||
+    (requestPath.startsWith(cookiePath) && (cookiePath.endsWith('/') || requestPath[cookiePath.length] === '/'))
+  );
+}
+
+function isExpired(cookie: StoredCookie, now: number): boolean {
+  return cookie.expiresAt !== null && cookie.expiresAt <= now;
+}
+
+/**
+ * Parses one Set-Cookie header
+ * @returns The cookie (already expired when the header deletes it), or null when the header is
+ * malformed or sets a cookie for a domain the request URL does not belong to or a top-level domain
+ */
+export function parseSetCookie(header: string, requestUrl: string, now = Date.now()): StoredCookie | null {
+  const url = new URL(requestUrl);
+  const [nameValue, ...attributes] = header.split(';');
+  const separatorIndex = nameValue.indexOf('=');
+  if (separatorIndex <= 0) {
+    return null;
+  }
+
+  const cookie: StoredCookie = {
+    name: nameValue.slice(0, separatorIndex).trim(),
+    value: nameValue.slice(separatorIndex + 1).trim(),
+    domain: url.hostname.toLowerCase(),
+    hostOnly: true,
+    path: defaultCookiePath(url),
+    expiresAt: null,
+    secure: false,
+    httpOnly: false,
+    createdAt: now
+  };
+  let maxAgeSeconds: number | null = null;
+
+  for (const attribute of attributes) {
+    const [rawKey, ...rawValue] = attribute.split('=');
+    const key = rawKey.trim().toLowerCase();
+    const value = rawValue.join('=').trim();
+
+    switch (key) {
+      case 'domain': {
+        const domain = value.replace(/^\./, '').toLowerCase();
+        if (domain) {
+          cookie.domain = domain;
+          cookie.hostOnly = false;
+        }
+        break;
+      }
+      case 'path':
+        if (value.startsWith('/')) {
+          cookie.path = value;
+        }
+        break;
+      case 'expires': {
+        const expiresAt = Date.parse(value);
+        if (!isNaN(expiresAt)) {
+          cookie.expiresAt = expiresAt;
+        }
+        break;
+      }
+      case 'max-age':
+        if (/^-?\d+$/.test(value)) {
+          maxAgeSeconds = Number(value);
+        }
+        break;
+      case 'secure':
+        cookie.secure = true;
+        break;
+      case 'httponly':
+        cookie.httpOnly = true;
+        break;
+    }
+  }
+
+  // Max-Age wins over Expires
+  if (maxAgeSeconds !== null) {
+    cookie.expiresAt = now + maxAgeSeconds * 1000;
+  }
+  // A single-label Domain such as "com" would share the cookie with every site under it; only the host
+  // with that very name may set it, and then as a host-only cookie (RFC 6265 section 5.3, step 5)
+  if (!cookie.hostOnly && !cookie.domain.includes('.')) {
+    if (cookie.domain !== url.hostname.toLowerCase()) {
+      return null;
+    }
+    cookie.hostOnly = true;
+  }
+  if (!cookie.hostOnly && !domainMatches(cookie, url.hostname.toLowerCase())) {
+    return null;
+  }
+  return cookie;
+}
+
+/**
+ * Creates a cookie store partitioned by session that honours Domain, Path, Expires/Max-Age and Secure
+ * @param options.filePath - JSON file the store is loaded from and saved to; null keeps it in memory
+ */
+export function createCookieStore(options: { filePath?: string | null } = {}): CookieStore {
+  const filePath = options.filePath === undefined ? getCookieStorePath() : options.filePath;
+  const sessions = new Map<string, StoredCookie[]>();
+  let dirty = false;
+
+  if (filePath && fs.existsSync(filePath)) {
+    try {
+      const stored = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      const now = Date.now();
+      for (const [session, cookies] of Object.entries(stored.sessions ?? {})) {
+        sessions.set(
+          session,
+          (cookies as StoredCookie[]).filter((cookie) => !isExpired(cookie, now))
+        );
+      }
+    } catch (error) {
+      console.warn(
+        `Ignoring unreadable cookie store ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  const matchingCookies = (session: string, requestUrl: string): StoredCookie[] => {
+    const url = new URL(requestUrl);
+    const hostname = url.hostname.toLowerCase();
+    const now = Date.now();
+    return (sessions.get(session) ?? [])
+      .filter(
+        (cookie) =>
+          !isExpired(cookie, now) &&
+          domainMatches(cookie, hostname) &&
+          pathMatches(cookie.path, url.pathname) &&
+          (!cookie.secure || url.protocol === 'https:')
+      )
+      .sort((a, b) => b.path.length - a.path.length || a.createdAt - b.createdAt);
+  };
+
+  return {
+    setCookies(session, url, setCookieHeaders) {
+      if (!setCookieHeaders || setCookieHeaders.length === 0) {
+        return;
+      }
+      const now = Date.now();
+      let cookies = (sessions.get(session) ?? []).filter((cookie) => !isExpired(cookie, now));
+
+      for (const header of setCookieHeaders) {
+        const cookie = parseSetCookie(header, url, now);
+        if (!cookie) {
+          continue;
+        }
+        const existing = cookies.find(
+          (candidate) =>
+            candidate.name === cookie.name && candidate.domain === cookie.domain && candidate.path === cookie.path
+        );
+        cookies = cookies.filter((candidate) => candidate !== existing);
+        if (!isExpired(cookie, now)) {
+          cookies.push({ ...cookie, createdAt: existing?.createdAt ?? cookie.createdAt });
+        }
+      }
+
+      sessions.set(session, cookies);
+      dirty = true;
+    },
+
+    getCookieHeader(session, url) {
+      const cookies = matchingCookies(session, url);
+      return cookies.length > 0 ? cookies.map((cookie) => `${cookie.name}=${cookie.value}`).join('; ') : undefined;
+    },
+
+    hasCookies(session, url) {
+      return matchingCookies(session, url).length > 0;
+    },
+
+    async save() {
+      if (!filePath || !dirty) {
+        return;
+      }
+      dirty = false;
+      // Write then rename so a crash never leaves a half-written store behind
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      const temporaryPath = `${filePath}.${process.pid}.tmp`;
+      await fs.promises.writeFile(
+        temporaryPath,
+        JSON.stringify({ version: STORE_FILE_VERSION, sessions: Object.fromEntries(sessions) }, null, 2)
+      );
+      await fs.promises.rename(temporaryPath, filePath);
+    }
+  };
+}
@@ -0,0 +1,251 @@
+import axios, { AxiosInstance } from 'axios';
+
+import {
+  HttpFetcher,
+  HttpFetchMode,
+  HttpResponse,
+  normalizeHeaders,
+  withHttpRecording
+} from './http-recorder.js';
+import { CookieStore, createCookieStore } from './cookie-store.js';
+import { loadProxyPool, ProxyEntry, ProxyPool } from './proxy-pool.js';
+import { CircuitOpenError, createHostRateLimiter, HostRateLimiter } from './rate-limiter.js';
+
+const DEFAULT_MAX_ATTEMPTS = 4;
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_WARMUP_PATHS = ['/', '/latest-release-novels'];
+const WARMUP_GAP_MS = 250;
+
+const BROWSER_USER_AGENTS = [
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/135.0.0.0 Safari/537.36',
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 15_4) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/135.0.0.0 Safari/537.36',
+  'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/135.0.0.0 Safari/537.36',
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/134.0.0.0 Safari/537.36'
+];
+
+// One network attempt, reported to `onRequest` before any retry
+export interface HttpAttempt {
+  url: string;
+  attempt: number;
+  // Response status, or undefined when no response arrived
+  status: number | undefined;
+  // Id of the proxy the request went through, or null for a direct request
+  proxyId: string | null;
+  willRetry: boolean;
+}
+
+export interface HttpClientOptions {
+  // See `HttpFetchMode`; record and replay go through the on-disk store
+  mode?: HttpFetchMode;
+  cacheDir?: string;
+  maxAttempts?: number;
+  timeoutMs?: number;
+  // Proxies to rotate through; defaults to the pool configured in the environment, see loadProxyPool
+  proxyPool?: ProxyPool;
+  // Paces and backs off requests per host; defaults to a limiter of its own
+  rateLimiter?: HostRateLimiter;
+  // Paths fetched to pick up session cookies, before a session's first request and after a 403
+  warmupPaths?: string[];
+  // Defaults to the store at COOKIE_STORE_PATH, see createCookieStore
+  cookieStore?: CookieStore;
+  onRequest?: (attempt: HttpAttempt) => void;
+}
+
+export interface HttpClient {
+  // Fetches a page, honouring the fetch mode; throws after the last failed attempt
+  fetchPage: HttpFetcher;
+  fetchPageHtml(url: string): Promise<string>;
+  // Visits the warmup paths of the URL's origin to refresh session cookies
+  warmupSession(url: string): Promise<void>;
+  rateLimiter: HostRateLimiter;
+  proxyPool: ProxyPool;
+  cookieStore: CookieStore;
+  // Saves the cookie store; call once the client is no longer needed
+  close(): Promise<void>;
+}
+
+export function shouldRetryStatus(status?: number): boolean {
+  return status === 403 || status === 429 || (status !== undefined && status >= 500);
+}
+
+/**
+ * Logs a fetch failure with its HTTP status, without the full axios error dump
+ */
+export function logHttpError(context: string, error: unknown): void {
+  if (error instanceof CircuitOpenError) {
+    console.error(`${context}: ${error.message}`);
+    return;
+  }
+  if (axios.isAxiosError(error)) {
+    console.error(`${context} (status: ${error.response?.status ?? 'unknown'}): ${error.message}`);
+    return;
+  }
+  console.error(context, error);
+}
+
+// Cookies are partitioned by proxy, so a session's cookies only travel through the proxy that received them
+function cookieSession(proxy: ProxyEntry | null): string {
+  return proxy?.id ?? 'direct';
+}
+
+function getRandomUserAgent(): string {
+  return BROWSER_USER_AGENTS[Math.floor(Math.random() * BROWSER_USER_AGENTS.length)];
+}
+
+function buildRequestHeaders(targetUrl: string, attempt: number, cookieHeader?: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    'User-Agent': getRandomUserAgent(),
+    Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8',
+    'Accept-Encoding': 'gzip, deflate, br',
+    'Accept-Language': 'en-US,en;q=0.9',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    Pragma: 'no-cache',
+    Referer: `${new URL(targetUrl).origin}/`,
+    'Upgrade-Insecure-Requests': '1',
+    'Sec-Fetch-Dest': 'document',
+    'Sec-Fetch-Mode': 'navigate',
+    'Sec-Fetch-Site': attempt === 1 ? 'none' : 'same-origin',
+    'Sec-Fetch-User': '?1',
+    'sec-ch-ua': '"Google Chrome";v="135", "Not-A.Brand";v="8", "Chromium";v="135"',
+    'sec-ch-ua-mobile': '?0',
+    'sec-ch-ua-platform': '"Windows"',
+    DNT: '1'
+  };
+
+  if (cookieHeader) {
+    headers.Cookie = cookieHeader;
+  }
+
+  return headers;
+}
+
+/**
+ * Creates the fetch client every entry point uses for the source site: browser-like headers,
+ * cookies persisted between runs per proxy, session warmup, retries on 403/429/5xx, proxy
+ * rotation and per-host rate limiting
+ */
+export function createHttpClient(options: HttpClientOptions = {}): HttpClient {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const warmupPaths = options.warmupPaths ?? DEFAULT_WARMUP_PATHS;
+  const rateLimiter = options.rateLimiter ?? createHostRateLimiter();
+  const proxyPool = options.proxyPool ?? loadProxyPool();
+  const cookieStore = options.cookieStore ?? createCookieStore();
+  // Origins (per cookie session) already warmed up or found with stored cookies in this process
+  const warmedUpSessions = new Set<string>();
+  const axiosClient: AxiosInstance = axios.create({
+    timeout: options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  });
+
+  const saveCookies = async () => {
+    try {
+      await cookieStore.save();
+    } catch (error) {
+      console.error('Error saving the cookie store:', error);
+    }
+  };
+
+  // Warms up the session of one proxy, so the cookies it picks up are the ones sent through it
+  const warmUp = async (targetUrl: string, proxy: ProxyEntry | null) => {
+    const origin = new URL(targetUrl).origin;
+    const session = cookieSession(proxy);
+    warmedUpSessions.add(`${session} ${origin}`);
+    for (const sessionPath of warmupPaths) {
+      const warmupUrl = `${origin}${sessionPath}`;
+      try {
+        await rateLimiter.acquire(warmupUrl);
+        const response = await axiosClient.get(warmupUrl, {
+          headers: buildRequestHeaders(warmupUrl, 1, cookieStore.getCookieHeader(session, warmupUrl)),
+          proxy: proxy?.config
+        });
+        rateLimiter.recordResult(warmupUrl, response.status);
+        proxyPool.recordResult(proxy, response.status);
+        cookieStore.setCookies(session, warmupUrl, response.headers['set-cookie']);
+        await new Promise((resolve) => setTimeout(resolve, WARMUP_GAP_MS));
+      } catch (error) {
+        if (axios.isAxiosError(error)) {
+          rateLimiter.recordResult(warmupUrl, error.response?.status, error.response?.headers['retry-after']);
+          proxyPool.recordResult(proxy, error.response?.status);
+        }
+        logHttpError(`Session warmup request failed for ${warmupUrl}`, error);
+      }
+    }
+    await saveCookies();
+  };
+
+  // Only the first request of a session without stored cookies warms it up
+  const needsWarmup = (url: string, proxy: ProxyEntry | null): boolean => {
+    const key = `${cookieSession(proxy)} ${new URL(url).origin}`;
+    if (warmedUpSessions.has(key)) {
+      return false;
+    }
+    if (cookieStore.hasCookies(cookieSession(proxy), url)) {
+      warmedUpSessions.add(key);
+      return false;
+    }
+    return true;
+  };
+
+  const fetchLivePage = async (url: string): Promise<HttpResponse> => {
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      // Throws CircuitOpenError without retrying
+      await rateLimiter.acquire(url);
+      const proxy = proxyPool.acquire(url);
+      const proxyId = proxy?.id ?? null;
+      const session = cookieSession(proxy);
+      if (needsWarmup(url, proxy)) {
+        await warmUp(url, proxy);
+      }
+      try {
+        const response = await axiosClient.get<string>(url, {
+          headers: buildRequestHeaders(url, attempt, cookieStore.getCookieHeader(session, url)),
+          proxy: proxy?.config
+        });
+        rateLimiter.recordResult(url, response.status);
+        proxyPool.recordResult(proxy, response.status);
+        cookieStore.setCookies(session, url, response.headers['set-cookie']);
+        options.onRequest?.({ url, attempt, status: response.status, proxyId, willRetry: false });
+        return {
+          url,
+          status: response.status,
+          headers: normalizeHeaders(response.headers),
+          body: response.data
+        };
+      } catch (error) {
+        const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+        const retryAfter = axios.isAxiosError(error) ? error.response?.headers['retry-after'] : undefined;
+        rateLimiter.recordResult(url, status, retryAfter);
+        proxyPool.recordResult(proxy, status);
+        const willRetry = shouldRetryStatus(status) && attempt < maxAttempts;
+        options.onRequest?.({ url, attempt, status, proxyId, willRetry });
+        if (!willRetry) {
+          throw error;
+        }
+        console.warn(
+          `Request failed for ${url} with status ${status ?? 'unknown'}${proxyId ? ` via ${proxyId}` : ''} ` +
+            `(attempt ${attempt}/${maxAttempts}). Retrying...`
+        );
+        // The limiter has paused the host; the next acquire() waits out the backoff
+        if (status === 403) {
+          await warmUp(url, proxy);
+        }
+      }
+    }
+    throw new Error(`Failed to fetch ${url} after ${maxAttempts} attempts`);
+  };
+
+  const fetchPage = withHttpRecording(fetchLivePage, {
+    mode: options.mode ?? 'passthrough',
+    cacheDir: options.cacheDir
+  });
+
+  return {
+    fetchPage,
+    fetchPageHtml: async (url) => (await fetchPage(url)).body,
+    warmupSession: (url) => warmUp(url, proxyPool.acquire(url)),
+    rateLimiter,
+    proxyPool,
+    cookieStore,
+    close: saveCookies
+  };
+}
@@ -0,0 +1,138 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * passthrough - always hit the network
+ * record      - hit the network and save every successful response to the store
+ * replay      - serve responses from the store only; nothing goes over the network
+ */
+export type HttpFetchMode = 'passthrough' | 'record' | 'replay';
+
+export const HTTP_FETCH_MODES: readonly HttpFetchMode[] = ['passthrough', 'record', 'replay'];
+
+const DEFAULT_HTTP_CACHE_DIR = '.http-cache';
+
+// Never written to disk: recordings may be shared or committed as fixtures
+const UNRECORDED_HEADERS = new Set(['set-cookie', 'cookie', 'authorization']);
+
+export interface HttpResponse {
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export type HttpFetcher = (url: string) => Promise<HttpResponse>;
+
+interface RecordedResponse extends HttpResponse {
+  recordedAt: string;
+}
+
+export class HttpReplayMissError extends Error {
+  url: string;
+  constructor(url: string, recordingPath: string) {
+    super(`No recorded response for ${url} (expected ${recordingPath})`);
+    this.url = url;
+  }
+}
+
+/**
+ * Flattens client-specific header objects (e.g. axios headers) into plain strings
+ */
+export function normalizeHeaders(headers: Record<string, unknown>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([name, value]) => [name.toLowerCase(), Array.isArray(value) ? value.join(', ') : String(value)])
+  );
+}
+
+/**
+ * Resolves the fetch mode from a CLI value, then the HTTP_FETCH_MODE env var
+ * @throws Error when the value is not a known mode
+ */
+export function resolveHttpFetchMode(cliValue?: string | null): HttpFetchMode {
+  const rawMode = cliValue ?? process.env.HTTP_FETCH_MODE ?? 'passthrough';
+  if (!HTTP_FETCH_MODES.includes(rawMode as HttpFetchMode)) {
+    throw new Error(`Unknown HTTP fetch mode "${rawMode}". Use one of: ${HTTP_FETCH_MODES.join(', ')}`);
+  }
+  return rawMode as HttpFetchMode;
+}
+
+export function getHttpCacheDir(): string {
+  return process.env.HTTP_CACHE_DIR || DEFAULT_HTTP_CACHE_DIR;
+}
+
+/**
+ * Location of a URL's recording: <cacheDir>/<hostname>/<sha256 of the URL>.json
+ */
+export function getRecordingPath(url: string, cacheDir: string = getHttpCacheDir()): string {
+  const urlHash = crypto.createHash('sha256').update(url).digest('hex');
+  return path.join(cacheDir, new URL(url).hostname, `${urlHash}.json`);
+}
+
+async function readRecording(url: string, cacheDir: string): Promise<HttpResponse> {
+  const recordingPath = getRecordingPath(url, cacheDir);
+  let raw: string;
+  try {
+    raw = await fs.readFile(recordingPath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new HttpReplayMissError(url, recordingPath);
+    }
+    throw error;
+  }
+
+  const recording = JSON.parse(raw) as RecordedResponse;
+  return {
+    url: recording.url,
+    status: recording.status,
+    headers: recording.headers,
+    body: recording.body
+  };
+}
+
+async function writeRecording(response: HttpResponse, requestUrl: string, cacheDir: string): Promise<void> {
+  const recordingPath = getRecordingPath(requestUrl, cacheDir);
+  const headers = Object.fromEntries(
+    Object.entries(response.headers).filter(([name]) => !UNRECORDED_HEADERS.has(name.toLowerCase()))
+  );
+  const recording: RecordedResponse = {
+    ...response,
+    headers,
+    recordedAt: new Date().toISOString()
+  };
+
+  // Write then rename so a crash never leaves a half-written recording behind
+  await fs.mkdir(path.dirname(recordingPath), { recursive: true });
+  const temporaryPath = `${recordingPath}.${process.pid}.tmp`;
+  await fs.writeFile(temporaryPath, JSON.stringify(recording, null, 2));
+  await fs.rename(temporaryPath, recordingPath);
+}
+
+/**
+ * Wraps a network fetcher so it records to, or replays from, the on-disk store
+ * @param fetcher - Fetcher that performs the real request
+ * @param options.mode - Fetch mode, see `HttpFetchMode`
+ * @param options.cacheDir - Store location (default: HTTP_CACHE_DIR or .http-cache)
+ */
+export function withHttpRecording(
+  fetcher: HttpFetcher,
+  options: { mode: HttpFetchMode; cacheDir?: string }
+): HttpFetcher {
+  const cacheDir = options.cacheDir ?? getHttpCacheDir();
+
+  switch (options.mode) {
+    case 'replay':
+      return (url) => readRecording(url, cacheDir);
+    case 'record':
+      return async (url) => {
+        const response = await fetcher(url);
+        await writeRecording(response, url, cacheDir);
+        return response;
+      };
+    default:
+      return fetcher;
+  }
+}
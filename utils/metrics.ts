@@ -0,0 +1,249 @@
+import { timingSafeEqual } from 'crypto';
+import http from 'http';
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+// Seconds; covers fast DB lookups up to slow page fetches
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+type Labels = Record<string, string | number>;
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(names: readonly string[], values: readonly string[], extra = ''): string {
+  const pairs = names.map((name, index) => `${name}="${escapeLabelValue(values[index])}"`);
+  if (extra) {
+    pairs.push(extra);
+  }
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+abstract class Metric {
+  readonly name: string;
+  readonly help: string;
+  readonly labelNames: readonly string[];
+  abstract readonly type: 'counter' | 'gauge' | 'histogram';
+
+  constructor(name: string, help: string, labelNames: readonly string[]) {
+    this.name = name;
+    this.help = help;
+    this.labelNames = labelNames;
+  }
+
+  protected labelValues(labels: Labels): string[] {
+    return this.labelNames.map((name) => String(labels[name] ?? ''));
+  }
+
+  protected abstract renderSamples(): string[];
+
+  render(): string {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.renderSamples()].join('\n');
+  }
+}
+
+export class Counter extends Metric {
+  readonly type = 'counter';
+  private readonly values = new Map<string, { labels: string[]; value: number }>();
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const labelValues = this.labelValues(labels);
+    const key = labelValues.join('\u0000');
+    const entry = this.values.get(key) ?? { labels: labelValues, value: 0 };
+    entry.value += amount;
+    this.values.set(key, entry);
+  }
+
+  protected renderSamples(): string[] {
+    return Array.from(this.values.values()).map(
+      (entry) => `${this.name}${formatLabels(this.labelNames, entry.labels)} ${entry.value}`
+    );
+  }
+}
+
+export class Gauge extends Metric {
+  readonly type = 'gauge';
+  private readonly values = new Map<string, { labels: string[]; value: number }>();
+
+  set(labels: Labels, value: number): void {
+    const labelValues = this.labelValues(labels);
+    this.values.set(labelValues.join('\u0000'), { labels: labelValues, value });
+  }
+
+  protected renderSamples(): string[] {
+    return Array.from(this.values.values()).map(
+      (entry) => `${this.name}${formatLabels(this.labelNames, entry.labels)} ${entry.value}`
+    );
+  }
+}
+
+export class Histogram extends Metric {
+  readonly type = 'histogram';
+  private readonly buckets: readonly number[];
+  private readonly values = new Map<string, { labels: string[]; counts: number[]; sum: number; count: number }>();
+
+  constructor(name: string, help: string, labelNames: readonly string[], buckets: readonly number[] = DEFAULT_BUCKETS) {
+    super(name, help, labelNames);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const labelValues = this.labelValues(labels);
+    const key = labelValues.join('\u0000');
+    const entry = this.values.get(key) ?? {
+      labels: labelValues,
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0
+    };
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        entry.counts[index]++;
+      }
+    });
+    entry.sum += value;
+    entry.count++;
+    this.values.set(key, entry);
+  }
+
+  /**
+   * Starts timing an operation
+   * @returns Function that records the elapsed seconds; labels passed to it are merged in
+   */
+  startTimer(labels: Labels = {}): (extraLabels?: Labels) => void {
+    const startedAt = process.hrtime.bigint();
+    return (extraLabels = {}) => {
+      this.observe({ ...labels, ...extraLabels }, Number(process.hrtime.bigint() - startedAt) / 1e9);
+    };
+  }
+
+  protected renderSamples(): string[] {
+    return Array.from(this.values.values()).flatMap((entry) => [
+      ...this.buckets.map(
+        (bound, index) =>
+          `${this.name}_bucket${formatLabels(this.labelNames, entry.labels, `le="${bound}"`)} ${entry.counts[index]}`
+      ),
+      `${this.name}_bucket${formatLabels(this.labelNames, entry.labels, 'le="+Inf"')} ${entry.count}`,
+      `${this.name}_sum${formatLabels(this.labelNames, entry.labels)} ${entry.sum}`,
+      `${this.name}_count${formatLabels(this.labelNames, entry.labels)} ${entry.count}`
+    ]);
+  }
+}
+
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Metric>();
+  private readonly collectors: Array<() => Promise<void> | void> = [];
+
+  private register<T extends Metric>(metric: T): T {
+    const existing = this.metrics.get(metric.name);
+    if (existing) {
+      if (existing.type !== metric.type) {
+        throw new Error(`Metric ${metric.name} is already registered as a ${existing.type}`);
+      }
+      return existing as T;
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+
+  counter(name: string, help: string, labelNames: readonly string[] = []): Counter {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames: readonly string[] = []): Gauge {
+    return this.register(new Gauge(name, help, labelNames));
+  }
+
+  histogram(name: string, help: string, labelNames: readonly string[] = [], buckets?: readonly number[]): Histogram {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  /**
+   * Runs before every render, e.g. to refresh gauges read from the database. A failing
+   * collector is logged and leaves its gauges at their previous values.
+   */
+  onCollect(collector: () => Promise<void> | void): void {
+    this.collectors.push(collector);
+  }
+
+  /**
+   * Renders every metric in the Prometheus text exposition format
+   */
+  async render(): Promise<string> {
+    for (const collector of this.collectors) {
+      try {
+        await collector();
+      } catch (error) {
+        console.error('Error collecting metrics:', error);
+      }
+    }
+    return `${Array.from(this.metrics.values())
+      .map((metric) => metric.render())
+      .join('\n')}\n`;
+  }
+}
+
+// Shared by everything in the process; the API and the scraper each expose it
+export const metrics = new MetricsRegistry();
+
+const processStartTimeSeconds = Math.floor(Date.now() / 1000 - process.uptime());
+const processMemory = metrics.gauge('process_resident_memory_bytes', 'Resident memory size in bytes.');
+metrics
+  .gauge('process_start_time_seconds', 'Start time of the process since unix epoch in seconds.')
+  .set({}, processStartTimeSeconds);
+metrics.onCollect(() => processMemory.set({}, process.memoryUsage().rss));
+
+/**
+ * Checks a request's bearer token against METRICS_TOKEN; without METRICS_TOKEN every request is allowed
+ */
+export function isMetricsRequestAuthorized(authorizationHeader: string | null | undefined): boolean {
+  const expectedToken = process.env.METRICS_TOKEN;
+  if (!expectedToken) {
+    return true;
+  }
+  const providedToken = Buffer.from(authorizationHeader?.replace(/^Bearer /, '') ?? '');
+  const expected = Buffer.from(expectedToken);
+  return providedToken.length === expected.length && timingSafeEqual(providedToken, expected);
+}
+
+// Liveness report served on GET /health; `healthy: false` answers 503
+export interface HealthReport {
+  healthy: boolean;
+  [detail: string]: unknown;
+}
+
+/**
+ * Serves GET /metrics on its own port, for processes without an HTTP API (e.g. the scraper)
+ * @param port - Port to listen on
+ * @param options.healthCheck - Also serve GET /health (no token needed) with the report it returns
+ * @returns The server; close it when the process is done. A listen error (e.g. port in use) is logged, not thrown
+ */
+export function startMetricsServer(port: number, options: { healthCheck?: () => HealthReport } = {}): http.Server {
+  const server = http.createServer(async (request, response) => {
+    const pathname = request.url?.split('?')[0];
+    if (request.method === 'GET' && pathname === '/health' && options.healthCheck) {
+      const report = options.healthCheck();
+      response
+        .writeHead(report.healthy ? 200 : 503, { 'content-type': 'application/json; charset=utf-8' })
+        .end(JSON.stringify(report));
+      return;
+    }
+    if (request.method !== 'GET' || pathname !== '/metrics') {
+      response.writeHead(404, { 'content-type': 'text/plain; charset=utf-8' }).end('Not found\n');
+      return;
+    }
+    if (!isMetricsRequestAuthorized(request.headers.authorization)) {
+      response.writeHead(401, { 'content-type': 'text/plain; charset=utf-8' }).end('Unauthorized\n');
+      return;
+    }
+    response.writeHead(200, { 'content-type': PROMETHEUS_CONTENT_TYPE }).end(await metrics.render());
+  });
+
+  // A port already in use should cost the process its metrics, not the process itself
+  server.on('error', (error) => {
+    console.warn(`Metrics server could not listen on port ${port}, carrying on without metrics: ${error.message}`);
+  });
+  server.listen(port);
+  return server;
+}
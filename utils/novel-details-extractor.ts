@@ -1,5 +1,7 @@
 import * as cheerio from 'cheerio';
 
+import { extractField, loadSelectorProfile, numberValue, SelectorProfile, textValue } from './selector-profile.js';
+
 // Interface for extracted novel details
 export interface ExtractedNovelDetails {
   summary: string | null;
@@ -19,58 +21,21 @@ export interface ExtractionResult {
 }
 
 /**
- * Validates and parses a rating string into a number
- * @param ratingText - Raw rating text from HTML
- * @returns Parsed rating number or null if invalid
- */
-function parseRating(ratingText: string): number | null {
-  if (!ratingText || typeof ratingText !== 'string') {
-    return null;
-  }
-
-  const rating = parseFloat(ratingText.trim());
-
-  // Validate rating is a number and within reasonable range
-  if (isNaN(rating) || rating < 0 || rating > 10) {
-    return null;
-  }
-
-  return rating;
-}
-
-/**
- * Extracts novel summary using multiple fallback selectors
+ * Extracts novel summary using the profile's fallback selectors
  * @param $ - Cheerio instance
+ * @param profile - Selector profile for the page's source
  * @returns Object with summary value and successful selector
  */
-function extractSummary($: cheerio.Root): { value: string | null; selector: string | null } {
-  // Define summary selectors in priority order
-  const summarySelectors = [
-    '.summary .introduce .inner', // Current working selector
-    '.content.expand-wrapper', // New selector for reported issue
-    '.summary', // Broader fallback
-    '.content', // Most general fallback
-    'meta[name="description"]' // Meta description as last resort
-  ];
-
-  for (const selector of summarySelectors) {
-    try {
-      let summaryText: string | null = null;
-
-      if (selector === 'meta[name="description"]') {
-        // Special handling for meta description
-        summaryText = $(selector).attr('content') || null;
-      } else {
-        summaryText = $(selector).text().trim() || null;
-      }
-
-      if (summaryText && summaryText.length > 0) {
-        console.log(`  ✓ Summary extracted using selector: ${selector}`);
-        return { value: summaryText, selector };
-      }
-    } catch (error) {
-      console.warn(`  ! Error trying summary selector '${selector}':`, error);
-    }
+function extractSummary(
+  $: cheerio.Root,
+  profile: SelectorProfile
+): { value: string | null; selector: string | null } {
+  const match = extractField($, profile.novel.summary, '');
+  const summaryText = textValue(match);
+
+  if (summaryText) {
+    console.log(`  ✓ Summary extracted using selector: ${match.selector}`);
+    return { value: summaryText, selector: match.selector };
   }
 
   console.warn(`  ! No summary found with any selector`);
@@ -78,37 +43,22 @@ function extractSummary($: cheerio.Root): { value: string | null; selector: stri
 }
 
 /**
- * Extracts novel rating using multiple fallback selectors
+ * Extracts novel rating using the profile's fallback selectors.
+ * Values the profile's number transform rejects (e.g. "N/A" or out of range) fall through to the next selector.
  * @param $ - Cheerio instance
+ * @param profile - Selector profile for the page's source
  * @returns Object with rating value and successful selector
  */
-function extractRating($: cheerio.Root): { value: number | null; selector: string | null } {
-  // Define rating selectors in priority order
-  const ratingSelectors = [
-    'strong.nub', // Primary rating selector (provided by user)
-    '.rating .value', // Alternative rating selector
-    '[class*="rating"] strong', // Broader rating fallback
-    '.score', // Another common rating class
-    '.rating-value' // Generic rating value class
-  ];
-
-  for (const selector of ratingSelectors) {
-    try {
-      const ratingText = $(selector).text().trim();
-
-      if (ratingText) {
-        const parsedRating = parseRating(ratingText);
-
-        if (parsedRating !== null) {
-          console.log(`  ✓ Rating extracted using selector: ${selector} (value: ${parsedRating})`);
-          return { value: parsedRating, selector };
-        } else {
-          console.warn(`  ! Invalid rating value '${ratingText}' from selector: ${selector}`);
-        }
-      }
-    } catch (error) {
-      console.warn(`  ! Error trying rating selector '${selector}':`, error);
-    }
+function extractRating(
+  $: cheerio.Root,
+  profile: SelectorProfile
+): { value: number | null; selector: string | null } {
+  const match = extractField($, profile.novel.rating, '');
+  const rating = numberValue(match);
+
+  if (rating !== null) {
+    console.log(`  ✓ Rating extracted using selector: ${match.selector} (value: ${rating})`);
+    return { value: rating, selector: match.selector };
   }
 
   console.warn(`  ! No valid rating found with any selector`);
@@ -118,14 +68,18 @@ function extractRating($: cheerio.Root): { value: number | null; selector: strin
 /**
  * Main function to extract both summary and rating from a novel page
  * @param $ - Cheerio instance loaded with novel page HTML
+ * @param profile - Selector profile to use (default: the novelfire profile)
  * @returns Object containing extracted summary and rating with metadata
  */
-export function extractNovelDetails($: cheerio.Root): ExtractionResult {
+export function extractNovelDetails(
+  $: cheerio.Root,
+  profile: SelectorProfile = loadSelectorProfile('novelfire')
+): ExtractionResult {
   console.log(`  → Extracting novel details (summary and rating)...`);
 
   // Extract summary and rating
-  const summaryResult = extractSummary($);
-  const ratingResult = extractRating($);
+  const summaryResult = extractSummary($, profile);
+  const ratingResult = extractRating($, profile);
 
   // Log overall results
   if (summaryResult.value && ratingResult.value) {
@@ -147,10 +101,14 @@ export function extractNovelDetails($: cheerio.Root): ExtractionResult {
 /**
  * Simplified function that returns just the values (for backward compatibility)
  * @param $ - Cheerio instance loaded with novel page HTML
+ * @param profile - Selector profile to use (default: the novelfire profile)
  * @returns Object with just the extracted values
  */
-export function extractNovelDetailsSimple($: cheerio.Root): ExtractedNovelDetails {
-  const result = extractNovelDetails($);
+export function extractNovelDetailsSimple(
+  $: cheerio.Root,
+  profile: SelectorProfile = loadSelectorProfile('novelfire')
+): ExtractedNovelDetails {
+  const result = extractNovelDetails($, profile);
   return {
     summary: result.summary.value,
     rating: result.rating.value
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'bun:test';
+
+import { normalizeNovelStatus, parseNovelStats, parseStatCount } from './novel-stats.js';
+
+describe('parseStatCount', () => {
+  it('reads a plain count followed by a word', () => {
+    expect(parseStatCount('1 Bookmarks')).toBe(1);
+    expect(parseStatCount('2 Chapters')).toBe(2);
+    expect(parseStatCount('5 Months ago')).toBe(5);
+  });
+
+  it('scales K, M and B suffixes', () => {
+    expect(parseStatCount('1.2K')).toBe(1200);
+    expect(parseStatCount('3M')).toBe(3_000_000);
+    expect(parseStatCount('12.3 k')).toBe(12_300);
+    expect(parseStatCount('2B Views')).toBe(2_000_000_000);
+  });
+
+  it('drops thousands separators', () => {
+    expect(parseStatCount('12,345')).toBe(12_345);
+    expect(parseStatCount('1,234 Chapters')).toBe(1234);
+  });
+
+  it('takes the first number in the text', () => {
+    expect(parseStatCount('RANK 45')).toBe(45);
+    expect(parseStatCount('2200+')).toBe(2200);
+  });
+
+  it('returns null without a number', () => {
+    expect(parseStatCount('N/A')).toBeNull();
+    expect(parseStatCount('')).toBeNull();
+    expect(parseStatCount(null)).toBeNull();
+    expect(parseStatCount(undefined)).toBeNull();
+  });
+});
+
+describe('normalizeNovelStatus', () => {
+  it('maps source labels to a status', () => {
+    expect(normalizeNovelStatus('Ongoing')).toBe('ongoing');
+    expect(normalizeNovelStatus(' Completed ')).toBe('completed');
+    expect(normalizeNovelStatus('On Hold')).toBe('hiatus');
+    expect(normalizeNovelStatus('Hiatus (previously Ongoing)')).toBe('hiatus');
+  });
+
+  it('falls back to unknown', () => {
+    expect(normalizeNovelStatus('Dropped?')).toBe('unknown');
+    expect(normalizeNovelStatus(null)).toBe('unknown');
+  });
+});
+
+describe('parseNovelStats', () => {
+  it('parses every stat of a novel', () => {
+    expect(
+      parseNovelStats({ views: '1.2M', bookmarks: '1 Bookmarks', totalChapters: '12,345', rank: 'RANK 7', status: null })
+    ).toEqual({
+      viewsCount: 1_200_000,
+      bookmarksCount: 1,
+      totalChaptersCount: 12_345,
+      rankPosition: 7,
+      normalizedStatus: 'unknown'
+    });
+  });
+});
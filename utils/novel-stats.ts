@@ -0,0 +1,65 @@
+export type NovelStatus = 'ongoing' | 'completed' | 'hiatus' | 'unknown';
+
+export const NOVEL_STATUSES: readonly NovelStatus[] = ['ongoing', 'completed', 'hiatus', 'unknown'];
+
+// Numeric counterparts of a novel's display stats, see parseNovelStats
+export interface NovelStats {
+  viewsCount: number | null;
+  bookmarksCount: number | null;
+  totalChaptersCount: number | null;
+  rankPosition: number | null;
+  normalizedStatus: NovelStatus;
+}
+
+// First number in the text, with an optional K/M/B suffix that ends a word ("1 Bookmarks" is not a billion)
+const STAT_COUNT_PATTERN = /(\d[\d,]*(?:\.\d+)?)(?:\s*([kmb])\b)?/i;
+
+const STAT_MULTIPLIERS: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9 };
+
+// First match wins; hiatus comes first as its labels can also mention the previous state
+const STATUS_PATTERNS: Array<[RegExp, NovelStatus]> = [
+  [/hiatus|paused|on hold|suspended/i, 'hiatus'],
+  [/complete|finished|ended/i, 'completed'],
+  [/ongoing|on-going|serializ|updating|releasing/i, 'ongoing']
+];
+
+/**
+ * Reads a scraped stat such as "12.3K", "1,234 Chapters", "2200+" or "RANK 45" as an integer
+ * @returns null when the text holds no number
+ */
+export function parseStatCount(value: string | null | undefined): number | null {
+  const match = value?.match(STAT_COUNT_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const multiplier = match[2] ? STAT_MULTIPLIERS[match[2].toLowerCase()] : 1;
+  const count = Math.round(Number(match[1].replace(/,/g, '')) * multiplier);
+  return Number.isSafeInteger(count) ? count : null;
+}
+
+export function normalizeNovelStatus(value: string | null | undefined): NovelStatus {
+  const status = value?.trim() ?? '';
+  for (const [pattern, normalized] of STATUS_PATTERNS) {
+    if (pattern.test(status)) {
+      return normalized;
+    }
+  }
+  return 'unknown';
+}
+
+export function parseNovelStats(fields: {
+  views: string | null;
+  bookmarks: string | null;
+  totalChapters: string | null;
+  rank: string | null;
+  status: string | null;
+}): NovelStats {
+  return {
+    viewsCount: parseStatCount(fields.views),
+    bookmarksCount: parseStatCount(fields.bookmarks),
+    totalChaptersCount: parseStatCount(fields.totalChapters),
+    rankPosition: parseStatCount(fields.rank),
+    normalizedStatus: normalizeNovelStatus(fields.status)
+  };
+}
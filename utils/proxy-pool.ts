@@ -0,0 +1,251 @@
+import fs from 'fs';
+
+/**
+ * request - every request picks the healthiest proxy
+ * session - each target host keeps its proxy (and so its cookies) until that proxy is taken out of rotation
+ */
+export type ProxyRotation = 'request' | 'session';
+
+export const PROXY_ROTATIONS: readonly ProxyRotation[] = ['request', 'session'];
+
+export interface ProxyConfig {
+  protocol: string;
+  host: string;
+  port: number;
+  auth?: { username: string; password: string };
+}
+
+export interface ProxyEntry {
+  // protocol://host:port, without credentials, so it is safe to log
+  id: string;
+  config: ProxyConfig;
+}
+
+export interface ProxyHealth {
+  id: string;
+  requests: number;
+  failures: number;
+  failureRate: number;
+  consecutive403s: number;
+  timesBenched: number;
+  // Set while the proxy is out of rotation
+  benchedUntil: Date | null;
+}
+
+export interface ProxyPoolOptions {
+  rotation: ProxyRotation;
+  // 403s in a row that take a proxy out of rotation, and for how long
+  max403s: number;
+  benchMs: number;
+}
+
+export const DEFAULT_PROXY_POOL_OPTIONS: ProxyPoolOptions = {
+  rotation: 'session',
+  max403s: 3,
+  benchMs: 10 * 60 * 1000
+};
+
+export interface ProxyPool {
+  size: number;
+  rotation: ProxyRotation;
+  /**
+   * Picks the proxy for a request to `url`
+   * @returns The proxy, or null when the pool is empty and requests go out directly
+   */
+  acquire(url: string): ProxyEntry | null;
+  /**
+   * Scores a proxy on a request's outcome
+   * @param status - Response status, or undefined when no response arrived
+   */
+  recordResult(proxy: ProxyEntry | null, status: number | undefined): void;
+  listHealth(): ProxyHealth[];
+}
+
+interface ProxyState extends ProxyEntry {
+  requests: number;
+  failures: number;
+  consecutive403s: number;
+  timesBenched: number;
+  benchedUntil: number;
+  lastUsedAt: number;
+}
+
+export function parseProxyUrl(raw?: string | null): ProxyConfig | null {
+  if (!raw) {
+    return null;
+  }
+  try {
+    const proxyUrl = new URL(raw);
+    return {
+      protocol: proxyUrl.protocol.replace(':', ''),
+      host: proxyUrl.hostname,
+      port: parseInt(proxyUrl.port || (proxyUrl.protocol === 'https:' ? '443' : '80'), 10),
+      auth: proxyUrl.username
+        ? { username: decodeURIComponent(proxyUrl.username), password: decodeURIComponent(proxyUrl.password) }
+        : undefined
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Splits a proxy list (one URL per line or comma-separated); blank lines and # comments are ignored
+ */
+export function parseProxyList(text: string): string[] {
+  return text
+    .split(/[\n,]/)
+    .map((line) => line.replace(/#.*$/, '').trim())
+    .filter(Boolean);
+}
+
+// Laplace-smoothed, so a proxy with a handful of requests is not judged on them alone
+function failureScore(proxy: ProxyState): number {
+  return (proxy.failures + 1) / (proxy.requests + 2);
+}
+
+function isFailureStatus(status: number | undefined): boolean {
+  return status === undefined || status === 403 || status === 429 || status >= 500;
+}
+
+/**
+ * Creates a pool that spreads requests over proxies, preferring the lowest failure rate, and
+ * benches a proxy for `benchMs` after `max403s` 403s in a row
+ * @param proxyUrls - Proxy URLs; unparsable entries are skipped with a warning
+ */
+export function createProxyPool(proxyUrls: string[], overrides: Partial<ProxyPoolOptions> = {}): ProxyPool {
+  const options = { ...DEFAULT_PROXY_POOL_OPTIONS, ...overrides };
+  const proxies: ProxyState[] = [];
+  // Target host -> proxy id, for session rotation
+  const sessions = new Map<string, string>();
+
+  for (const proxyUrl of proxyUrls) {
+    const config = parseProxyUrl(proxyUrl);
+    if (!config) {
+      console.warn(`Ignoring invalid proxy URL: ${proxyUrl.replace(/\/\/[^@/]*@/, '//***@')}`);
+      continue;
+    }
+    const id = `${config.protocol}://${config.host}:${config.port}`;
+    if (proxies.some((proxy) => proxy.id === id)) {
+      continue;
+    }
+    proxies.push({
+      id,
+      config,
+      requests: 0,
+      failures: 0,
+      consecutive403s: 0,
+      timesBenched: 0,
+      benchedUntil: 0,
+      lastUsedAt: 0
+    });
+  }
+
+  const pickHealthiest = (now: number): ProxyState => {
+    const available = proxies.filter((proxy) => proxy.benchedUntil <= now);
+    if (available.length === 0) {
+      // Everything is benched: use the proxy that comes back first rather than going out directly
+      return proxies.reduce((best, proxy) => (proxy.benchedUntil < best.benchedUntil ? proxy : best));
+    }
+    // Least-recently used among equally healthy proxies, so load spreads out
+    return available.reduce((best, proxy) => {
+      const scoreDifference = failureScore(proxy) - failureScore(best);
+      return scoreDifference < 0 || (scoreDifference === 0 && proxy.lastUsedAt < best.lastUsedAt) ? proxy : best;
+    });
+  };
+
+  const toEntry = (proxy: ProxyState): ProxyEntry => ({ id: proxy.id, config: proxy.config });
+
+  return {
+    size: proxies.length,
+    rotation: options.rotation,
+
+    acquire(url) {
+      if (proxies.length === 0) {
+        return null;
+      }
+      const now = Date.now();
+      const host = new URL(url).host;
+
+      let proxy: ProxyState | undefined;
+      if (options.rotation === 'session') {
+        proxy = proxies.find((candidate) => candidate.id === sessions.get(host) && candidate.benchedUntil <= now);
+      }
+      proxy = proxy ?? pickHealthiest(now);
+      if (options.rotation === 'session') {
+        sessions.set(host, proxy.id);
+      }
+      proxy.lastUsedAt = now;
+      return toEntry(proxy);
+    },
+
+    recordResult(entry, status) {
+      const proxy = entry && proxies.find((candidate) => candidate.id === entry.id);
+      if (!proxy) {
+        return;
+      }
+      proxy.requests++;
+      if (isFailureStatus(status)) {
+        proxy.failures++;
+      }
+      proxy.consecutive403s = status === 403 ? proxy.consecutive403s + 1 : 0;
+
+      if (proxy.consecutive403s >= options.max403s) {
+        proxy.benchedUntil = Date.now() + options.benchMs;
+        proxy.consecutive403s = 0;
+        proxy.timesBenched++;
+        console.warn(
+          `🚫 Proxy ${proxy.id} taken out of rotation for ${Math.round(options.benchMs / 1000)}s after ${options.max403s} 403s in a row`
+        );
+      }
+    },
+
+    listHealth() {
+      const now = Date.now();
+      return proxies.map((proxy) => ({
+        id: proxy.id,
+        requests: proxy.requests,
+        failures: proxy.failures,
+        failureRate: proxy.requests > 0 ? Math.round((proxy.failures / proxy.requests) * 10000) / 10000 : 0,
+        consecutive403s: proxy.consecutive403s,
+        timesBenched: proxy.timesBenched,
+        benchedUntil: proxy.benchedUntil > now ? new Date(proxy.benchedUntil) : null
+      }));
+    }
+  };
+}
+
+/**
+ * One-line summary of a proxy's health, for end-of-run logs
+ */
+export function formatProxyHealth(health: ProxyHealth): string {
+  return (
+    `${health.id}: ${health.requests} request(s), ${(health.failureRate * 100).toFixed(1)}% failed, ` +
+    `benched ${health.timesBenched} time(s)${health.benchedUntil ? ` (until ${health.benchedUntil.toISOString()})` : ''}`
+  );
+}
+
+/**
+ * Builds the pool from the environment: PROXY_LIST_FILE (one URL per line), else PROXY_LIST
+ * (comma-separated), else the single HTTPS_PROXY / https_proxy / PROXY_URL. PROXY_ROTATION picks
+ * `request` or `session` (default).
+ * @throws Error when PROXY_ROTATION is not a known rotation or PROXY_LIST_FILE cannot be read
+ */
+export function loadProxyPool(overrides: Partial<ProxyPoolOptions> = {}): ProxyPool {
+  const rotation = process.env.PROXY_ROTATION?.trim() || DEFAULT_PROXY_POOL_OPTIONS.rotation;
+  if (!PROXY_ROTATIONS.includes(rotation as ProxyRotation)) {
+    throw new Error(`Unknown PROXY_ROTATION "${rotation}". Expected one of: ${PROXY_ROTATIONS.join(', ')}`);
+  }
+
+  let proxyUrls: string[];
+  if (process.env.PROXY_LIST_FILE) {
+    proxyUrls = parseProxyList(fs.readFileSync(process.env.PROXY_LIST_FILE, 'utf8'));
+  } else if (process.env.PROXY_LIST) {
+    proxyUrls = parseProxyList(process.env.PROXY_LIST);
+  } else {
+    const singleProxy = process.env.HTTPS_PROXY || process.env.https_proxy || process.env.PROXY_URL;
+    proxyUrls = singleProxy ? [singleProxy] : [];
+  }
+
+  return createProxyPool(proxyUrls, { rotation: rotation as ProxyRotation, ...overrides });
+}
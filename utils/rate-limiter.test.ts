@@ -0,0 +1,161 @@
+import { afterEach, describe, expect, it, setSystemTime } from 'bun:test';
+
+import { CircuitOpenError, createHostRateLimiter, parseRetryAfter, RateLimitEvent } from './rate-limiter.js';
+
+const URL_A = 'https://novelfire.net/book/a';
+
+async function timeAcquire(acquire: () => Promise<void>): Promise<number> {
+  const startedAt = performance.now();
+  await acquire();
+  return performance.now() - startedAt;
+}
+
+afterEach(() => {
+  setSystemTime();
+});
+
+describe('parseRetryAfter', () => {
+  it('reads delay seconds and HTTP dates', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+    expect(parseRetryAfter('120', now)).toBe(120_000);
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:30 GMT', now)).toBe(30_000);
+    expect(parseRetryAfter('Sun, 31 Dec 2023 23:00:00 GMT', now)).toBe(0);
+  });
+
+  it('returns null for a missing or invalid header', () => {
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter('')).toBeNull();
+    expect(parseRetryAfter('soon')).toBeNull();
+  });
+});
+
+describe('createHostRateLimiter', () => {
+  it('lets a burst through, then waits for tokens to refill', async () => {
+    const limiter = createHostRateLimiter({ ratePerSecond: 10, burst: 2 });
+
+    expect(await timeAcquire(() => limiter.acquire(URL_A))).toBeLessThan(50);
+    expect(await timeAcquire(() => limiter.acquire(URL_A))).toBeLessThan(50);
+    // The third request needs a token refilled at 10 per second
+    expect(await timeAcquire(() => limiter.acquire(URL_A))).toBeGreaterThanOrEqual(80);
+
+    await Bun.sleep(250);
+    expect(await timeAcquire(() => limiter.acquire(URL_A))).toBeLessThan(50);
+    expect(await timeAcquire(() => limiter.acquire(URL_A))).toBeLessThan(50);
+    expect(limiter.getState(URL_A).requests).toBe(5);
+  });
+
+  it('keeps a bucket per host', async () => {
+    const limiter = createHostRateLimiter({ ratePerSecond: 1, burst: 1 });
+
+    await limiter.acquire(URL_A);
+    expect(await timeAcquire(() => limiter.acquire('https://other.example/x'))).toBeLessThan(50);
+    expect(limiter.listStates().map((state) => state.host)).toEqual(['novelfire.net', 'other.example']);
+  });
+
+  it('slows down and pauses for Retry-After on a throttling response', () => {
+    const limiter = createHostRateLimiter({ ratePerSecond: 4 });
+    const events: RateLimitEvent[] = [];
+    limiter.onEvent((event) => events.push(event));
+
+    limiter.recordResult(URL_A, 429, '2');
+
+    expect(events).toEqual([
+      { type: 'slowdown', host: 'novelfire.net', ratePerSecond: 2 },
+      { type: 'pause', host: 'novelfire.net', pauseMs: 2000, reason: 'Retry-After after status 429' }
+    ]);
+    expect(limiter.getState(URL_A)).toMatchObject({
+      ratePerSecond: 2,
+      throttledResponses: 1,
+      failures: 1,
+      retryAfterPauses: 1,
+      circuit: 'closed'
+    });
+  });
+
+  it('never slows below the minimum rate', () => {
+    const limiter = createHostRateLimiter({ ratePerSecond: 1, minRatePerSecond: 0.4 });
+
+    for (let attempt = 0; attempt < 4; attempt++) {
+      limiter.recordResult(URL_A, 403, '0');
+    }
+
+    expect(limiter.getState(URL_A).ratePerSecond).toBe(0.4);
+    expect(limiter.getState(URL_A).slowdowns).toBe(2);
+  });
+
+  it('backs off exponentially without Retry-After', () => {
+    const limiter = createHostRateLimiter({ baseBackoffMs: 1000, maxBackoffMs: 3000 });
+    const pauses: number[] = [];
+    limiter.onEvent((event) => {
+      if (event.type === 'pause') {
+        pauses.push(event.pauseMs);
+      }
+    });
+
+    limiter.recordResult(URL_A, 503);
+    limiter.recordResult(URL_A, undefined);
+    limiter.recordResult(URL_A, 500);
+
+    // Each pause has up to 750ms of jitter on top of the backoff
+    for (const [index, backoffMs] of [1000, 2000, 3000].entries()) {
+      expect(pauses[index]).toBeGreaterThanOrEqual(backoffMs);
+      expect(pauses[index]).toBeLessThan(backoffMs + 750);
+    }
+    expect(limiter.getState(URL_A).throttledResponses).toBe(0);
+    expect(limiter.getState(URL_A).ratePerSecond).toBe(3);
+  });
+
+  it('does not count client errors as failures', () => {
+    const limiter = createHostRateLimiter({ failureThreshold: 1 });
+
+    limiter.recordResult(URL_A, 404);
+
+    expect(limiter.getState(URL_A)).toMatchObject({ failures: 0, consecutiveFailures: 0, circuit: 'closed' });
+  });
+
+  it('speeds back up after enough successes in a row', () => {
+    const limiter = createHostRateLimiter({ ratePerSecond: 4, speedupFactor: 1.5, successesBeforeSpeedup: 2 });
+
+    limiter.recordResult(URL_A, 429, '0');
+    limiter.recordResult(URL_A, 200);
+    expect(limiter.getState(URL_A).ratePerSecond).toBe(2);
+    limiter.recordResult(URL_A, 200);
+    expect(limiter.getState(URL_A).ratePerSecond).toBe(3);
+    limiter.recordResult(URL_A, 200);
+    limiter.recordResult(URL_A, 200);
+    // Capped at the configured rate
+    expect(limiter.getState(URL_A)).toMatchObject({ ratePerSecond: 4, speedups: 2 });
+  });
+
+  it('opens the circuit after repeated failures and lets one probe through once it expires', async () => {
+    const limiter = createHostRateLimiter({ failureThreshold: 2, circuitOpenMs: 60_000 });
+    const circuits: string[] = [];
+    limiter.onEvent((event) => {
+      if (event.type === 'circuit') {
+        circuits.push(event.circuit);
+      }
+    });
+
+    limiter.recordResult(URL_A, 500);
+    limiter.recordResult(URL_A, 500);
+    expect(limiter.getState(URL_A).circuit).toBe('open');
+    await expect(limiter.acquire(URL_A)).rejects.toBeInstanceOf(CircuitOpenError);
+
+    // Past the open period and any backoff pause
+    setSystemTime(new Date(Date.now() + 5 * 60_000));
+    await limiter.acquire(URL_A);
+    expect(limiter.getState(URL_A).circuit).toBe('half-open');
+    // Everything else waits for the probe's outcome
+    await expect(limiter.acquire(URL_A)).rejects.toBeInstanceOf(CircuitOpenError);
+
+    // A failed probe opens the circuit again
+    limiter.recordResult(URL_A, 502);
+    expect(limiter.getState(URL_A)).toMatchObject({ circuit: 'open', circuitTrips: 2, rejectedRequests: 2 });
+
+    setSystemTime(new Date(Date.now() + 10 * 60_000));
+    await limiter.acquire(URL_A);
+    limiter.recordResult(URL_A, 200);
+    expect(limiter.getState(URL_A)).toMatchObject({ circuit: 'closed', consecutiveFailures: 0 });
+    expect(circuits).toEqual(['open', 'half-open', 'open', 'half-open', 'closed']);
+  });
+});
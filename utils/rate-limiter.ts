@@ -0,0 +1,349 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface RateLimiterOptions {
+  // Requests per second each host starts at and recovers to
+  ratePerSecond: number;
+  // Requests a host may receive back to back after sitting idle
+  burst: number;
+  // Floor the rate never drops below, however often the host throttles us
+  minRatePerSecond: number;
+  // Rate multiplier applied on every 429/403
+  slowdownFactor: number;
+  // Rate multiplier applied after `successesBeforeSpeedup` successes in a row
+  speedupFactor: number;
+  successesBeforeSpeedup: number;
+  // Pause after a failure without Retry-After, doubled per consecutive failure up to `maxBackoffMs`
+  baseBackoffMs: number;
+  maxBackoffMs: number;
+  // Consecutive failures that open the circuit, and how long it stays open before a probe request
+  failureThreshold: number;
+  circuitOpenMs: number;
+}
+
+export const DEFAULT_RATE_LIMITER_OPTIONS: RateLimiterOptions = {
+  ratePerSecond: 3,
+  burst: 3,
+  minRatePerSecond: 0.2,
+  slowdownFactor: 0.5,
+  speedupFactor: 1.25,
+  successesBeforeSpeedup: 20,
+  baseBackoffMs: 1500,
+  maxBackoffMs: 60 * 1000,
+  failureThreshold: 8,
+  circuitOpenMs: 2 * 60 * 1000
+};
+
+export interface HostRateLimitState {
+  host: string;
+  ratePerSecond: number;
+  circuit: CircuitState;
+  requests: number;
+  throttledResponses: number;
+  failures: number;
+  consecutiveFailures: number;
+  slowdowns: number;
+  speedups: number;
+  retryAfterPauses: number;
+  circuitTrips: number;
+  // Requests refused while the circuit was open
+  rejectedRequests: number;
+}
+
+export type RateLimitEvent =
+  | { type: 'slowdown' | 'speedup'; host: string; ratePerSecond: number }
+  | { type: 'pause'; host: string; pauseMs: number; reason: string }
+  | { type: 'circuit'; host: string; circuit: CircuitState };
+
+export class CircuitOpenError extends Error {
+  host: string;
+  retryAt: Date;
+
+  constructor(host: string, retryAt: Date) {
+    super(`Circuit open for ${host} after repeated failures; retrying after ${retryAt.toISOString()}`);
+    this.name = 'CircuitOpenError';
+    this.host = host;
+    this.retryAt = retryAt;
+  }
+}
+
+export interface HostRateLimiter {
+  /**
+   * Waits for a request slot on the URL's host
+   * @throws CircuitOpenError when the host's circuit is open
+   */
+  acquire(url: string): Promise<void>;
+  /**
+   * Feeds a request's outcome back into its host's rate and circuit
+   * @param status - Response status, or undefined when no response arrived
+   * @param retryAfter - The response's Retry-After header, if any
+   */
+  recordResult(url: string, status: number | undefined, retryAfter?: string | null): void;
+  getState(url: string): HostRateLimitState;
+  listStates(): HostRateLimitState[];
+  // Notified on every rate change, pause and circuit transition; returns an unsubscribe function
+  onEvent(listener: (event: RateLimitEvent) => void): () => void;
+}
+
+interface HostBucket extends HostRateLimitState {
+  tokens: number;
+  // Time tokens were last refilled; in the future while the host is paused
+  refilledAt: number;
+  successStreak: number;
+  circuitOpenUntil: number;
+  probeInFlight: boolean;
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Parses a Retry-After header, either delay seconds or an HTTP date
+ * @returns Milliseconds to wait, or null when the header is missing or invalid
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | null {
+  if (!value) {
+    return null;
+  }
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+  const retryAt = Date.parse(trimmed);
+  return isNaN(retryAt) ? null : Math.max(0, retryAt - now);
+}
+
+/**
+ * Logs limiter events as they happen; subscribe it with `onEvent`
+ */
+export function logRateLimitEvent(event: RateLimitEvent): void {
+  switch (event.type) {
+    case 'slowdown':
+      console.warn(`🐢 Slowing requests to ${event.host} to ${event.ratePerSecond.toFixed(2)} req/s`);
+      break;
+    case 'speedup':
+      console.log(`🐇 Speeding requests to ${event.host} back up to ${event.ratePerSecond.toFixed(2)} req/s`);
+      break;
+    case 'pause':
+      console.warn(`⏸️  Pausing requests to ${event.host} for ${event.pauseMs}ms (${event.reason})`);
+      break;
+    case 'circuit':
+      if (event.circuit === 'open') {
+        console.error(`⛔ Circuit opened for ${event.host}; requests are refused until a probe succeeds`);
+      } else if (event.circuit === 'half-open') {
+        console.warn(`🔌 Circuit half-open for ${event.host}; sending a probe request`);
+      } else {
+        console.log(`✅ Circuit closed for ${event.host}`);
+      }
+      break;
+  }
+}
+
+/**
+ * One-line summary of a host's limiter state, for end-of-run logs
+ */
+export function formatRateLimitState(state: HostRateLimitState): string {
+  return (
+    `${state.host}: ${state.requests} request(s), now ${state.ratePerSecond} req/s, circuit ${state.circuit}; ` +
+    `${state.throttledResponses} throttled (429/403), ${state.failures} failure(s), ` +
+    `${state.slowdowns} slowdown(s), ${state.speedups} speedup(s), ${state.retryAfterPauses} Retry-After pause(s), ` +
+    `${state.circuitTrips} circuit trip(s), ${state.rejectedRequests} request(s) refused`
+  );
+}
+
+function isThrottleStatus(status: number | undefined): boolean {
+  return status === 429 || status === 403;
+}
+
+// 404s and other client errors say nothing about the host's health
+function isFailureStatus(status: number | undefined): boolean {
+  return status === undefined || isThrottleStatus(status) || status >= 500;
+}
+
+function publicState(bucket: HostBucket): HostRateLimitState {
+  return {
+    host: bucket.host,
+    ratePerSecond: Math.round(bucket.ratePerSecond * 100) / 100,
+    circuit: bucket.circuit,
+    requests: bucket.requests,
+    throttledResponses: bucket.throttledResponses,
+    failures: bucket.failures,
+    consecutiveFailures: bucket.consecutiveFailures,
+    slowdowns: bucket.slowdowns,
+    speedups: bucket.speedups,
+    retryAfterPauses: bucket.retryAfterPauses,
+    circuitTrips: bucket.circuitTrips,
+    rejectedRequests: bucket.rejectedRequests
+  };
+}
+
+/**
+ * Token-bucket rate limiter keyed by host. Throttling responses (429/403) halve the host's rate and
+ * pause it for Retry-After (or an exponential backoff); sustained success raises the rate back to
+ * `ratePerSecond`; `failureThreshold` failures in a row open a circuit that rejects requests until a
+ * probe succeeds after `circuitOpenMs`.
+ */
+export function createHostRateLimiter(overrides: Partial<RateLimiterOptions> = {}): HostRateLimiter {
+  const options = { ...DEFAULT_RATE_LIMITER_OPTIONS, ...overrides };
+  const buckets = new Map<string, HostBucket>();
+  const listeners = new Set<(event: RateLimitEvent) => void>();
+
+  const emit = (event: RateLimitEvent) => {
+    for (const listener of listeners) {
+      listener(event);
+    }
+  };
+
+  const getBucket = (url: string): HostBucket => {
+    const host = new URL(url).host;
+    let bucket = buckets.get(host);
+    if (!bucket) {
+      bucket = {
+        host,
+        ratePerSecond: options.ratePerSecond,
+        circuit: 'closed',
+        requests: 0,
+        throttledResponses: 0,
+        failures: 0,
+        consecutiveFailures: 0,
+        slowdowns: 0,
+        speedups: 0,
+        retryAfterPauses: 0,
+        circuitTrips: 0,
+        rejectedRequests: 0,
+        tokens: options.burst,
+        refilledAt: Date.now(),
+        successStreak: 0,
+        circuitOpenUntil: 0,
+        probeInFlight: false
+      };
+      buckets.set(host, bucket);
+    }
+    return bucket;
+  };
+
+  const refill = (bucket: HostBucket, now: number) => {
+    if (now > bucket.refilledAt) {
+      bucket.tokens = Math.min(
+        options.burst,
+        bucket.tokens + ((now - bucket.refilledAt) / 1000) * bucket.ratePerSecond
+      );
+      bucket.refilledAt = now;
+    }
+  };
+
+  const pause = (bucket: HostBucket, pauseMs: number, reason: string) => {
+    const now = Date.now();
+    refill(bucket, now);
+    bucket.tokens = Math.min(bucket.tokens, 0);
+    bucket.refilledAt = Math.max(bucket.refilledAt, now + pauseMs);
+    emit({ type: 'pause', host: bucket.host, pauseMs, reason });
+  };
+
+  const setCircuit = (bucket: HostBucket, circuit: CircuitState) => {
+    if (bucket.circuit !== circuit) {
+      bucket.circuit = circuit;
+      emit({ type: 'circuit', host: bucket.host, circuit });
+    }
+  };
+
+  const openCircuit = (bucket: HostBucket) => {
+    bucket.circuitOpenUntil = Date.now() + options.circuitOpenMs;
+    bucket.circuitTrips++;
+    setCircuit(bucket, 'open');
+  };
+
+  return {
+    async acquire(url) {
+      const bucket = getBucket(url);
+      const now = Date.now();
+
+      if (bucket.circuit === 'open' && now >= bucket.circuitOpenUntil) {
+        setCircuit(bucket, 'half-open');
+      }
+      // Half-open lets a single probe through; everything else waits for its outcome
+      if (bucket.circuit === 'open' || (bucket.circuit === 'half-open' && bucket.probeInFlight)) {
+        bucket.rejectedRequests++;
+        throw new CircuitOpenError(bucket.host, new Date(Math.max(bucket.circuitOpenUntil, now)));
+      }
+      if (bucket.circuit === 'half-open') {
+        bucket.probeInFlight = true;
+      }
+
+      // Reserve a token now, so concurrent callers queue up behind each other
+      refill(bucket, now);
+      bucket.tokens -= 1;
+      bucket.requests++;
+      const waitMs =
+        Math.max(0, bucket.refilledAt - now) + (Math.max(0, -bucket.tokens) / bucket.ratePerSecond) * 1000;
+      if (waitMs > 0) {
+        await delay(waitMs);
+      }
+    },
+
+    recordResult(url, status, retryAfter) {
+      const bucket = getBucket(url);
+      bucket.probeInFlight = false;
+
+      if (!isFailureStatus(status)) {
+        bucket.consecutiveFailures = 0;
+        bucket.successStreak++;
+        setCircuit(bucket, 'closed');
+        if (bucket.successStreak >= options.successesBeforeSpeedup && bucket.ratePerSecond < options.ratePerSecond) {
+          bucket.ratePerSecond = Math.min(options.ratePerSecond, bucket.ratePerSecond * options.speedupFactor);
+          bucket.speedups++;
+          bucket.successStreak = 0;
+          emit({ type: 'speedup', host: bucket.host, ratePerSecond: bucket.ratePerSecond });
+        }
+        return;
+      }
+
+      bucket.failures++;
+      bucket.consecutiveFailures++;
+      bucket.successStreak = 0;
+
+      if (isThrottleStatus(status)) {
+        bucket.throttledResponses++;
+        const slowerRate = Math.max(options.minRatePerSecond, bucket.ratePerSecond * options.slowdownFactor);
+        if (slowerRate < bucket.ratePerSecond) {
+          bucket.ratePerSecond = slowerRate;
+          bucket.slowdowns++;
+          emit({ type: 'slowdown', host: bucket.host, ratePerSecond: slowerRate });
+        }
+      }
+
+      const retryAfterMs = parseRetryAfter(retryAfter);
+      if (retryAfterMs !== null) {
+        bucket.retryAfterPauses++;
+        pause(bucket, Math.min(retryAfterMs, options.circuitOpenMs), `Retry-After after status ${status}`);
+      } else {
+        const backoffMs = Math.min(
+          options.maxBackoffMs,
+          options.baseBackoffMs * 2 ** (bucket.consecutiveFailures - 1)
+        );
+        pause(bucket, backoffMs + Math.floor(Math.random() * 750), `status ${status ?? 'error'}`);
+      }
+
+      // Requests already in flight when the circuit opened must not keep extending it
+      if (
+        bucket.circuit === 'half-open' ||
+        (bucket.circuit === 'closed' && bucket.consecutiveFailures >= options.failureThreshold)
+      ) {
+        openCircuit(bucket);
+      }
+    },
+
+    getState(url) {
+      return publicState(getBucket(url));
+    },
+
+    listStates() {
+      return Array.from(buckets.values()).map(publicState);
+    },
+
+    onEvent(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+}
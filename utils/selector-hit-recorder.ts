@@ -0,0 +1,53 @@
+import { recordSelectorHits, SelectorHitCount } from '../models/SelectorHealth.js';
+import { onFieldExtraction } from './selector-profile.js';
+
+export interface SelectorHitRecorder {
+  runId: string;
+  // Writes the hits counted since the last flush; failures are logged and retried on the next flush
+  flush(): Promise<void>;
+  // Stops counting and writes what is left
+  stop(): Promise<void>;
+}
+
+/**
+ * Counts which selector won every field extracted during a run and stores the totals in selector_hits
+ * @param runId - Identifier shared by all hits of this run
+ */
+export function startSelectorHitRecorder(runId: string): SelectorHitRecorder {
+  let pending = new Map<string, SelectorHitCount>();
+
+  const addHits = (count: SelectorHitCount) => {
+    const key = [count.source, count.profileVersion, count.field, count.selectorIndex].join('\u0000');
+    const existing = pending.get(key);
+    if (existing) {
+      existing.hits += count.hits;
+    } else {
+      pending.set(key, { ...count });
+    }
+  };
+
+  const unsubscribe = onFieldExtraction((extraction) => addHits({ ...extraction, hits: 1 }));
+
+  const flush = async () => {
+    if (pending.size === 0) {
+      return;
+    }
+    const counts = Array.from(pending.values());
+    pending = new Map();
+    try {
+      await recordSelectorHits(runId, counts);
+    } catch (error) {
+      console.error('Error recording selector hits:', error);
+      counts.forEach(addHits);
+    }
+  };
+
+  return {
+    runId,
+    flush,
+    stop: async () => {
+      unsubscribe();
+      await flush();
+    }
+  };
+}
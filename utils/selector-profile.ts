@@ -0,0 +1,389 @@
+import * as cheerio from 'cheerio';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+// Profile format understood by this loader; bump when the JSON shape changes incompatibly
+const SUPPORTED_SCHEMA_VERSION = 1;
+
+// Fields every profile must define; they map onto NovelDetails and ChapterContent
+const REQUIRED_FIELDS = {
+  novel: [
+    'title',
+    'author',
+    'rank',
+    'chapters',
+    'views',
+    'bookmarks',
+    'status',
+    'genres',
+    'summary',
+    'rating',
+    'chaptersUrl',
+    'imageUrl'
+  ],
+  chapter: ['title', 'content']
+};
+
+const DEFAULT_PROFILE_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'sources', 'profiles');
+
+/**
+ * Post-processing applied to each candidate value, in order. A transform that
+ * yields null rejects the candidate and extraction moves on to the next selector.
+ * - collapseWhitespace - squeeze runs of whitespace into single spaces
+ * - replace            - regex replace (`pattern`, `flags`, `replacement`)
+ * - absoluteUrl        - resolve a relative link against the page URL
+ * - number             - parse a number (commas allowed), optionally within `min`/`max`
+ */
+export type FieldTransform =
+  | { type: 'collapseWhitespace' }
+  | { type: 'replace'; pattern: string; flags?: string; replacement?: string }
+  | { type: 'absoluteUrl' }
+  | { type: 'number'; min?: number; max?: number };
+
+export interface SelectorCandidate {
+  selector: string;
+  // "text" (default), "html" for inner HTML, or the name of an attribute
+  attribute: string;
+}
+
+export interface FieldDefinition {
+  // Profile and field the definition came from, e.g. "novelfire" / "novel.summary"
+  source: string;
+  profileVersion: number;
+  name: string;
+  // Tried in order; the first one producing a value wins
+  selectors: SelectorCandidate[];
+  transforms: FieldTransform[];
+  // Collect every matching element instead of only the first
+  multiple: boolean;
+}
+
+export interface SelectorProfile {
+  name: string;
+  // Revision of the selectors, bumped whenever they are edited
+  version: number;
+  path: string;
+  novel: Record<string, FieldDefinition>;
+  chapter: Record<string, FieldDefinition>;
+}
+
+export type FieldValue = string | number | string[] | null;
+
+export interface FieldMatch {
+  value: FieldValue;
+  // Which selector produced the value
+  selector: string | null;
+}
+
+// Reported for every field extraction, whether a selector matched or not
+export interface FieldExtraction {
+  source: string;
+  profileVersion: number;
+  field: string;
+  // Position of the winning selector in the fallback list; -1 when every selector failed
+  selectorIndex: number;
+  selector: string | null;
+}
+
+export type FieldExtractionListener = (extraction: FieldExtraction) => void;
+
+const extractionListeners = new Set<FieldExtractionListener>();
+
+/**
+ * Subscribes to every field extraction made through a selector profile
+ * @returns Function that removes the listener
+ */
+export function onFieldExtraction(listener: FieldExtractionListener): () => void {
+  extractionListeners.add(listener);
+  return () => {
+    extractionListeners.delete(listener);
+  };
+}
+
+export class SelectorProfileError extends Error {
+  profilePath: string;
+  constructor(profilePath: string, message: string) {
+    super(`Invalid selector profile ${profilePath}: ${message}`);
+    this.profilePath = profilePath;
+  }
+}
+
+export function getSelectorProfileDir(): string {
+  return process.env.SELECTOR_PROFILE_DIR || DEFAULT_PROFILE_DIR;
+}
+
+function parseTransform(raw: unknown, where: string, profilePath: string): FieldTransform {
+  const transform = typeof raw === 'string' ? { type: raw } : (raw as Record<string, unknown> | null);
+  switch (transform?.type) {
+    case 'collapseWhitespace':
+    case 'absoluteUrl':
+      return { type: transform.type };
+    case 'replace': {
+      const { pattern, flags, replacement } = transform;
+      if (typeof pattern !== 'string') {
+        throw new SelectorProfileError(profilePath, `${where}: "replace" needs a string "pattern"`);
+      }
+      try {
+        new RegExp(pattern, typeof flags === 'string' ? flags : undefined);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new SelectorProfileError(profilePath, `${where}: ${message}`);
+      }
+      return {
+        type: 'replace',
+        pattern,
+        flags: typeof flags === 'string' ? flags : undefined,
+        replacement: typeof replacement === 'string' ? replacement : ''
+      };
+    }
+    case 'number':
+      return {
+        type: 'number',
+        min: typeof transform.min === 'number' ? transform.min : undefined,
+        max: typeof transform.max === 'number' ? transform.max : undefined
+      };
+    default:
+      throw new SelectorProfileError(profilePath, `${where}: unknown transform ${JSON.stringify(raw)}`);
+  }
+}
+
+function parseField(
+  raw: unknown,
+  where: string,
+  profile: { name: string; version: number; path: string }
+): FieldDefinition {
+  const profilePath = profile.path;
+  const field = raw as Record<string, unknown> | null;
+  if (!field || !Array.isArray(field.selectors) || field.selectors.length === 0) {
+    throw new SelectorProfileError(profilePath, `${where}: "selectors" must be a non-empty list`);
+  }
+
+  const defaultAttribute = typeof field.attribute === 'string' ? field.attribute : 'text';
+  const selectors = field.selectors.map((candidate: unknown) => {
+    const entry = typeof candidate === 'string' ? { selector: candidate } : (candidate as Record<string, unknown>);
+    if (typeof entry?.selector !== 'string' || entry.selector.trim() === '') {
+      throw new SelectorProfileError(profilePath, `${where}: every selector must be a non-empty string`);
+    }
+    return {
+      selector: entry.selector,
+      attribute: typeof entry.attribute === 'string' ? entry.attribute : defaultAttribute
+    };
+  });
+
+  const transforms = Array.isArray(field.transforms)
+    ? field.transforms.map((transform: unknown) => parseTransform(transform, where, profilePath))
+    : [];
+
+  return {
+    source: profile.name,
+    profileVersion: profile.version,
+    name: where,
+    selectors,
+    transforms,
+    multiple: field.multiple === true
+  };
+}
+
+function parseFieldGroup(
+  raw: unknown,
+  group: keyof typeof REQUIRED_FIELDS,
+  profile: { name: string; version: number; path: string }
+): Record<string, FieldDefinition> {
+  const profilePath = profile.path;
+  if (!raw || typeof raw !== 'object') {
+    throw new SelectorProfileError(profilePath, `"${group}" must be an object of fields`);
+  }
+  const missingFields = REQUIRED_FIELDS[group].filter((name) => !(name in raw));
+  if (missingFields.length > 0) {
+    throw new SelectorProfileError(profilePath, `"${group}" is missing ${missingFields.join(', ')}`);
+  }
+  return Object.fromEntries(
+    Object.entries(raw).map(([name, field]) => [name, parseField(field, `${group}.${name}`, profile)])
+  );
+}
+
+/**
+ * Parses and validates a selector profile
+ * @throws SelectorProfileError when the JSON does not describe a valid profile
+ */
+export function parseSelectorProfile(json: string, profilePath: string): SelectorProfile {
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(json);
+  } catch (error) {
+    throw new SelectorProfileError(profilePath, error instanceof Error ? error.message : String(error));
+  }
+
+  if (raw.schemaVersion !== SUPPORTED_SCHEMA_VERSION) {
+    throw new SelectorProfileError(
+      profilePath,
+      `unsupported schemaVersion ${JSON.stringify(raw.schemaVersion)} (expected ${SUPPORTED_SCHEMA_VERSION})`
+    );
+  }
+  if (typeof raw.name !== 'string' || typeof raw.version !== 'number') {
+    throw new SelectorProfileError(profilePath, '"name" (string) and "version" (number) are required');
+  }
+
+  const profile = { name: raw.name, version: raw.version, path: profilePath };
+  return {
+    ...profile,
+    novel: parseFieldGroup(raw.novel, 'novel', profile),
+    chapter: parseFieldGroup(raw.chapter, 'chapter', profile)
+  };
+}
+
+const profileCache = new Map<string, { mtimeMs: number; profile: SelectorProfile }>();
+
+/**
+ * Loads `<profile dir>/<name>.json`. The file is re-read whenever it changes on disk,
+ * so a long-running process picks up selector fixes without a restart.
+ * @param name - Profile name, usually the source adapter's name
+ * @throws SelectorProfileError when the file is missing or invalid
+ */
+export function loadSelectorProfile(name: string): SelectorProfile {
+  const profilePath = path.join(getSelectorProfileDir(), `${name}.json`);
+
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(profilePath).mtimeMs;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new SelectorProfileError(
+      profilePath,
+      (error as NodeJS.ErrnoException).code === 'ENOENT' ? 'file not found' : message
+    );
+  }
+
+  const cached = profileCache.get(profilePath);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.profile;
+  }
+
+  const profile = parseSelectorProfile(fs.readFileSync(profilePath, 'utf-8'), profilePath);
+  profileCache.set(profilePath, { mtimeMs, profile });
+  return profile;
+}
+
+function applyTransforms(value: string, transforms: FieldTransform[], pageUrl: string): string | number | null {
+  let current: string | number | null = value.trim();
+
+  for (const transform of transforms) {
+    if (current === null || current === '') {
+      return null;
+    }
+    const text: string = String(current);
+
+    switch (transform.type) {
+      case 'collapseWhitespace':
+        current = text.replace(/\s+/g, ' ').trim();
+        break;
+      case 'replace':
+        current = text.replace(new RegExp(transform.pattern, transform.flags), transform.replacement ?? '').trim();
+        break;
+      case 'absoluteUrl':
+        current = text.startsWith('http') ? text : new URL(text, new URL(pageUrl).origin).href;
+        break;
+      case 'number': {
+        const parsed = parseFloat(text.replace(/,/g, ''));
+        const outOfRange =
+          (transform.min !== undefined && parsed < transform.min) ||
+          (transform.max !== undefined && parsed > transform.max);
+        current = isNaN(parsed) || outOfRange ? null : parsed;
+        break;
+      }
+    }
+  }
+
+  return current === '' ? null : current;
+}
+
+function readCandidate($: cheerio.Root, element: cheerio.Cheerio, attribute: string): string | null {
+  if (attribute === 'text') {
+    return element.text();
+  }
+  if (attribute === 'html') {
+    return element.html();
+  }
+  return element.attr(attribute) ?? null;
+}
+
+/**
+ * Extracts one field by trying its selectors in order
+ * @param $ - Cheerio instance loaded with the page
+ * @param field - Field definition from a selector profile
+ * @param pageUrl - URL the page was fetched from, used by the absoluteUrl transform
+ * @returns The first non-empty value and the selector that produced it; multiple fields return a list
+ */
+export function extractField($: cheerio.Root, field: FieldDefinition, pageUrl: string): FieldMatch {
+  const match = matchField($, field, pageUrl);
+
+  const extraction: FieldExtraction = {
+    source: field.source,
+    profileVersion: field.profileVersion,
+    field: field.name,
+    selectorIndex: match.selectorIndex,
+    selector: match.selector
+  };
+  extractionListeners.forEach((listener) => listener(extraction));
+
+  return { value: match.value, selector: match.selector };
+}
+
+function matchField(
+  $: cheerio.Root,
+  field: FieldDefinition,
+  pageUrl: string
+): FieldMatch & { selectorIndex: number } {
+  for (const [selectorIndex, { selector, attribute }] of field.selectors.entries()) {
+    try {
+      const elements = $(selector);
+      if (field.multiple) {
+        const values = elements
+          .map((i, el) => applyTransforms(readCandidate($, $(el), attribute) ?? '', field.transforms, pageUrl))
+          .get()
+          .filter((value: string | number | null) => value !== null)
+          .map(String);
+        if (values.length > 0) {
+          return { value: values, selector, selectorIndex };
+        }
+        continue;
+      }
+
+      const raw = elements.length > 0 ? readCandidate($, elements.first(), attribute) : null;
+      const value = raw ? applyTransforms(raw, field.transforms, pageUrl) : null;
+      if (value !== null) {
+        return { value, selector, selectorIndex };
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`  ! Error trying selector '${selector}': ${message}`);
+    }
+  }
+
+  return { value: field.multiple ? [] : null, selector: null, selectorIndex: -1 };
+}
+
+/**
+ * Extracts every field of a profile group (e.g. `profile.novel`)
+ */
+export function extractFields(
+  $: cheerio.Root,
+  fields: Record<string, FieldDefinition>,
+  pageUrl: string
+): Record<string, FieldMatch> {
+  return Object.fromEntries(Object.entries(fields).map(([name, field]) => [name, extractField($, field, pageUrl)]));
+}
+
+export function textValue(match: FieldMatch | undefined): string | null {
+  const value = match?.value;
+  return value === null || value === undefined || Array.isArray(value) ? null : String(value);
+}
+
+export function numberValue(match: FieldMatch | undefined): number | null {
+  return typeof match?.value === 'number' ? match.value : null;
+}
+
+export function listValue(match: FieldMatch | undefined): string[] {
+  return Array.isArray(match?.value) ? match.value : [];
+}
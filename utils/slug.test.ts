@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'bun:test';
+
+import { slugify } from './slug.js';
+
+describe('slugify', () => {
+  it('gives spelling variants of a name the same slug', () => {
+    expect(slugify('Sci-fi')).toBe('sci-fi');
+    expect(slugify('Sci Fi')).toBe('sci-fi');
+    expect(slugify('  SCI_FI ')).toBe('sci-fi');
+    expect(slugify('Slice of Life')).toBe('slice-of-life');
+  });
+
+  it('collapses runs of punctuation and trims dashes', () => {
+    expect(slugify('Martial Arts & Magic!!')).toBe('martial-arts-magic');
+    expect(slugify('--Action--')).toBe('action');
+  });
+
+  it('strips accents', () => {
+    expect(slugify('Café Romance')).toBe('cafe-romance');
+    expect(slugify('Ｆｕｌｌｗｉｄｔｈ')).toBe('fullwidth');
+  });
+
+  it('keeps letters of other scripts and digits', () => {
+    expect(slugify('武侠')).toBe('武侠');
+    expect(slugify('Top 100')).toBe('top-100');
+  });
+
+  it('returns an empty string without letters or digits', () => {
+    expect(slugify('!!!')).toBe('');
+    expect(slugify('')).toBe('');
+  });
+});
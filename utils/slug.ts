@@ -0,0 +1,12 @@
+/**
+ * URL-safe key for a name, so spelling variants such as "Sci-fi", "Sci Fi" and "sci-fi" share one slug.
+ * Letters of any script are kept; an empty string means the name has no letters or digits.
+ */
+export function slugify(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
+}
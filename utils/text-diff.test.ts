@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'bun:test';
+
+import { diffText, MAX_DIFF_CELLS } from './text-diff.js';
+
+function paragraphs(prefix: string, count: number): string {
+  return Array.from({ length: count }, (_, index) => `<p>${prefix} ${index}</p>`).join('');
+}
+
+describe('diffText', () => {
+  it('aligns changed lines between a shared prefix and suffix', () => {
+    const diff = diffText('<p>a</p><p>b</p><p>c</p><p>d</p>', '<p>a</p><p>x</p><p>c</p><p>y</p><p>d</p>');
+
+    expect(diff).toEqual({
+      added: 2,
+      removed: 1,
+      approximate: false,
+      hunks: [
+        { type: 'equal', lines: ['<p>a</p>'] },
+        { type: 'removed', lines: ['<p>b</p>'] },
+        { type: 'added', lines: ['<p>x</p>'] },
+        { type: 'equal', lines: ['<p>c</p>'] },
+        { type: 'added', lines: ['<p>y</p>'] },
+        { type: 'equal', lines: ['<p>d</p>'] }
+      ]
+    });
+  });
+
+  it('ignores blank lines and surrounding whitespace', () => {
+    expect(diffText('one\n\n  two  \r\n', 'one\ntwo')).toEqual({
+      added: 0,
+      removed: 0,
+      approximate: false,
+      hunks: [{ type: 'equal', lines: ['one', 'two'] }]
+    });
+  });
+
+  it('replaces a changed region too large to align as a whole', () => {
+    const lineCount = Math.ceil(Math.sqrt(MAX_DIFF_CELLS)) + 1;
+    const diff = diffText(
+      `<p>start</p>${paragraphs('old', lineCount)}<p>end</p>`,
+      `<p>start</p>${paragraphs('new', lineCount)}<p>end</p>`
+    );
+
+    expect(diff.approximate).toBe(true);
+    expect(diff.added).toBe(lineCount);
+    expect(diff.removed).toBe(lineCount);
+    expect(diff.hunks.map((hunk) => [hunk.type, hunk.lines.length])).toEqual([
+      ['equal', 1],
+      ['removed', lineCount],
+      ['added', lineCount],
+      ['equal', 1]
+    ]);
+  });
+});
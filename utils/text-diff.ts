@@ -0,0 +1,125 @@
+// A run of consecutive lines that are unchanged, only in the new text, or only in the old text
+export interface DiffHunk {
+  type: 'equal' | 'added' | 'removed';
+  lines: string[];
+}
+
+export interface TextDiff {
+  added: number;
+  removed: number;
+  hunks: DiffHunk[];
+  // True when the changed region was too large to align line by line and is shown as one removal and one addition
+  approximate: boolean;
+}
+
+// Largest LCS table (changed old lines x changed new lines) worth building: 4 MB, well under a second
+export const MAX_DIFF_CELLS = 1_000_000;
+
+/**
+ * Splits chapter content into comparable lines. Chapter HTML is mostly one paragraph
+ * per line, but paragraphs packed onto a single line are split at their closing tag.
+ * @param text - Chapter content (HTML or plain text)
+ * @returns Non-empty, trimmed lines
+ */
+function splitLines(text: string): string[] {
+  return text
+    .replace(/<\/p>\s*/gi, '</p>\n')
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== '');
+}
+
+function pushLine(hunks: DiffHunk[], type: DiffHunk['type'], line: string): void {
+  const lastHunk = hunks[hunks.length - 1];
+  if (lastHunk && lastHunk.type === type) {
+    lastHunk.lines.push(line);
+  } else {
+    hunks.push({ type, lines: [line] });
+  }
+}
+
+// Pushes a minimal diff of two line lists, taken from the table of their longest common subsequences
+function pushAlignedLines(hunks: DiffHunk[], oldLines: string[], newLines: string[]): void {
+  const columns = newLines.length + 1;
+
+  // lcs[i * columns + j] = LCS length of oldLines[i..] and newLines[j..]
+  const lcs = new Uint32Array((oldLines.length + 1) * columns);
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lcs[i * columns + j] =
+        oldLines[i] === newLines[j]
+          ? lcs[(i + 1) * columns + j + 1] + 1
+          : Math.max(lcs[(i + 1) * columns + j], lcs[i * columns + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length || j < newLines.length) {
+    if (i < oldLines.length && j < newLines.length && oldLines[i] === newLines[j]) {
+      pushLine(hunks, 'equal', oldLines[i]);
+      i++;
+      j++;
+    } else if (
+      i < oldLines.length &&
+      (j === newLines.length || lcs[(i + 1) * columns + j] >= lcs[i * columns + j + 1])
+    ) {
+      pushLine(hunks, 'removed', oldLines[i]);
+      i++;
+    } else {
+      pushLine(hunks, 'added', newLines[j]);
+      j++;
+    }
+  }
+}
+
+function countLines(hunks: DiffHunk[], type: DiffHunk['type']): number {
+  return hunks.reduce((total, hunk) => total + (hunk.type === type ? hunk.lines.length : 0), 0);
+}
+
+/**
+ * Computes a line diff between two versions of a text using the longest common subsequence.
+ * A changed region too large for that (see MAX_DIFF_CELLS) is shown as removed and re-added whole.
+ * @param oldText - Previous version
+ * @param newText - Current version
+ * @returns Hunks in reading order plus added/removed line counts
+ */
+export function diffText(oldText: string, newText: string): TextDiff {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+
+  // Common prefix and suffix are cheap to peel off and keep the LCS table small
+  let prefixLength = 0;
+  while (
+    prefixLength < oldLines.length &&
+    prefixLength < newLines.length &&
+    oldLines[prefixLength] === newLines[prefixLength]
+  ) {
+    prefixLength++;
+  }
+
+  let suffixLength = 0;
+  while (
+    suffixLength < oldLines.length - prefixLength &&
+    suffixLength < newLines.length - prefixLength &&
+    oldLines[oldLines.length - 1 - suffixLength] === newLines[newLines.length - 1 - suffixLength]
+  ) {
+    suffixLength++;
+  }
+
+  const oldMiddle = oldLines.slice(prefixLength, oldLines.length - suffixLength);
+  const newMiddle = newLines.slice(prefixLength, newLines.length - suffixLength);
+  const approximate = oldMiddle.length * newMiddle.length > MAX_DIFF_CELLS;
+
+  const hunks: DiffHunk[] = [];
+  oldLines.slice(0, prefixLength).forEach((line) => pushLine(hunks, 'equal', line));
+  if (approximate) {
+    oldMiddle.forEach((line) => pushLine(hunks, 'removed', line));
+    newMiddle.forEach((line) => pushLine(hunks, 'added', line));
+  } else {
+    pushAlignedLines(hunks, oldMiddle, newMiddle);
+  }
+  oldLines.slice(oldLines.length - suffixLength).forEach((line) => pushLine(hunks, 'equal', line));
+
+  return { added: countLines(hunks, 'added'), removed: countLines(hunks, 'removed'), hunks, approximate };
+}